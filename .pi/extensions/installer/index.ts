@@ -1,6 +1,9 @@
 /**
  * Installer - Symlinks all pack resources to ~/.pi/agent/
  *
+ * Links left behind by resources that were renamed or removed from the pack
+ * are deleted on the next install.
+ *
  * Usage: /install (auto-available when pi is opened in this repo)
  */
 
@@ -10,21 +13,47 @@ import * as os from "node:os";
 import * as path from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 
-const RESOURCE_TYPES = ["extensions", "skills", "prompts", "agents", "themes"];
+const RESOURCE_TYPES = ["extensions", "skills", "prompts", "agents", "workflows", "themes"];
 
 function getPackDir(): string {
 	return path.resolve(__dirname, "..", "..", "..", "pack");
 }
 
+/** Remove links into the pack whose target is gone (renamed or deleted resources) */
+function pruneStaleLinks(packDir: string, destDir: string, type: string): string[] {
+	const results: string[] = [];
+	if (!fs.existsSync(destDir)) return results;
+
+	for (const name of fs.readdirSync(destDir)) {
+		const target = path.join(destDir, name);
+		let linkPath: string;
+		try {
+			if (!fs.lstatSync(target).isSymbolicLink()) continue;
+			linkPath = path.resolve(destDir, fs.readlinkSync(target));
+		} catch {
+			continue;
+		}
+
+		const relative = path.relative(packDir, linkPath);
+		if (relative.startsWith("..") || path.isAbsolute(relative) || fs.existsSync(linkPath)) continue;
+		fs.unlinkSync(target);
+		results.push(`- ${type}/${name} (removed, no longer in pack)`);
+	}
+
+	return results;
+}
+
 function linkResources(packDir: string): string[] {
 	const piDir = path.join(os.homedir(), ".pi", "agent");
 	const results: string[] = [];
 
 	for (const type of RESOURCE_TYPES) {
+		const destDir = path.join(piDir, type);
+		results.push(...pruneStaleLinks(packDir, destDir, type));
+
 		const srcDir = path.join(packDir, type);
 		if (!fs.existsSync(srcDir)) continue;
 
-		const destDir = path.join(piDir, type);
 		fs.mkdirSync(destDir, { recursive: true });
 
 		for (const name of fs.readdirSync(srcDir)) {
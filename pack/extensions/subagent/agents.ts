@@ -1,17 +1,61 @@
 /**
  * Agent discovery and configuration
+ *
+ * Agents can build on each other:
+ *   - `extends: <agent>` inherits every setting the agent leaves unset and adds the
+ *     parent's prompt before (default) or after its own (`inheritPrompt`)
+ *   - `include: <partial>, ...` inserts shared fragments from `partials/<name>.md`
+ *     next to the agent files, at `{{include <partial>}}` in the body or after it
+ * Broken definitions (missing name/description, unknown parent, cycle, missing
+ * partial) are reported in `errors` instead of being dropped silently; smaller
+ * problems (typos in keys, invalid values) become per-agent `warnings`.
  */
 
+import { execFileSync } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import { parseFrontmatter } from "@mariozechner/pi-coding-agent";
+import { type ToolPolicy, validatePolicy } from "./policy.js";
+import type { JsonSchema } from "./schema.js";
+import type { Isolation } from "./worktree.js";
 
 export type AgentScope = "user" | "project" | "both";
 
 const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high", "xhigh"] as const;
 export type ThinkingLevel = (typeof THINKING_LEVELS)[number];
 const VALID_THINKING_LEVELS = new Set<string>(THINKING_LEVELS);
+/** Model ids may carry a thinking level, e.g. "claude-sonnet-4-5:high" */
+export const THINKING_SUFFIX_PATTERN = new RegExp(`:(${THINKING_LEVELS.join("|")})$`);
+
+export const PARTIALS_DIR = "partials";
+const INHERIT_PROMPT_MODES = ["prepend", "append", "none"] as const;
+type InheritPromptMode = (typeof INHERIT_PROMPT_MODES)[number];
+
+const KNOWN_KEYS = new Set([
+	"name", "description", "tools", "model", "thinkingLevel",
+	"maxCost", "maxTurns", "maxTokens", "timeoutMs",
+	"retries", "retryDelayMs", "fallbackModels",
+	"outputSchema", "isolation", "extends", "inheritPrompt", "include",
+	"cwd", "env", "skills", "extensions", "noExtensions", "noSkills", "noContextFiles", "args", "readOnly", "runner", "policy",
+]);
+const ENV_KEYS = new Set(["allow", "deny", "set"]);
+/** Always passed through an `env.allow` list so the child can start and find its config */
+const ESSENTIAL_ENV = ["PATH", "HOME", "USERPROFILE", "SYSTEMROOT", "TMPDIR", "TEMP", "TMP"];
+/** Limits: 0 would stop every run, so only positive values count */
+const LIMIT_KEYS = ["maxCost", "maxTurns", "maxTokens", "timeoutMs"];
+/** 0 is meaningful (no retries, no delay) and overrides an extended agent's value */
+const RETRY_KEYS = ["retries", "retryDelayMs"];
+
+/** Environment of the child process; names may use `*` wildcards */
+export interface AgentEnv {
+	/** Only these variables are passed (plus ESSENTIAL_ENV) */
+	allow?: string[];
+	/** These variables are removed */
+	deny?: string[];
+	/** Fixed values, applied last */
+	set?: Record<string, string>;
+}
 
 export interface AgentConfig {
 	name: string;
@@ -19,28 +63,142 @@ export interface AgentConfig {
 	tools?: string[];
 	model?: string;
 	thinkingLevel?: ThinkingLevel;
+	/** Default per-run limits (see budget.ts) */
+	maxCost?: number;
+	maxTurns?: number;
+	maxTokens?: number;
+	timeoutMs?: number;
+	/** JSON Schema the final answer must satisfy (see schema.ts) */
+	outputSchema?: JsonSchema;
+	/** Default retry policy (see retry.ts) */
+	retries?: number;
+	retryDelayMs?: number;
+	fallbackModels?: string[];
+	/** "worktree" runs the agent in its own git worktree (see worktree.ts) */
+	isolation?: Isolation;
+	/** Default working directory, relative to the repository root (see resolveAgentCwd) */
+	cwd?: string;
+	env?: AgentEnv;
+	/** Extra skills and extensions loaded in the child (relative paths resolved against the agent file) */
+	skills?: string[];
+	extensions?: string[];
+	/** Skip discovery of extensions, skills or context files (AGENTS.md) in the child */
+	noExtensions?: boolean;
+	noSkills?: boolean;
+	noContextFiles?: boolean;
+	/** Extra pi CLI arguments */
+	args?: string[];
+	/** Enforce read-only behaviour in the child and verify the working tree afterwards (see readonly.ts) */
+	readOnly?: boolean;
+	/** Runner that executes the agent, "process" when unset (see runners.ts) */
+	runner?: string;
+	/** Allowed and denied commands and paths, checked against every tool call (see policy.ts) */
+	policy?: ToolPolicy;
+	/** Parent agent this one extends */
+	extends?: string;
+	/** Partials included in the system prompt */
+	includes?: string[];
 	systemPrompt: string;
 	source: "user" | "project";
 	filePath: string;
+	/** Problems that did not prevent loading (shown by /agents) */
+	warnings?: string[];
+}
+
+export interface AgentLoadError {
+	filePath: string;
+	/** Agent name from the frontmatter */
+	agent: string;
+	message: string;
 }
 
 export interface AgentDiscoveryResult {
 	agents: AgentConfig[];
 	projectAgentsDir: string | null;
+	/** Agents that could not be loaded */
+	errors: AgentLoadError[];
+	/** Agents hidden by a later one with the same name (a project agent overriding a user agent) */
+	shadowed: AgentConfig[];
 }
 
-function loadAgentsFromDir(dir: string, source: "user" | "project"): AgentConfig[] {
-	const agents: AgentConfig[] = [];
+function parsePositiveNumber(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") return undefined;
+	const n = typeof value === "number" ? value : Number(String(value).trim());
+	return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function parseNonNegativeNumber(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") return undefined;
+	const n = typeof value === "number" ? value : Number(String(value).trim());
+	return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/** Comma-separated string or YAML list */
+function parseList(value: unknown): string[] | undefined {
+	const items = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(",") : [];
+	const list = items.map((item) => item.trim()).filter(Boolean);
+	return list.length > 0 ? list : undefined;
+}
+
+/** An object given inline, as a JSON string, or as a path to a .json file next to the agent */
+function parseJsonObject(value: unknown, agentFilePath: string): Record<string, unknown> | undefined {
+	if (!value) return undefined;
+	if (typeof value === "object" && !Array.isArray(value)) return value as Record<string, unknown>;
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	try {
+		const parsed = trimmed.startsWith("{")
+			? JSON.parse(trimmed)
+			: JSON.parse(fs.readFileSync(path.resolve(path.dirname(agentFilePath), trimmed), "utf-8"));
+		return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+	if (value === true || value === "true") return true;
+	if (value === false || value === "false") return false;
+	return undefined;
+}
+
+function parseEnv(value: unknown): AgentEnv | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const raw = value as Record<string, unknown>;
+	const set = raw.set && typeof raw.set === "object" && !Array.isArray(raw.set)
+		? Object.fromEntries(Object.entries(raw.set as Record<string, unknown>).map(([k, v]) => [k, String(v)]))
+		: undefined;
+	const env: AgentEnv = { allow: parseList(raw.allow), deny: parseList(raw.deny), set };
+	return env.allow || env.deny || env.set ? env : undefined;
+}
+
+/** `./x`, `../x` and `~/x` are resolved against the agent file; other values (absolute paths, package names) are kept */
+function resolveAgentPaths(values: string[] | undefined, agentFilePath: string): string[] | undefined {
+	return values?.map((value) => {
+		if (value === "~" || value.startsWith("~/")) return path.join(os.homedir(), value.slice(1));
+		if (value.startsWith("./") || value.startsWith("../")) return path.resolve(path.dirname(agentFilePath), value);
+		return value;
+	});
+}
+
+interface AgentDefinition {
+	frontmatter: Record<string, any>;
+	body: string;
+	filePath: string;
+}
+
+function readAgentDefinitions(dir: string, errors: AgentLoadError[]): AgentDefinition[] {
+	const definitions: AgentDefinition[] = [];
 
 	if (!fs.existsSync(dir)) {
-		return agents;
+		return definitions;
 	}
 
 	let entries: fs.Dirent[];
 	try {
 		entries = fs.readdirSync(dir, { withFileTypes: true });
 	} catch {
-		return agents;
+		return definitions;
 	}
 
 	for (const entry of entries) {
@@ -48,40 +206,269 @@ function loadAgentsFromDir(dir: string, source: "user" | "project"): AgentConfig
 		if (!entry.isFile() && !entry.isSymbolicLink()) continue;
 
 		const filePath = path.join(dir, entry.name);
-		let content: string;
+		const fileAgent = entry.name.slice(0, -".md".length);
+		let frontmatter: Record<string, any>;
+		let body: string;
 		try {
-			content = fs.readFileSync(filePath, "utf-8");
-		} catch {
+			({ frontmatter, body } = parseFrontmatter<Record<string, any>>(fs.readFileSync(filePath, "utf-8")));
+		} catch (err: any) {
+			errors.push({ filePath, agent: fileAgent, message: `unreadable: ${err?.message ?? err}` });
 			continue;
 		}
 
-		const { frontmatter, body } = parseFrontmatter<Record<string, string>>(content);
-
-		if (!frontmatter.name || !frontmatter.description) {
+		const missing = ["name", "description"].filter((key) => !frontmatter[key]);
+		if (missing.length > 0) {
+			errors.push({ filePath, agent: frontmatter.name ? String(frontmatter.name) : fileAgent, message: `missing ${missing.join(" and ")} in frontmatter` });
 			continue;
 		}
 
-		const tools = frontmatter.tools
-			?.split(",")
-			.map((t: string) => t.trim())
-			.filter(Boolean);
+		definitions.push({ frontmatter, body, filePath });
+	}
+
+	return definitions;
+}
+
+/** Read a partial (frontmatter stripped) from the first directory that has it */
+function readPartial(name: string, partialDirs: string[]): string | null {
+	const fileName = name.endsWith(".md") ? name : `${name}.md`;
+	for (const dir of partialDirs) {
+		try {
+			return parseFrontmatter<Record<string, any>>(fs.readFileSync(path.join(dir, fileName), "utf-8")).body.trim();
+		} catch {
+			/* try next directory */
+		}
+	}
+	return null;
+}
+
+function buildAgentConfig(
+	definition: AgentDefinition,
+	source: "user" | "project",
+	parent: AgentConfig | undefined,
+	partialDirs: string[],
+): AgentConfig | string {
+	const { frontmatter, body, filePath } = definition;
+
+	const inheritPrompt = (frontmatter.inheritPrompt ?? "prepend") as InheritPromptMode;
+	if (!INHERIT_PROMPT_MODES.includes(inheritPrompt)) {
+		return `invalid inheritPrompt "${frontmatter.inheritPrompt}" (expected ${INHERIT_PROMPT_MODES.join(", ")})`;
+	}
+
+	const includes = parseList(frontmatter.include);
+	let ownPrompt = body.trim();
+	const appended: string[] = [];
+	for (const name of includes ?? []) {
+		const fragment = readPartial(name, partialDirs);
+		if (fragment === null) return `include "${name}": partial not found in ${partialDirs.join(" or ")}`;
+		const marker = `{{include ${name}}}`;
+		if (ownPrompt.includes(marker)) ownPrompt = ownPrompt.split(marker).join(fragment);
+		else appended.push(fragment);
+	}
+
+	const parentPrompt = parent && inheritPrompt !== "none" ? parent.systemPrompt.trim() : "";
+	const systemPrompt = [
+		inheritPrompt === "prepend" ? parentPrompt : "",
+		ownPrompt,
+		...appended,
+		inheritPrompt === "append" ? parentPrompt : "",
+	]
+		.filter(Boolean)
+		.join("\n\n");
+
+	const thinkingLevel = frontmatter.thinkingLevel && VALID_THINKING_LEVELS.has(frontmatter.thinkingLevel)
+		? frontmatter.thinkingLevel as ThinkingLevel
+		: undefined;
+	const outputSchema = parseJsonObject(frontmatter.outputSchema, filePath) as JsonSchema | undefined;
+	const policy = parseJsonObject(frontmatter.policy, filePath);
+
+	const warnings: string[] = [];
+	for (const key of Object.keys(frontmatter)) {
+		if (!KNOWN_KEYS.has(key)) warnings.push(`unknown frontmatter key "${key}"`);
+	}
+	if (frontmatter.thinkingLevel && !thinkingLevel) {
+		warnings.push(`invalid thinkingLevel "${frontmatter.thinkingLevel}" (expected ${THINKING_LEVELS.join(", ")})`);
+	}
+	for (const key of LIMIT_KEYS) {
+		const value = frontmatter[key];
+		if (value !== undefined && value !== null && value !== "" && parsePositiveNumber(value) === undefined) {
+			warnings.push(`invalid ${key} "${value}" (expected a positive number)`);
+		}
+	}
+	for (const key of RETRY_KEYS) {
+		const value = frontmatter[key];
+		if (value !== undefined && value !== null && value !== "" && parseNonNegativeNumber(value) === undefined) {
+			warnings.push(`invalid ${key} "${value}" (expected a non-negative number)`);
+		}
+	}
+	if (frontmatter.isolation && frontmatter.isolation !== "worktree" && frontmatter.isolation !== "none") {
+		warnings.push(`invalid isolation "${frontmatter.isolation}" (expected worktree or none)`);
+	}
+	if (frontmatter.outputSchema && !outputSchema) {
+		warnings.push("outputSchema could not be read (expected an object, a JSON string or a .json file path)");
+	}
+	if (frontmatter.policy && !policy) {
+		warnings.push("policy could not be read (expected an object, a JSON string or a .json file path)");
+	}
+	const policyError = policy ? validatePolicy(policy) : null;
+	if (policyError) warnings.push(`invalid policy: ${policyError}`);
+	const env = parseEnv(frontmatter.env);
+	if (frontmatter.env !== undefined) {
+		const unknownEnvKeys = env ? Object.keys(frontmatter.env).filter((key) => !ENV_KEYS.has(key)) : [];
+		if (!env || unknownEnvKeys.length > 0) {
+			warnings.push(`invalid env${unknownEnvKeys.length > 0 ? ` key "${unknownEnvKeys[0]}"` : ""} (expected allow, deny and/or set)`);
+		}
+	}
+	for (const key of ["noExtensions", "noSkills", "noContextFiles", "readOnly"]) {
+		if (frontmatter[key] !== undefined && parseBoolean(frontmatter[key]) === undefined) {
+			warnings.push(`invalid ${key} "${frontmatter[key]}" (expected true or false)`);
+		}
+	}
+
+	return {
+		name: frontmatter.name,
+		description: frontmatter.description,
+		tools: parseList(frontmatter.tools) ?? parent?.tools,
+		model: frontmatter.model ?? parent?.model,
+		thinkingLevel: thinkingLevel ?? parent?.thinkingLevel,
+		maxCost: parsePositiveNumber(frontmatter.maxCost) ?? parent?.maxCost,
+		maxTurns: parsePositiveNumber(frontmatter.maxTurns) ?? parent?.maxTurns,
+		maxTokens: parsePositiveNumber(frontmatter.maxTokens) ?? parent?.maxTokens,
+		timeoutMs: parsePositiveNumber(frontmatter.timeoutMs) ?? parent?.timeoutMs,
+		retries: parseNonNegativeNumber(frontmatter.retries) ?? parent?.retries,
+		retryDelayMs: parseNonNegativeNumber(frontmatter.retryDelayMs) ?? parent?.retryDelayMs,
+		fallbackModels: parseList(frontmatter.fallbackModels) ?? parent?.fallbackModels,
+		outputSchema: outputSchema ?? parent?.outputSchema,
+		isolation: frontmatter.isolation === "worktree" || frontmatter.isolation === "none" ? frontmatter.isolation : parent?.isolation,
+		cwd: frontmatter.cwd ? String(frontmatter.cwd) : parent?.cwd,
+		env: env ?? parent?.env,
+		skills: resolveAgentPaths(parseList(frontmatter.skills), filePath) ?? parent?.skills,
+		extensions: resolveAgentPaths(parseList(frontmatter.extensions), filePath) ?? parent?.extensions,
+		noExtensions: parseBoolean(frontmatter.noExtensions) ?? parent?.noExtensions,
+		noSkills: parseBoolean(frontmatter.noSkills) ?? parent?.noSkills,
+		noContextFiles: parseBoolean(frontmatter.noContextFiles) ?? parent?.noContextFiles,
+		args: parseList(typeof frontmatter.args === "string" ? frontmatter.args.split(/\s+/) : frontmatter.args) ?? parent?.args,
+		readOnly: parseBoolean(frontmatter.readOnly) ?? parent?.readOnly,
+		runner: frontmatter.runner ? String(frontmatter.runner) : parent?.runner,
+		policy: (policy as ToolPolicy | undefined) ?? parent?.policy,
+		extends: parent?.name,
+		includes,
+		systemPrompt,
+		source,
+		filePath,
+		warnings: warnings.length > 0 ? warnings : undefined,
+	};
+}
 
-		const thinkingLevel = frontmatter.thinkingLevel && VALID_THINKING_LEVELS.has(frontmatter.thinkingLevel)
-			? frontmatter.thinkingLevel as ThinkingLevel
-			: undefined;
+function matchesEnvName(name: string, patterns: string[]): boolean {
+	const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	return patterns.some((pattern) =>
+		pattern.includes("*") ? new RegExp(`^${pattern.split("*").map(escape).join(".*")}$`).test(name) : pattern === name,
+	);
+}
 
-		agents.push({
-			name: frontmatter.name,
-			description: frontmatter.description,
-			tools: tools && tools.length > 0 ? tools : undefined,
-			model: frontmatter.model,
-			thinkingLevel,
-			systemPrompt: body,
-			source,
-			filePath,
-		});
+/** Child environment: allow list (plus ESSENTIAL_ENV), then deny list, then fixed values */
+export function buildAgentEnv(agent: AgentConfig, base: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+	if (!agent.env) return base;
+	const { allow, deny, set } = agent.env;
+	const env: NodeJS.ProcessEnv = {};
+	for (const [name, value] of Object.entries(base)) {
+		if (allow && !ESSENTIAL_ENV.includes(name) && !matchesEnvName(name, allow)) continue;
+		if (deny && matchesEnvName(name, deny)) continue;
+		env[name] = value;
 	}
+	return { ...env, ...set };
+}
 
+/** The agent's `cwd`, resolved against the root of the repository containing `defaultCwd` (or `defaultCwd` itself) */
+export function resolveAgentCwd(agent: AgentConfig, defaultCwd: string): string {
+	if (!agent.cwd) return defaultCwd;
+	if (path.isAbsolute(agent.cwd)) return agent.cwd;
+	let root = defaultCwd;
+	try {
+		root = execFileSync("git", ["rev-parse", "--show-toplevel"], { cwd: defaultCwd, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+	} catch {
+		/* not a git repository */
+	}
+	return path.resolve(root, agent.cwd);
+}
+
+export interface AgentReferenceLookups {
+	/** Names of the tools pi knows about */
+	toolNames: Set<string>;
+	modelExists: (model: string) => boolean;
+	/** Names of the registered runners */
+	runnerNames: Set<string>;
+}
+
+/** Check tool names and model ids against the running pi (needs runtime lookups, so not part of loading) */
+export function checkAgentReferences(agent: AgentConfig, lookups: AgentReferenceLookups): string[] {
+	const warnings: string[] = [];
+	const unknownTools = (agent.tools ?? []).filter((tool) => !lookups.toolNames.has(tool));
+	if (unknownTools.length > 0) warnings.push(`unknown tool${unknownTools.length > 1 ? "s" : ""}: ${unknownTools.join(", ")}`);
+	for (const model of [agent.model, ...(agent.fallbackModels ?? [])]) {
+		if (model && !lookups.modelExists(model)) warnings.push(`model "${model}" not found in the model registry`);
+	}
+	const writeTools = (agent.tools ?? []).filter((tool) => tool === "write" || tool === "edit");
+	if (agent.readOnly && writeTools.length > 0) warnings.push(`readOnly agent lists ${writeTools.join(", ")}, which will be blocked`);
+	if (agent.runner && !lookups.runnerNames.has(agent.runner)) {
+		warnings.push(`unknown runner "${agent.runner}" (expected ${Array.from(lookups.runnerNames).join(", ")})`);
+	}
+	if (agent.runner === "sdk" && (agent.env || agent.args)) warnings.push("env and args are ignored by the sdk runner");
+	return warnings;
+}
+
+/**
+ * Load and resolve the agents in `dir`. Parents are looked up in the same
+ * directory first, then in `externalParents` (user agents, for project agents —
+ * which also lets a project agent extend the user agent of the same name).
+ */
+function loadAgentsFromDir(
+	dir: string,
+	source: "user" | "project",
+	errors: AgentLoadError[],
+	externalParents: AgentConfig[] = [],
+	extraPartialDirs: string[] = [],
+): AgentConfig[] {
+	const definitions = readAgentDefinitions(dir, errors);
+	const byName = new Map(definitions.map((d) => [String(d.frontmatter.name), d]));
+	const partialDirs = [path.join(dir, PARTIALS_DIR), ...extraPartialDirs];
+	const resolved = new Map<AgentDefinition, AgentConfig | string>();
+
+	const resolve = (definition: AgentDefinition, chain: string[]): AgentConfig | string => {
+		const cached = resolved.get(definition);
+		if (cached !== undefined) return cached;
+
+		const name = String(definition.frontmatter.name);
+		const parentName = definition.frontmatter.extends ? String(definition.frontmatter.extends).trim() : undefined;
+		let parent: AgentConfig | undefined;
+		let result: AgentConfig | string | undefined;
+		if (parentName) {
+			const parentDefinition = parentName === name ? undefined : byName.get(parentName);
+			if (parentDefinition && chain.includes(parentName)) {
+				result = `inheritance cycle: ${[...chain, name, parentName].join(" → ")}`;
+			} else if (parentDefinition) {
+				const parentResult = resolve(parentDefinition, [...chain, name]);
+				if (typeof parentResult === "string") result = `cannot extend "${parentName}": it failed to load (${parentResult})`;
+				else parent = parentResult;
+			} else {
+				parent = externalParents.find((a) => a.name === parentName);
+				if (!parent) result = parentName === name ? "agent extends itself" : `extends unknown agent "${parentName}"`;
+			}
+		}
+		result ??= buildAgentConfig(definition, source, parent, partialDirs);
+		resolved.set(definition, result);
+		return result;
+	};
+
+	const agents: AgentConfig[] = [];
+	for (const definition of definitions) {
+		const result = resolve(definition, []);
+		if (typeof result === "string") {
+			errors.push({ filePath: definition.filePath, agent: String(definition.frontmatter.name), message: result });
+		} else {
+			agents.push(result);
+		}
+	}
 	return agents;
 }
 
@@ -93,7 +480,11 @@ function isDirectory(p: string): boolean {
 	}
 }
 
-function findNearestProjectAgentsDir(cwd: string): string | null {
+export function getUserAgentsDir(): string {
+	return path.join(os.homedir(), ".pi", "agent", "agents");
+}
+
+export function findNearestProjectAgentsDir(cwd: string): string | null {
 	let currentDir = cwd;
 	while (true) {
 		const candidate = path.join(currentDir, ".pi", "agents");
@@ -106,24 +497,29 @@ function findNearestProjectAgentsDir(cwd: string): string | null {
 }
 
 export function discoverAgents(cwd: string, scope: AgentScope): AgentDiscoveryResult {
-	const userDir = path.join(os.homedir(), ".pi", "agent", "agents");
+	const userDir = getUserAgentsDir();
 	const projectAgentsDir = findNearestProjectAgentsDir(cwd);
 
-	const userAgents = scope === "project" ? [] : loadAgentsFromDir(userDir, "user");
-	const projectAgents = scope === "user" || !projectAgentsDir ? [] : loadAgentsFromDir(projectAgentsDir, "project");
+	// User agents are always loaded: project agents may extend them
+	const userErrors: AgentLoadError[] = [];
+	const projectErrors: AgentLoadError[] = [];
+	const loadedUserAgents = loadAgentsFromDir(userDir, "user", userErrors);
+	const userAgents = scope === "project" ? [] : loadedUserAgents;
+	const projectAgents = scope === "user" || !projectAgentsDir
+		? []
+		: loadAgentsFromDir(projectAgentsDir, "project", projectErrors, loadedUserAgents, [path.join(userDir, PARTIALS_DIR)]);
 
+	// Later wins: project agents override user agents with the same name
 	const agentMap = new Map<string, AgentConfig>();
-
-	if (scope === "both") {
-		for (const agent of userAgents) agentMap.set(agent.name, agent);
-		for (const agent of projectAgents) agentMap.set(agent.name, agent);
-	} else if (scope === "user") {
-		for (const agent of userAgents) agentMap.set(agent.name, agent);
-	} else {
-		for (const agent of projectAgents) agentMap.set(agent.name, agent);
+	const shadowed: AgentConfig[] = [];
+	for (const agent of [...userAgents, ...projectAgents]) {
+		const existing = agentMap.get(agent.name);
+		if (existing) shadowed.push(existing);
+		agentMap.set(agent.name, agent);
 	}
 
-	return { agents: Array.from(agentMap.values()), projectAgentsDir };
+	const errors = [...(scope === "project" ? [] : userErrors), ...projectErrors];
+	return { agents: Array.from(agentMap.values()), projectAgentsDir, errors, shadowed };
 }
 
 export function formatAgentList(agents: AgentConfig[], maxItems: number): { text: string; remaining: number } {
@@ -0,0 +1,84 @@
+/**
+ * Budget and cost limits for subagent runs
+ *
+ * A budget tracks cost, turns, tokens and wall-clock time against optional limits.
+ * The same budget object can be shared by every step of a chain/parallel/graph run.
+ */
+
+export interface BudgetLimits {
+	maxCost?: number;
+	maxTurns?: number;
+	maxTokens?: number;
+	timeoutMs?: number;
+}
+
+export interface BudgetUsage {
+	cost: number;
+	turns: number;
+	tokens: number;
+}
+
+export interface Budget {
+	label: string;
+	limits: BudgetLimits;
+	startedAt: number;
+	spent: BudgetUsage;
+}
+
+export function hasLimits(limits: BudgetLimits): boolean {
+	return (
+		limits.maxCost !== undefined ||
+		limits.maxTurns !== undefined ||
+		limits.maxTokens !== undefined ||
+		limits.timeoutMs !== undefined
+	);
+}
+
+/** Why the limits cannot be met by any run (zero, negative, fractional counts), or null */
+export function validateLimits(limits: BudgetLimits): string | null {
+	if (limits.maxCost !== undefined && !(limits.maxCost > 0)) return `maxCost must be greater than 0 (got ${limits.maxCost})`;
+	for (const key of ["maxTurns", "maxTokens", "timeoutMs"] as const) {
+		const value = limits[key];
+		if (value !== undefined && !(Number.isInteger(value) && value >= 1)) return `${key} must be a whole number of at least 1 (got ${value})`;
+	}
+	return null;
+}
+
+export function createBudget(label: string, limits: BudgetLimits): Budget {
+	return { label, limits, startedAt: Date.now(), spent: { cost: 0, turns: 0, tokens: 0 } };
+}
+
+export function recordUsage(budget: Budget, usage: BudgetUsage): void {
+	budget.spent.cost += usage.cost;
+	budget.spent.turns += usage.turns;
+	budget.spent.tokens += usage.tokens;
+}
+
+/** Absolute deadline (epoch ms) derived from timeoutMs, if any */
+export function getDeadline(budget: Budget): number | undefined {
+	return budget.limits.timeoutMs !== undefined ? budget.startedAt + budget.limits.timeoutMs : undefined;
+}
+
+export function formatTimeoutReason(budget: Budget): string {
+	return `Budget exceeded (${budget.label}): timeout after ${((budget.limits.timeoutMs ?? 0) / 1000).toFixed(0)}s`;
+}
+
+/**
+ * Reason the budget is exhausted, or null.
+ * Turns are exhausted once the limit is reached; cost and tokens once it is passed.
+ */
+export function getExceededReason(budget: Budget): string | null {
+	const { limits, spent, label } = budget;
+	if (limits.maxCost !== undefined && spent.cost > limits.maxCost) {
+		return `Budget exceeded (${label}): cost $${spent.cost.toFixed(4)} > $${limits.maxCost}`;
+	}
+	if (limits.maxTokens !== undefined && spent.tokens > limits.maxTokens) {
+		return `Budget exceeded (${label}): ${spent.tokens} tokens > ${limits.maxTokens}`;
+	}
+	if (limits.maxTurns !== undefined && spent.turns >= limits.maxTurns) {
+		return `Budget exceeded (${label}): ${spent.turns} turns (limit ${limits.maxTurns})`;
+	}
+	const deadline = getDeadline(budget);
+	if (deadline !== undefined && Date.now() >= deadline) return formatTimeoutReason(budget);
+	return null;
+}
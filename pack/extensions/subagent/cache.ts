@@ -0,0 +1,108 @@
+/**
+ * Result cache for read-only agents
+ *
+ * Opt-in per call (`cache: "read" | "readwrite"`). Results are stored in
+ * .pi/subagent-cache/<key>.json in the project, keyed on:
+ *   - the resolved agent definition (prompt, tools, model, launch settings, ...)
+ *   - the model override, the task text and the working directory
+ *   - the git tree state: HEAD plus a tree hash of the working tree (dirty and
+ *     untracked files included), so any edit invalidates the entry. The
+ *     snapshot leaves out .pi/subagent-*, so writing an entry does not
+ *     change the key of the next call
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AgentConfig } from "./agents.js";
+import type { TreeSnapshot } from "./readonly.js";
+
+export type CacheMode = "off" | "read" | "readwrite";
+
+/** Entries older than this are ignored (and removed when read) */
+export const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+export interface CacheKeyInput {
+	agent: AgentConfig;
+	model?: string;
+	task: string;
+	cwd: string;
+	tree: TreeSnapshot;
+}
+
+export interface CachedResult<T> {
+	createdAt: number;
+	result: T;
+}
+
+export function getCacheDir(projectCwd: string): string {
+	return path.join(projectCwd, ".pi", "subagent-cache");
+}
+
+/** Hash of everything that shapes an agent's behavior (not where it was loaded from) */
+export function hashAgentDefinition(agent: AgentConfig): string {
+	const { filePath: _filePath, source: _source, warnings: _warnings, ...definition } = agent;
+	return createHash("sha256").update(JSON.stringify(definition)).digest("hex");
+}
+
+export function computeCacheKey(input: CacheKeyInput): string {
+	const material = {
+		agent: hashAgentDefinition(input.agent),
+		model: input.model ?? null,
+		task: input.task,
+		cwd: input.cwd,
+		head: input.tree.head,
+		tree: input.tree.tree,
+	};
+	return createHash("sha256").update(JSON.stringify(material)).digest("hex").slice(0, 32);
+}
+
+export function readCachedResult<T>(projectCwd: string, key: string): CachedResult<T> | null {
+	const filePath = path.join(getCacheDir(projectCwd), `${key}.json`);
+	try {
+		const entry = JSON.parse(fs.readFileSync(filePath, "utf-8")) as CachedResult<T>;
+		if (typeof entry?.createdAt !== "number" || !entry.result) return null;
+		if (Date.now() - entry.createdAt > CACHE_MAX_AGE_MS) {
+			fs.rmSync(filePath, { force: true });
+			return null;
+		}
+		return entry;
+	} catch {
+		return null;
+	}
+}
+
+/** Store a result. Non-fatal: failures are logged. */
+export function writeCachedResult<T>(projectCwd: string, key: string, result: T): void {
+	try {
+		const dir = getCacheDir(projectCwd);
+		fs.mkdirSync(dir, { recursive: true });
+		const entry: CachedResult<T> = { createdAt: Date.now(), result };
+		fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(entry));
+	} catch (err) {
+		console.error(`[subagent] Failed to write result cache: ${err}`);
+	}
+}
+
+export function getCacheStats(projectCwd: string): { entries: number; bytes: number } {
+	const dir = getCacheDir(projectCwd);
+	let entries = 0;
+	let bytes = 0;
+	try {
+		for (const file of fs.readdirSync(dir)) {
+			if (!file.endsWith(".json")) continue;
+			entries++;
+			bytes += fs.statSync(path.join(dir, file)).size;
+		}
+	} catch {
+		/* no cache yet */
+	}
+	return { entries, bytes };
+}
+
+/** Delete all cached results. Returns the number of entries removed. */
+export function clearCache(projectCwd: string): number {
+	const { entries } = getCacheStats(projectCwd);
+	fs.rmSync(getCacheDir(projectCwd), { recursive: true, force: true });
+	return entries;
+}
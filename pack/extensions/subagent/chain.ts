@@ -0,0 +1,142 @@
+/**
+ * Chain control flow: step conditions and loops
+ *
+ * Pure functions: condition evaluation, step references and validation.
+ *   - `when`: run a step only if the condition holds, otherwise skip it
+ *   - `repeatUntil` / `loopTo`: after a step runs, jump back (to `loopTo`, or the
+ *     step itself) until `repeatUntil` holds, at most `maxIterations` times
+ */
+
+import { extractJson } from "./schema.js";
+
+export const DEFAULT_MAX_ITERATIONS = 3;
+export const MAX_ITERATIONS_LIMIT = 20;
+
+const STEP_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * All given checks must hold. Without `step` the condition looks at the most
+ * recently executed step (for `repeatUntil`: the step itself).
+ */
+export interface StepCondition {
+	/** Step name or 1-based index whose latest result is checked */
+	step?: string | number;
+	/** Output contains this text (case-sensitive) */
+	contains?: string;
+	notContains?: string;
+	/** Output matches this regular expression (multiline) */
+	matches?: string;
+	/** Dot path into the structured result, e.g. "findings" or "summary.critical" */
+	path?: string;
+	/** Value at `path` (or the whole structured result) deep-equals this */
+	equals?: unknown;
+	/** Value at `path` (or the output text) is non-empty (false: is empty) */
+	nonEmpty?: boolean;
+}
+
+export interface ChainStepSpec {
+	name?: string;
+	agent: string;
+	when?: StepCondition;
+	repeatUntil?: StepCondition;
+	loopTo?: string | number;
+	maxIterations?: number;
+}
+
+export interface ConditionSubject {
+	output: string;
+	structured?: unknown;
+}
+
+/** Resolve a step name or 1-based index to a 0-based index, or -1 */
+export function resolveStepIndex(steps: ChainStepSpec[], ref: string | number): number {
+	if (typeof ref === "number") return Number.isInteger(ref) && ref >= 1 && ref <= steps.length ? ref - 1 : -1;
+	if (/^\d+$/.test(ref)) return resolveStepIndex(steps, Number(ref));
+	return steps.findIndex((s) => s.name === ref);
+}
+
+export function getPath(value: unknown, dotPath: string): unknown {
+	let current: any = value;
+	for (const key of dotPath.split(".").filter(Boolean)) {
+		if (current === null || current === undefined) return undefined;
+		current = key === "length" && (Array.isArray(current) || typeof current === "string") ? current.length : current[key];
+	}
+	return current;
+}
+
+function isNonEmpty(value: unknown): boolean {
+	if (value === null || value === undefined || value === false || value === 0) return false;
+	if (typeof value === "string") return value.trim().length > 0;
+	if (Array.isArray(value)) return value.length > 0;
+	if (typeof value === "object") return Object.keys(value).length > 0;
+	return true;
+}
+
+export function evaluateCondition(condition: StepCondition, subject: ConditionSubject): boolean {
+	const { output } = subject;
+	if (condition.contains !== undefined && !output.includes(condition.contains)) return false;
+	if (condition.notContains !== undefined && output.includes(condition.notContains)) return false;
+	if (condition.matches !== undefined) {
+		let regex: RegExp;
+		try {
+			regex = new RegExp(condition.matches, "m");
+		} catch {
+			return false;
+		}
+		if (!regex.test(output)) return false;
+	}
+
+	const needsValue = condition.path !== undefined || condition.equals !== undefined;
+	if (needsValue || condition.nonEmpty !== undefined) {
+		// Agents without an outputSchema can still answer in JSON
+		const structured = subject.structured !== undefined ? subject.structured : needsValue ? extractJson(output).value : undefined;
+		const value = condition.path !== undefined ? getPath(structured, condition.path) : needsValue ? structured : output;
+		if (condition.equals !== undefined && JSON.stringify(value) !== JSON.stringify(condition.equals)) return false;
+		if (condition.nonEmpty !== undefined && isNonEmpty(value) !== condition.nonEmpty) return false;
+	}
+	return true;
+}
+
+export function describeCondition(condition: StepCondition): string {
+	const parts: string[] = [];
+	if (condition.step !== undefined) parts.push(`step ${condition.step}`);
+	if (condition.contains !== undefined) parts.push(`contains "${condition.contains}"`);
+	if (condition.notContains !== undefined) parts.push(`not contains "${condition.notContains}"`);
+	if (condition.matches !== undefined) parts.push(`matches /${condition.matches}/`);
+	if (condition.path !== undefined) parts.push(`path ${condition.path}`);
+	if (condition.equals !== undefined) parts.push(`equals ${JSON.stringify(condition.equals)}`);
+	if (condition.nonEmpty !== undefined) parts.push(condition.nonEmpty ? "non-empty" : "empty");
+	return parts.join(", ") || "(always)";
+}
+
+/** Validate names, step references and loop targets. Returns an error message or null. */
+export function validateChain(steps: ChainStepSpec[]): string | null {
+	const names = new Set<string>();
+	for (const step of steps) {
+		if (step.name === undefined) continue;
+		if (!STEP_NAME_PATTERN.test(step.name)) {
+			return `Invalid step name "${step.name}": use letters, digits, "_" or "-", starting with a letter or "_".`;
+		}
+		if (names.has(step.name)) return `Duplicate step name "${step.name}".`;
+		names.add(step.name);
+	}
+
+	for (let i = 0; i < steps.length; i++) {
+		const step = steps[i];
+		const label = step.name ? `"${step.name}"` : `${i + 1}`;
+		for (const [key, condition] of [["when", step.when], ["repeatUntil", step.repeatUntil]] as const) {
+			if (condition?.step !== undefined && resolveStepIndex(steps, condition.step) === -1) {
+				return `Step ${label} ${key} references unknown step "${condition.step}".`;
+			}
+		}
+		if (step.loopTo !== undefined) {
+			const target = resolveStepIndex(steps, step.loopTo);
+			if (target === -1) return `Step ${label} loopTo references unknown step "${step.loopTo}".`;
+			if (target > i) return `Step ${label} loopTo must point at itself or an earlier step.`;
+		}
+		if (step.maxIterations !== undefined && (step.maxIterations < 1 || step.maxIterations > MAX_ITERATIONS_LIMIT)) {
+			return `Step ${label} maxIterations must be between 1 and ${MAX_ITERATIONS_LIMIT}.`;
+		}
+	}
+	return null;
+}
@@ -0,0 +1,101 @@
+/**
+ * Graph (DAG) workflow helpers for the subagent tool.
+ * Pure functions: validation, scheduling order and output references.
+ */
+
+import { listTemplateVariables } from "./template.js";
+
+export interface GraphNodeSpec {
+	id: string;
+	agent: string;
+	task: string;
+	dependsOn?: string[];
+}
+
+const NODE_ID_PATTERN = /^[A-Za-z_][\w-]*$/;
+/** Node ids whose output a task uses: {{steps.<id>...}}, or the older {id.output} / {id.json} */
+export function getOutputReferences(task: string): string[] {
+	const refs = new Set<string>();
+	for (const variable of listTemplateVariables(task)) {
+		const [root, id] = variable.split(".");
+		if (root === "steps" && id) refs.add(id);
+	}
+	return Array.from(refs);
+}
+
+/** All transitive dependencies of a node */
+function getAncestors(id: string, nodes: Map<string, GraphNodeSpec>): Set<string> {
+	const ancestors = new Set<string>();
+	const stack = [...(nodes.get(id)?.dependsOn ?? [])];
+	while (stack.length > 0) {
+		const current = stack.pop()!;
+		if (ancestors.has(current)) continue;
+		ancestors.add(current);
+		stack.push(...(nodes.get(current)?.dependsOn ?? []));
+	}
+	return ancestors;
+}
+
+/**
+ * Validate a graph definition.
+ * Returns an error message, or null when the graph is a well-formed DAG
+ * whose {{steps.<id>}} references all point at upstream nodes.
+ */
+export function validateGraph(nodes: GraphNodeSpec[]): string | null {
+	if (nodes.length === 0) return "Graph has no nodes.";
+
+	const byId = new Map<string, GraphNodeSpec>();
+	for (const node of nodes) {
+		if (!NODE_ID_PATTERN.test(node.id)) {
+			return `Invalid node id "${node.id}". Use letters, digits, "_" or "-" (must not start with a digit).`;
+		}
+		if (byId.has(node.id)) return `Duplicate node id "${node.id}".`;
+		byId.set(node.id, node);
+	}
+
+	for (const node of nodes) {
+		for (const dep of node.dependsOn ?? []) {
+			if (dep === node.id) return `Node "${node.id}" depends on itself.`;
+			if (!byId.has(dep)) return `Node "${node.id}" depends on unknown node "${dep}".`;
+		}
+	}
+
+	// Kahn's algorithm: anything left unvisited is part of a cycle
+	const indegree = new Map<string, number>();
+	for (const node of nodes) indegree.set(node.id, new Set(node.dependsOn ?? []).size);
+	const queue = nodes.filter((n) => indegree.get(n.id) === 0).map((n) => n.id);
+	let visited = 0;
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		visited++;
+		for (const node of nodes) {
+			if (!new Set(node.dependsOn ?? []).has(id)) continue;
+			const remaining = indegree.get(node.id)! - 1;
+			indegree.set(node.id, remaining);
+			if (remaining === 0) queue.push(node.id);
+		}
+	}
+	if (visited < nodes.length) {
+		const cyclic = nodes.filter((n) => (indegree.get(n.id) ?? 0) > 0).map((n) => n.id);
+		return `Graph contains a dependency cycle involving: ${cyclic.join(", ")}.`;
+	}
+
+	for (const node of nodes) {
+		const ancestors = getAncestors(node.id, byId);
+		for (const ref of getOutputReferences(node.task)) {
+			if (!byId.has(ref)) return `Node "${node.id}" references unknown node "${ref}".`;
+			if (!ancestors.has(ref)) {
+				return `Node "${node.id}" references the output of "${ref}" but does not depend on "${ref}" (directly or transitively).`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/** Nodes that no other node depends on — their outputs form the graph result */
+export function getSinkNodes<T extends GraphNodeSpec>(nodes: T[]): T[] {
+	const dependedOn = new Set<string>();
+	for (const node of nodes) for (const dep of node.dependsOn ?? []) dependedOn.add(dep);
+	return nodes.filter((n) => !dependedOn.has(n.id));
+}
@@ -0,0 +1,240 @@
+/**
+ * Handoff trimming for chains
+ *
+ * A handoff is an earlier step's output substituted into a chain step's task
+ * ({{previous}}, {{steps.<name>}}). Before a step runs, its rendered task is
+ * measured against the step's `maxHandoffTokens`, or else half the context
+ * window of the model it will run on. When the task is over, each handoff it
+ * uses is cut down to an equal share of what the task's own text leaves of the
+ * limit:
+ *   - `handoffSections`: keep only these markdown sections
+ *   - then a summary written by a cheap model (`handoffModel`, or the first
+ *     candidate with credentials)
+ *   - then, whatever is still over, a plain cut
+ * Token counts are estimates (4 characters per token). Structured outputs
+ * ({{previous.json}}) are passed on as they are.
+ */
+
+import { type Api, complete, type Model, type UserMessage } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { THINKING_SUFFIX_PATTERN } from "./agents.js";
+import { extractSection, listTemplateVariables, type StepOutput, stepOutput, type TemplateResult } from "./template.js";
+
+type ModelRegistry = ExtensionContext["modelRegistry"];
+
+/** Share of the target model's context window a step's task may take */
+export const HANDOFF_CONTEXT_SHARE = 0.5;
+const CHARS_PER_TOKEN = 4;
+/** Upper bound on the output of one summary call */
+const MAX_SUMMARY_TOKENS = 8192;
+
+const SUMMARY_MODEL_CANDIDATES: Array<[string, string]> = [
+	["anthropic", "claude-haiku-4-5"],
+	["openai", "gpt-4o-mini"],
+	["github-copilot", "gpt-4o-mini"],
+	["google", "gemini-2.5-flash"],
+];
+
+const SUMMARY_SYSTEM_PROMPT = `You condense the output of one agent for the next agent in a workflow.
+
+Rules:
+- Keep concrete facts: file paths, line numbers, function names, commands, decisions, open questions
+- Keep the original markdown headings where they still apply
+- Drop repetition, narration and raw tool output that the facts above already cover
+- Do not add advice or commentary of your own
+
+Return only the condensed text.`;
+
+export type HandoffMethod = "sections" | "summary" | "cut";
+
+export interface HandoffTrim {
+	/** Template path of the trimmed output, e.g. "previous" or "steps.plan" */
+	source: string;
+	fromTokens: number;
+	toTokens: number;
+	/** What was applied, in order */
+	methods: HandoffMethod[];
+	/** Model that wrote the summary */
+	model?: string;
+}
+
+export interface HandoffSummary {
+	text: string;
+	/** "provider/id" */
+	model: string;
+	usage: { input: number; output: number; cacheRead: number; cacheWrite: number; cost: number; totalTokens: number };
+}
+
+export type HandoffSummarizer = (text: string, maxTokens: number, signal?: AbortSignal) => Promise<HandoffSummary>;
+
+export interface HandoffOptions {
+	limit: number;
+	sections?: string[];
+	summarize?: HandoffSummarizer;
+	signal?: AbortSignal;
+	/** Called with every summary made, e.g. to count its cost */
+	onSummary?: (summary: HandoffSummary) => void;
+}
+
+/** The step outputs a chain step's task can use */
+export interface ChainHandoffs {
+	previous: StepOutput;
+	steps: Record<string, StepOutput>;
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function cutToTokens(text: string, tokens: number): string {
+	const maxChars = tokens * CHARS_PER_TOKEN;
+	if (text.length <= maxChars) return text;
+	return `${text.slice(0, maxChars).trimEnd()}\n\n[… cut at ~${tokens} tokens]`;
+}
+
+/** The named sections of `text`, each under its own "## <title>"; empty when none is found */
+export function keepSections(text: string, titles: string[]): string {
+	return titles
+		.map((title) => [title, extractSection(text, title)])
+		.filter(([, body]) => body)
+		.map(([title, body]) => `## ${title.replace(/^#+\s*/, "")}\n\n${body}`)
+		.join("\n\n");
+}
+
+async function trimOutput(text: string, maxTokens: number, options: HandoffOptions): Promise<{ text: string; methods: HandoffMethod[]; model?: string }> {
+	let current = text;
+	const methods: HandoffMethod[] = [];
+	let model: string | undefined;
+	if (options.sections && options.sections.length > 0) {
+		const kept = keepSections(current, options.sections);
+		if (kept) {
+			current = kept;
+			methods.push("sections");
+		}
+	}
+	if (estimateTokens(current) > maxTokens && options.summarize) {
+		try {
+			const summary = await options.summarize(current, maxTokens, options.signal);
+			options.onSummary?.(summary);
+			if (summary.text.trim()) {
+				current = summary.text.trim();
+				methods.push("summary");
+				model = summary.model;
+			}
+		} catch (err: any) {
+			if (options.signal?.aborted) throw err;
+			console.error(`[subagent] Handoff summary failed: ${err?.message ?? err}`);
+		}
+	}
+	if (estimateTokens(current) > maxTokens) {
+		current = cutToTokens(current, maxTokens);
+		methods.push("cut");
+	}
+	return { text: current, methods, model };
+}
+
+/** "previous" or "steps.<name>" for each step output the task uses, in order */
+function referencedHandoffs(task: string): string[] {
+	const sources = new Set<string>();
+	for (const variable of listTemplateVariables(task)) {
+		const [root, key] = variable.split(".");
+		if (root === "previous") sources.add("previous");
+		else if (root === "steps" && key) sources.add(`steps.${key}`);
+	}
+	return Array.from(sources);
+}
+
+/**
+ * Render a chain step's task, trimming the handoffs it uses when the result is
+ * over the limit. The same output under several names is trimmed once.
+ */
+export async function fitHandoffs(
+	task: string,
+	handoffs: ChainHandoffs,
+	render: (handoffs: ChainHandoffs) => TemplateResult,
+	options: HandoffOptions,
+): Promise<{ rendered: TemplateResult; trims: HandoffTrim[] }> {
+	const rendered = render(handoffs);
+	if (!rendered.ok || estimateTokens(rendered.text) <= options.limit) return { rendered, trims: [] };
+	const sources = referencedHandoffs(task);
+	if (sources.length === 0) return { rendered, trims: [] };
+
+	// The task's own text counts against the limit too; the handoffs share what is left
+	const empty = stepOutput("");
+	const bare = render({ previous: empty, steps: Object.fromEntries(Object.keys(handoffs.steps).map((key) => [key, empty])) });
+	const overhead = bare.ok ? estimateTokens(bare.text) : 0;
+	const share = Math.max(1, Math.floor((options.limit - overhead) / sources.length));
+	const fitted: ChainHandoffs = { previous: handoffs.previous, steps: { ...handoffs.steps } };
+	const replaced = new Map<StepOutput, StepOutput>();
+	const trims: HandoffTrim[] = [];
+	for (const source of sources) {
+		const key = source.slice("steps.".length);
+		const original = source === "previous" ? handoffs.previous : handoffs.steps[key];
+		if (!original) continue;
+		let replacement = replaced.get(original);
+		if (!replacement) {
+			const fromTokens = estimateTokens(original.output);
+			if (fromTokens <= share) continue;
+			const trimmed = await trimOutput(original.output, share, options);
+			// Without structured output, .json is the text and is trimmed with it
+			replacement = { output: trimmed.text, json: original.json === original.output ? trimmed.text : original.json };
+			replaced.set(original, replacement);
+			trims.push({ source, fromTokens, toTokens: estimateTokens(trimmed.text), methods: trimmed.methods, model: trimmed.model });
+		}
+		if (source === "previous") fitted.previous = replacement;
+		else fitted.steps[key] = replacement;
+	}
+	return { rendered: render(fitted), trims };
+}
+
+export function formatHandoffTrim(trim: HandoffTrim): string {
+	const methods = trim.methods.map((method) => (method === "summary" && trim.model ? `summary by ${trim.model}` : method));
+	return `${trim.source} trimmed from ~${trim.fromTokens} to ~${trim.toTokens} tokens (${methods.join(", then ")})`;
+}
+
+/** "provider/id" or a bare id (optionally with a :thinking suffix) */
+export function findModel(registry: ModelRegistry, spec: string): Model<Api> | undefined {
+	const id = spec.replace(THINKING_SUFFIX_PATTERN, "");
+	const slash = id.indexOf("/");
+	return (slash > 0 ? registry.find(id.slice(0, slash), id.slice(slash + 1)) : undefined) ?? registry.getAll().find((m) => m.id === id);
+}
+
+/**
+ * Summaries through a direct completion call. `preferred` ("provider/id") is
+ * tried first, then the cheap candidates; the first with credentials is used.
+ */
+export function createHandoffSummarizer(registry: ModelRegistry, preferred?: string): HandoffSummarizer {
+	return async (text, maxTokens, signal) => {
+		const candidates = [
+			...(preferred ? [findModel(registry, preferred)] : []),
+			...SUMMARY_MODEL_CANDIDATES.map(([provider, id]) => registry.find(provider, id)),
+		];
+		for (const model of candidates) {
+			if (!model) continue;
+			const auth = await registry.getApiKeyAndHeaders(model);
+			if (!auth.ok || !auth.apiKey) continue;
+			const userMessage: UserMessage = {
+				role: "user",
+				content: [{ type: "text", text: `Condense this to at most ~${maxTokens} tokens:\n\n${text}` }],
+				timestamp: Date.now(),
+			};
+			const response = await complete(
+				model,
+				{ systemPrompt: SUMMARY_SYSTEM_PROMPT, messages: [userMessage] },
+				{ apiKey: auth.apiKey, headers: auth.headers, maxTokens: Math.min(maxTokens, MAX_SUMMARY_TOKENS), temperature: 0, signal },
+			);
+			if (response.stopReason === "error" || response.stopReason === "aborted") {
+				throw new Error(response.errorMessage ?? `summary by ${model.provider}/${model.id} ${response.stopReason}`);
+			}
+			return {
+				text: response.content
+					.filter((c): c is { type: "text"; text: string } => c.type === "text")
+					.map((c) => c.text)
+					.join("\n"),
+				model: `${model.provider}/${model.id}`,
+				usage: { ...response.usage, cost: response.usage.cost.total },
+			};
+		}
+		throw new Error(`no summary model with credentials${preferred ? ` (tried ${preferred} and the defaults)` : ""}`);
+	};
+}
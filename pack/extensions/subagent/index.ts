@@ -1,28 +1,143 @@
 /**
  * Subagent Tool - Delegate tasks to specialized agents
  *
- * Spawns a separate `pi` process for each subagent invocation,
- * giving it an isolated context window.
+ * Each agent run gets its own context window. A runner executes it (see
+ * runners.ts): by default a separate `pi` process in JSON mode, or in-process
+ * through the pi SDK; either way the parent follows the run's events.
  *
- * Supports three modes:
+ * Supports five modes:
  *   - Single: { agent: "name", task: "..." }
  *   - Parallel: { tasks: [{ agent: "name", task: "..." }, ...] }
- *   - Chain: { chain: [{ agent: "name", task: "... {previous} ..." }, ...] }
- *
- * Uses JSON mode to capture structured output from subagents.
+ *   - Chain: { chain: [{ agent: "name", task: "... {{previous}} ..." }, ...] }
+ *   - Graph: { graph: [{ id: "a", agent: "name", task: "...", dependsOn: [...] }, ...] }
+ *   - Map: { map: { agent: "name", items: [...], task: "... {{item}} ...", reduce: { ... } } }
  */
 
-import { spawn } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import type { AgentToolResult } from "@mariozechner/pi-agent-core";
-import type { Message } from "@mariozechner/pi-ai";
+import type { Api, Message, Model } from "@mariozechner/pi-ai";
 import { StringEnum } from "@mariozechner/pi-ai";
-import { type ExtensionAPI, type ExtensionContext, getMarkdownTheme } from "@mariozechner/pi-coding-agent";
-import { Container, Markdown, Spacer, Text } from "@mariozechner/pi-tui";
+import { type ExtensionAPI, type ExtensionCommandContext, type ExtensionContext, getMarkdownTheme } from "@mariozechner/pi-coding-agent";
+import { Container, Key, Markdown, matchesKey, Spacer, Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { type AgentConfig, type AgentScope, discoverAgents } from "./agents.js";
+import {
+	type AgentConfig,
+	type AgentLoadError,
+	type AgentScope,
+	buildAgentEnv,
+	checkAgentReferences,
+	resolveAgentCwd,
+} from "./agents.js";
+import {
+	type Budget,
+	createBudget,
+	formatTimeoutReason,
+	getDeadline,
+	getExceededReason,
+	hasLimits,
+	recordUsage,
+	validateLimits,
+} from "./budget.js";
+import {
+	type CacheMode,
+	clearCache,
+	computeCacheKey,
+	getCacheStats,
+	readCachedResult,
+	writeCachedResult,
+} from "./cache.js";
+import {
+	DEFAULT_MAX_ITERATIONS,
+	describeCondition,
+	evaluateCondition,
+	MAX_ITERATIONS_LIMIT,
+	resolveStepIndex,
+	type StepCondition,
+	validateChain,
+} from "./chain.js";
+import { getSinkNodes, validateGraph } from "./graph.js";
+import {
+	type ChainHandoffs,
+	createHandoffSummarizer,
+	findModel,
+	fitHandoffs,
+	formatHandoffTrim,
+	HANDOFF_CONTEXT_SHARE,
+	type HandoffTrim,
+} from "./handoff.js";
+import { deleteJobRecord, type JobRecord, jobRecordExists, readJobRecords, writeJobRecord } from "./jobs.js";
+import {
+	buildReduceTask,
+	DEFAULT_MAP_CONCURRENCY,
+	formatMapOutputs,
+	MAX_MAP_CONCURRENCY,
+	MAX_MAP_ITEMS,
+	type MapOutput,
+	renderMapTask,
+	resolveMapItems,
+} from "./map.js";
+import { archiveRun, listRuns, readRunMarkdown, searchRuns, type ArchivedRun } from "./runs.js";
+import { checkToolCall, type PolicyViolation, validatePolicy, writePolicyGuard } from "./policy.js";
+import { describeTreeChanges, READONLY_GUARD_PATH, snapshotWorkingTree, trackWritingRun, watchForWritingRuns } from "./readonly.js";
+import {
+	createProcessRunner,
+	createSdkRunner,
+	DEFAULT_RUNNER,
+	getRunner,
+	isLoadingSdkSession,
+	listRunnerNames,
+	type RunHandle,
+	type RunSpec,
+	registerRunner,
+} from "./runners.js";
+import { createAgentRegistry, formatAgentChange } from "./registry.js";
+import { planAttempts, resolveRetryPolicy, type RetryPolicy, sleep } from "./retry.js";
+import { formatRepromptMessage, formatSchemaInstructions, validateOutput } from "./schema.js";
+import {
+	createSession,
+	deleteSession,
+	getSession,
+	isSessionInUse,
+	listSessions,
+	makeSessionTitle,
+	renameSession,
+	setSessionInUse,
+	type SubagentSession,
+	summarizeSessionFile,
+	touchSession,
+} from "./sessions.js";
+import {
+	createGitValues,
+	GIT_PLACEHOLDER,
+	renderTemplate,
+	type StepOutput,
+	stepOutput,
+	type TemplateInput,
+	validateVars,
+} from "./template.js";
+import {
+	formatUsageCsv,
+	formatUsageJson,
+	groupUsage,
+	isUsageEntry,
+	totalUsage,
+	USAGE_ENTRY_TYPE,
+	type UsageEntry,
+} from "./usage.js";
+import { discoverWorkflows, loadWorkflowFile, resolveWorkflowVars, type WorkflowConfig } from "./workflows.js";
+import {
+	applyBranchDecision,
+	type BranchDecision,
+	createWorktree,
+	finalizeWorktree,
+	type Isolation,
+	listSubagentBranches,
+	removeWorktree,
+	type Worktree,
+	type WorktreeResult,
+} from "./worktree.js";
 
 const MAX_PARALLEL_TASKS = 8;
 const MAX_CONCURRENCY = 4;
@@ -34,8 +149,15 @@ const JOB_WIDGET_MAX_ITEMS = 4;
 const JOB_WIDGET_PREVIEW_LIMIT = 80;
 const COMPLETED_JOB_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
 const COMPLETED_JOB_MAX_COUNT = 50;
-const SESSION_MAX_AGE_MS = 2 * 60 * 60 * 1000; // 2 hours
-const SESSION_MAX_COUNT = 50;
+const WORKFLOW_MESSAGE_TYPE = "subagent-workflow";
+/** Commands of this extension, which workflows cannot take over */
+const OWN_COMMANDS = new Set([
+	"jobs", "agents", "subagent-sessions", "subagent-runs", "subagent-usage", "subagent-cache", "subagent-branches", "subagent-workflows",
+]);
+const JOB_JOURNAL_THROTTLE_MS = 2000;
+const MAX_CHAIN_STEP_RUNS = 50;
+const APPROVAL_PREVIEW_LINES = 20;
+const STREAM_UPDATE_THROTTLE_MS = 200;
 
 function formatTokens(count: number): string {
 	if (count < 1000) return count.toString();
@@ -70,11 +192,14 @@ function formatUsageStats(
 	return parts.join(" ");
 }
 
+/** One-line rendering of a tool call; a call denied by the agent's policy is flagged with the reason */
 function formatToolCall(
 	toolName: string,
 	args: Record<string, unknown>,
 	themeFg: (color: any, text: string) => string,
+	denied?: string,
 ): string {
+	if (denied) return `${themeFg("error", "⛔ ")}${formatToolCall(toolName, args, themeFg)}${themeFg("error", ` denied: ${denied}`)}`;
 	const shortenPath = (p: string) => {
 		const home = os.homedir();
 		return p.startsWith(home) ? `~${p.slice(home.length)}` : p;
@@ -148,6 +273,14 @@ interface UsageStats {
 	turns: number;
 }
 
+interface AttemptRecord {
+	model?: string;
+	exitCode: number;
+	stopReason?: string;
+	errorMessage?: string;
+	durationMs: number;
+}
+
 interface SingleResult {
 	agent: string;
 	agentSource: "user" | "project" | "unknown";
@@ -161,11 +294,44 @@ interface SingleResult {
 	stopReason?: string;
 	errorMessage?: string;
 	step?: number;
+	/** Chain step name, if set */
+	stepName?: string;
+	/** Chain loop iteration (1-based), set for looping steps */
+	iteration?: number;
+	/** Reason a chain step was skipped; skipped steps are not run */
+	skipped?: string;
+	/** Chain step with `approve: true`: approved as-is, or with {{previous}} edited by the user */
+	approval?: "approved" | "edited";
+	/** Chain step whose handoffs were over its limit and trimmed */
+	handoffTrims?: HandoffTrim[];
+	/** Assistant message still being streamed (running results only) */
+	partial?: Message;
+	nodeId?: string;
+	/** Map mode: the item this run was given (unset for the reduce run) */
+	mapItem?: string;
+	/** Map mode: this is the reduce run over all item outputs */
+	reduce?: boolean;
 	sessionId?: string;
+	/** Validated JSON object when the agent declares an outputSchema */
+	structured?: unknown;
+	/** Validation errors left after the corrective re-prompt */
+	schemaErrors?: string[];
+	/** Branch and diff of a run isolated in a git worktree */
+	worktree?: WorktreeResult;
+	/** Working tree check of a readOnly agent; unverified outside git repositories, or while other runs wrote to the checkout */
+	readOnly?: { verified: boolean; violation?: string; unverifiedReason?: string };
+	/** Tool call that broke the agent's policy; the run was stopped there */
+	policyViolation?: PolicyViolation;
+	/** Every attempt made under a retry/fallback policy (only set when more than one was planned) */
+	attempts?: AttemptRecord[];
+	/** Served from the result cache: when it was stored and what the original run cost */
+	cached?: { createdAt: number; cost: number };
 }
 
+type SubagentMode = "single" | "parallel" | "chain" | "graph" | "map";
+
 interface SubagentDetails {
-	mode: "single" | "parallel" | "chain";
+	mode: SubagentMode;
 	agentScope: AgentScope;
 	projectAgentsDir: string | null;
 	results: SingleResult[];
@@ -183,15 +349,26 @@ function getFinalOutput(messages: Message[]): string {
 	return "";
 }
 
-type DisplayItem = { type: "text"; text: string } | { type: "toolCall"; name: string; args: Record<string, any> };
+/** Finished messages plus the one still being streamed */
+function getLiveMessages(result: SingleResult): Message[] {
+	return result.partial ? [...result.messages, result.partial] : result.messages;
+}
+
+type DisplayItem =
+	| { type: "text"; text: string }
+	| { type: "toolCall"; name: string; args: Record<string, any>; denied?: string };
 
-function getDisplayItems(messages: Message[]): DisplayItem[] {
+/** Text and tool calls of the messages; the call that broke the policy carries its reason */
+function getDisplayItems(messages: Message[], policyViolation?: PolicyViolation): DisplayItem[] {
 	const items: DisplayItem[] = [];
 	for (const msg of messages) {
 		if (msg.role === "assistant") {
 			for (const part of msg.content) {
 				if (part.type === "text") items.push({ type: "text", text: part.text });
-				else if (part.type === "toolCall") items.push({ type: "toolCall", name: part.name, args: part.arguments });
+				else if (part.type === "toolCall") {
+					const denied = part.id === policyViolation?.toolCallId ? policyViolation.reason : undefined;
+					items.push({ type: "toolCall", name: part.name, args: part.arguments, denied });
+				}
 			}
 		}
 	}
@@ -271,12 +448,19 @@ function summarizeProgress(details: SubagentDetails, isRunning: boolean): string
 	if (!details.results.length) return "(no output yet)";
 
 	const getPreview = (result: SingleResult) => {
-		const items = getDisplayItems(result.messages);
-		if (!items.length) return "(no output yet)";
-		return formatDisplayItemPlain(items[items.length - 1]);
+		const items = getDisplayItems(getLiveMessages(result), result.policyViolation);
+		if (!items.length) return result.partial ? "(thinking...)" : "(no output yet)";
+		const last = items[items.length - 1];
+		// While text is streaming in, its tail is the interesting part
+		if (result.partial && last.type === "text") {
+			const cleaned = last.text.replace(/\s+/g, " ").trim();
+			if (cleaned.length > PROGRESS_PREVIEW_LIMIT) return `...${cleaned.slice(-PROGRESS_PREVIEW_LIMIT)}`;
+		}
+		return formatDisplayItemPlain(last);
 	};
 
 	const statusFor = (result: SingleResult): string => {
+		if (result.skipped) return "skipped";
 		if (!result.completed) return "running";
 		return result.exitCode === 0 ? "done" : "failed";
 	};
@@ -300,9 +484,11 @@ function summarizeProgress(details: SubagentDetails, isRunning: boolean): string
 
 		for (let i = startIndex; i < total; i++) {
 			const r = details.results[i];
-			const stepLabel = r.step ?? i + 1;
-			const status = isRunning && i === total - 1 ? "running" : statusFor(r);
-			lines.push(`${stepLabel}. ${r.agent} (${status}) ${getPreview(r)}`);
+			const stepLabel = `${r.step ?? i + 1}.${r.stepName ? ` ${r.stepName}` : ""}`;
+			const iterationLabel = r.iteration ? ` #${r.iteration}` : "";
+			const status = isRunning && i === total - 1 && !r.skipped ? "running" : statusFor(r);
+			const preview = r.skipped ? `(${r.skipped})` : getPreview(r);
+			lines.push(`${stepLabel} ${r.agent}${iterationLabel} (${status}) ${preview}`);
 		}
 		return lines.join("\n");
 	}
@@ -328,6 +514,40 @@ function summarizeProgress(details: SubagentDetails, isRunning: boolean): string
 		return lines.join("\n");
 	}
 
+	if (details.mode === "graph") {
+		const running = details.results.filter((r) => !r.completed).length;
+		const done = details.results.length - running;
+		const header = isRunning
+			? `Graph running: ${done} node${done === 1 ? "" : "s"} done, ${running} running`
+			: `Graph completed: ${done} node${done === 1 ? "" : "s"}`;
+		const lines: string[] = [header];
+
+		const startIndex = Math.max(0, details.results.length - PROGRESS_MAX_ITEMS);
+		if (startIndex > 0) lines.push(`... ${startIndex} earlier node${startIndex > 1 ? "s" : ""} hidden`);
+		for (let i = startIndex; i < details.results.length; i++) {
+			const r = details.results[i];
+			lines.push(`${r.nodeId ?? i + 1}. ${r.agent} (${statusFor(r)}) ${getPreview(r)}`);
+		}
+		return lines.join("\n");
+	}
+
+	if (details.mode === "map") {
+		const itemResults = details.results.filter((r) => !r.reduce);
+		const reduceResult = details.results.find((r) => r.reduce);
+		const done = itemResults.filter((r) => r.completed).length;
+		const header = isRunning
+			? `Map running: ${done}/${itemResults.length} items done${reduceResult ? ", reducing" : ""}`
+			: `Map completed: ${itemResults.filter((r) => r.completed && r.exitCode === 0).length}/${itemResults.length} items succeeded`;
+		const lines: string[] = [header];
+
+		// Items still running are the interesting ones
+		const active = itemResults.filter((r) => !r.completed);
+		for (const r of active.slice(0, PROGRESS_MAX_ITEMS)) lines.push(`${r.mapItem} (running) ${getPreview(r)}`);
+		if (active.length > PROGRESS_MAX_ITEMS) lines.push(`... +${active.length - PROGRESS_MAX_ITEMS} more running`);
+		if (reduceResult) lines.push(`reduce: ${reduceResult.agent} (${statusFor(reduceResult)}) ${getPreview(reduceResult)}`);
+		return lines.join("\n");
+	}
+
 	return "(no output yet)";
 }
 
@@ -351,6 +571,25 @@ async function mapWithConcurrencyLimit<TIn, TOut>(
 	return results;
 }
 
+/** Set by the extension instance: receives the usage of every finished run */
+let usageRecorder: ((entry: UsageEntry) => void) | undefined;
+
+function reportRunUsage(agentName: string, result: SingleResult): void {
+	const { usage } = result;
+	if (!usage.turns && !usage.input && !usage.output && !usage.cost) return;
+	usageRecorder?.({
+		agent: agentName,
+		model: result.model ?? "(default)",
+		input: usage.input,
+		output: usage.output,
+		cacheRead: usage.cacheRead,
+		cacheWrite: usage.cacheWrite,
+		cost: usage.cost,
+		turns: usage.turns,
+		timestamp: Date.now(),
+	});
+}
+
 function writePromptToTempFile(agentName: string, prompt: string): { dir: string; filePath: string } {
 	const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-"));
 	const safeName = agentName.replace(/[^\w.-]+/g, "_");
@@ -359,103 +598,96 @@ function writePromptToTempFile(agentName: string, prompt: string): { dir: string
 	return { dir: tmpDir, filePath };
 }
 
-// --- Session management for subagent resume ---
+type OnUpdateCallback = (partial: AgentToolResult<SubagentDetails>) => void;
 
-interface SubagentSession {
-	id: string;
-	agent: string;
-	sessionFilePath: string;
-	promptTmpDir: string | null; // keep prompt file alive for continued sessions
-	createdAt: number;
-	lastUsedAt: number;
-	inUse: boolean;
+/**
+ * Steering channel of a background job, checked whenever the child ends a turn:
+ * queued messages are then delivered in the same session, and a pause request
+ * stops the run with its session kept for later.
+ */
+interface JobSteering {
+	queue: string[];
+	pauseRequested: boolean;
 }
 
-let sessionCounter = 0;
-const subagentSessions = new Map<string, SubagentSession>();
-
-function generateSessionId(): string {
-	return `sa-${process.pid}-${++sessionCounter}`;
+/** A chain step with `approve: true` about to run */
+interface ApprovalRequest {
+	step: number;
+	agent: string;
+	stepName?: string;
+	/** Text that will be substituted for {{previous}} */
+	previous: string;
 }
 
-function getSessionDir(): string {
-	const dir = path.join(os.tmpdir(), "pi-subagent-sessions");
-	fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
-	return dir;
-}
+/** Resolves with the (possibly edited) {{previous}} text, or null to stop the chain */
+type ChainApprover = (request: ApprovalRequest) => Promise<string | null>;
 
-function createSession(agentName: string, promptTmpDir: string | null): SubagentSession {
-	const id = generateSessionId();
-	const safeName = agentName.replace(/[^\w.-]+/g, "_");
-	const sessionFilePath = path.join(getSessionDir(), `${id}-${safeName}.jsonl`);
-	const session: SubagentSession = {
-		id,
-		agent: agentName,
-		sessionFilePath,
-		promptTmpDir,
-		createdAt: Date.now(),
-		lastUsedAt: Date.now(),
-		inUse: false,
-	};
-	subagentSessions.set(id, session);
-	evictOldSessions();
-	return session;
+/**
+ * One agent run of an invocation: which agent, what task and where. The run
+ * wrappers (runCached, runIsolated, runWithRetries) and runSingleAgent share it.
+ */
+interface RunTarget {
+	agents: AgentConfig[];
+	agentName: string;
+	task: string;
+	/** The invocation's cwd; an agent's own `cwd` resolves against it */
+	defaultCwd: string;
+	/** cwd set for this run (by its step, task or node, or a worktree); unset: the agent's */
+	cwd?: string;
+	/** 1-based chain step */
+	step?: number;
 }
 
-function evictOldSessions(): void {
-	const now = Date.now();
-	const toDelete: string[] = [];
-
-	for (const [id, session] of subagentSessions) {
-		if (session.inUse) continue;
-		const age = now - session.lastUsedAt;
-		if (age > SESSION_MAX_AGE_MS) toDelete.push(id);
-	}
-
-	for (const id of toDelete) cleanupSession(id);
+interface SingleRunOptions extends RunTarget {
+	signal?: AbortSignal;
+	onUpdate?: OnUpdateCallback;
+	makeDetails: (results: SingleResult[]) => SubagentDetails;
+	/** Session to resume */
+	sessionId?: string;
+	/** Record a resumable session (default true; steps of multi-agent modes don't) */
+	enableSession?: boolean;
+	/** Overrides the agent's model */
+	model?: string;
+	/** Shared budget of a multi-agent invocation, checked along with the agent's own limits */
+	budget?: Budget;
+	steering?: JobSteering;
+}
 
-	// If still over limit, remove oldest (skip in-use sessions)
-	if (subagentSessions.size > SESSION_MAX_COUNT) {
-		const sorted = Array.from(subagentSessions.entries())
-			.filter(([, s]) => !s.inUse)
-			.sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
-		while (subagentSessions.size > SESSION_MAX_COUNT && sorted.length > 0) {
-			const [id] = sorted.shift()!;
-			cleanupSession(id);
-		}
-	}
+/** Previous output for the approval dialog, cut to the first APPROVAL_PREVIEW_LINES lines */
+function formatApprovalPreview(previous: string): string {
+	const lines = previous.trim().split("\n");
+	if (!lines[0]) return "(no previous output)";
+	if (lines.length <= APPROVAL_PREVIEW_LINES) return lines.join("\n");
+	const hidden = lines.length - APPROVAL_PREVIEW_LINES;
+	return `${lines.slice(0, APPROVAL_PREVIEW_LINES).join("\n")}\n… ${hidden} more line${hidden > 1 ? "s" : ""} (choose "Edit" to see all)`;
 }
 
-function cleanupSession(id: string): void {
-	const session = subagentSessions.get(id);
-	if (!session) return;
-	try {
-		fs.rmSync(session.sessionFilePath, { force: true });
-	} catch { /* ignore */ }
-	if (session.promptTmpDir) {
-		try {
-			fs.rmSync(session.promptTmpDir, { recursive: true, force: true });
-		} catch { /* ignore */ }
+/**
+ * Ask the user about a chain step: approve it, edit {{previous}} first, or abort.
+ * Returns the approved text, null on abort, or undefined if the dialog was dismissed.
+ */
+async function promptChainApproval(ui: ExtensionContext["ui"], request: ApprovalRequest): Promise<string | null | undefined> {
+	const stepLabel = `step ${request.step}${request.stepName ? ` ${request.stepName}` : ""} (${request.agent})`;
+	let previous = request.previous;
+	while (true) {
+		const edited = previous !== request.previous ? " (edited)" : "";
+		const choice = await ui.select(`Run ${stepLabel}? Previous output${edited}:\n\n${formatApprovalPreview(previous)}`, [
+			"Approve",
+			"Edit {{previous}}",
+			"Abort chain",
+		]);
+		if (!choice) return undefined;
+		if (choice === "Approve") return previous;
+		if (choice === "Abort chain") return null;
+		const text = await ui.editor(`{{previous}} for ${stepLabel}`, previous);
+		if (text !== undefined) previous = text;
 	}
-	subagentSessions.delete(id);
 }
 
-type OnUpdateCallback = (partial: AgentToolResult<SubagentDetails>) => void;
-
-async function runSingleAgent(
-	defaultCwd: string,
-	agents: AgentConfig[],
-	agentName: string,
-	task: string,
-	cwd: string | undefined,
-	step: number | undefined,
-	signal: AbortSignal | undefined,
-	onUpdate: OnUpdateCallback | undefined,
-	makeDetails: (results: SingleResult[]) => SubagentDetails,
-	sessionId?: string,
-	enableSession: boolean = true,
-	modelOverride?: string,
-): Promise<SingleResult> {
+/** Exported for tests, which run it against a scripted runner (see runners.ts) */
+export async function runSingleAgent(options: SingleRunOptions): Promise<SingleResult> {
+	const { defaultCwd, agents, agentName, task, cwd, step, signal, onUpdate, makeDetails, sessionId, steering } = options;
+	const { enableSession = true, model: modelOverride, budget: sharedBudget } = options;
 	const agent = agents.find((a) => a.name === agentName);
 
 	if (!agent) {
@@ -473,10 +705,35 @@ async function runSingleAgent(
 		};
 	}
 
+	// Agent defaults apply to this run only; the shared budget spans the whole invocation
+	const agentBudget = createBudget("agent default", {
+		maxCost: agent.maxCost,
+		maxTurns: agent.maxTurns,
+		maxTokens: agent.maxTokens,
+		timeoutMs: agent.timeoutMs,
+	});
+	const budgets = sharedBudget ? [agentBudget, sharedBudget] : [agentBudget];
+	const exhausted = sharedBudget ? getExceededReason(sharedBudget) : null;
+	if (exhausted) {
+		return {
+			agent: agentName,
+			agentSource: agent.source,
+			task,
+			exitCode: 1,
+			completed: true,
+			messages: [],
+			stderr: "",
+			usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+			stopReason: "budget_exceeded",
+			errorMessage: exhausted,
+			step,
+		};
+	}
+
 	// Resolve or create session
 	let existingSession: SubagentSession | undefined;
 	if (sessionId) {
-		existingSession = subagentSessions.get(sessionId);
+		existingSession = getSession(sessionId);
 		if (!existingSession) {
 			return {
 				agent: agentName,
@@ -485,7 +742,7 @@ async function runSingleAgent(
 				exitCode: 1,
 				completed: true,
 				messages: [],
-				stderr: `Session not found: "${sessionId}". It may have expired. Start a new session without sessionId.`,
+				stderr: `Session not found: "${sessionId}". It may have expired or been deleted. Start a new session without sessionId.`,
 				usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
 				step,
 			};
@@ -503,7 +760,7 @@ async function runSingleAgent(
 				step,
 			};
 		}
-		if (existingSession.inUse) {
+		if (isSessionInUse(existingSession.id)) {
 			return {
 				agent: agentName,
 				agentSource: agent.source,
@@ -517,7 +774,7 @@ async function runSingleAgent(
 			};
 		}
 		if (!fs.existsSync(existingSession.sessionFilePath)) {
-			cleanupSession(sessionId);
+			deleteSession(sessionId);
 			return {
 				agent: agentName,
 				agentSource: agent.source,
@@ -530,17 +787,53 @@ async function runSingleAgent(
 				step,
 			};
 		}
-		existingSession.lastUsedAt = Date.now();
+		touchSession(existingSession.id);
+	}
+
+	const runnerName = agent.runner ?? DEFAULT_RUNNER;
+	const runner = getRunner(runnerName);
+	if (!runner) {
+		return {
+			agent: agentName,
+			agentSource: agent.source,
+			task,
+			exitCode: 1,
+			completed: true,
+			messages: [],
+			stderr: `Unknown runner "${runnerName}" for agent "${agentName}". Available runners: ${listRunnerNames().join(", ")}.`,
+			usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+			step,
+		};
+	}
+
+	// A policy that cannot be applied must not be skipped silently
+	const policyError = agent.policy ? validatePolicy(agent.policy) : null;
+	if (policyError) {
+		return {
+			agent: agentName,
+			agentSource: agent.source,
+			task,
+			exitCode: 1,
+			completed: true,
+			messages: [],
+			stderr: `Invalid policy for agent "${agentName}": ${policyError}`,
+			usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+			step,
+		};
 	}
 
-	const args: string[] = ["--mode", "json", "-p"];
 	const effectiveModel = modelOverride || agent.model;
-	if (effectiveModel) args.push("--model", effectiveModel);
-	if (agent.thinkingLevel) args.push("--thinking", agent.thinkingLevel);
-	if (agent.tools && agent.tools.length > 0) args.push("--tools", agent.tools.join(","));
+	const agentCwd = cwd ?? resolveAgentCwd(agent, defaultCwd);
+
+	const systemPrompt = agent.outputSchema
+		? `${agent.systemPrompt.trim()}\n\n${formatSchemaInstructions(agent.outputSchema)}`
+		: agent.systemPrompt;
+	const promptFiles: string[] = [];
+	let sessionFilePath: string | undefined;
 
 	let tmpPromptDir: string | null = null;
 	let tmpPromptPath: string | null = null;
+	let endWritingRun: (() => void) | undefined;
 	let session: SubagentSession | undefined;
 
 	const currentResult: SingleResult = {
@@ -556,65 +849,135 @@ async function runSingleAgent(
 		step,
 	};
 
+	let lastEmitAt = 0;
+	let pendingEmit: ReturnType<typeof setTimeout> | undefined;
 	const emitUpdate = () => {
+		if (pendingEmit) clearTimeout(pendingEmit);
+		pendingEmit = undefined;
+		lastEmitAt = Date.now();
 		if (onUpdate) {
 			onUpdate({
-				content: [{ type: "text", text: getFinalOutput(currentResult.messages) || "(running...)" }],
+				content: [{ type: "text", text: getFinalOutput(getLiveMessages(currentResult)) || "(running...)" }],
 				details: makeDetails([currentResult]),
 			});
 		}
 	};
+	// Deltas arrive per token; coalesce them so the parent TUI redraws at most every STREAM_UPDATE_THROTTLE_MS
+	const emitStreamingUpdate = () => {
+		if (!onUpdate || pendingEmit) return;
+		const wait = STREAM_UPDATE_THROTTLE_MS - (Date.now() - lastEmitAt);
+		if (wait <= 0) emitUpdate();
+		else pendingEmit = setTimeout(emitUpdate, wait);
+	};
 
 	try {
 		if (existingSession) {
-			// Resume existing session
-			args.push("--continue", "--session", existingSession.sessionFilePath);
-			// System prompt is already baked into the session, but we need the prompt file
-			// to still exist if it was used. The session object keeps its promptTmpDir alive.
+			// Resume existing session. The prompt file is stored next to the session,
+			// so the agent keeps its system prompt even after a pi restart.
+			if (existingSession.promptFilePath && fs.existsSync(existingSession.promptFilePath)) {
+				promptFiles.push(existingSession.promptFilePath);
+			}
+			sessionFilePath = existingSession.sessionFilePath;
 			session = existingSession;
 		} else if (enableSession) {
-			// New invocation: create a session for potential future resume
-			if (agent.systemPrompt.trim()) {
-				const tmp = writePromptToTempFile(agent.name, agent.systemPrompt);
-				tmpPromptDir = tmp.dir;
-				tmpPromptPath = tmp.filePath;
-				args.push("--append-system-prompt", tmpPromptPath);
-			}
-			session = createSession(agentName, tmpPromptDir);
-			// Transfer ownership of tmpPromptDir to the session so it persists
-			tmpPromptDir = null;
-			args.push("--session", session.sessionFilePath);
+			// New invocation: create a durable session for potential future resume
+			session = createSession(agentName, systemPrompt, agentCwd, task);
+			if (session.promptFilePath) promptFiles.push(session.promptFilePath);
+			sessionFilePath = session.sessionFilePath;
 		} else {
 			// One-shot invocation (chain/parallel steps): no session persistence
-			if (agent.systemPrompt.trim()) {
-				const tmp = writePromptToTempFile(agent.name, agent.systemPrompt);
+			if (systemPrompt.trim()) {
+				const tmp = writePromptToTempFile(agent.name, systemPrompt);
 				tmpPromptDir = tmp.dir;
 				tmpPromptPath = tmp.filePath;
-				args.push("--append-system-prompt", tmpPromptPath);
+				promptFiles.push(tmpPromptPath);
+			}
+			if (agent.outputSchema || steering) {
+				// Throwaway session so a schema violation can be corrected, or a job message delivered, in context
+				tmpPromptDir ??= fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-"));
+				sessionFilePath = path.join(tmpPromptDir, "session.jsonl");
 			}
-			args.push("--no-session");
 		}
 
-		if (session) session.inUse = true;
+		if (session) setSessionInUse(session.id, true);
+
+		// The child blocks calls the policy denies; the parent only reports them (see onEvent)
+		let policyGuardPath: string | undefined;
+		if (agent.policy) {
+			tmpPromptDir ??= fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-"));
+			policyGuardPath = writePolicyGuard(tmpPromptDir, agent.policy);
+		}
 
-		args.push(`Task: ${task}`);
 		let wasAborted = false;
+		let budgetStopReason: string | undefined;
+		let steeringStop = false;
+		let paused = false;
+		const procCwd = cwd ?? existingSession?.cwd ?? agentCwd;
+		const runSpec: Omit<RunSpec, "session" | "prompt"> = {
+			cwd: procCwd,
+			env: buildAgentEnv(agent),
+			model: effectiveModel,
+			thinkingLevel: agent.thinkingLevel,
+			tools: agent.tools,
+			appendSystemPromptFiles: promptFiles,
+			extensions: [...(agent.extensions ?? []), ...(agent.readOnly ? [READONLY_GUARD_PATH] : []), ...(policyGuardPath ? [policyGuardPath] : [])],
+			skills: agent.skills ?? [],
+			noExtensions: agent.noExtensions,
+			noSkills: agent.noSkills,
+			noContextFiles: agent.noContextFiles,
+			extraArgs: agent.args ?? [],
+		};
+		const startedAt = Date.now();
+		const archive = (stopReason = currentResult.stopReason) =>
+			archiveRun(defaultCwd, {
+				agent: agentName,
+				agentSource: agent.source,
+				task,
+				cwd: procCwd,
+				model: currentResult.model,
+				exitCode: currentResult.exitCode,
+				stopReason,
+				errorMessage: currentResult.errorMessage,
+				stderr: currentResult.stderr,
+				usage: { ...currentResult.usage },
+				sessionId: session?.id,
+				step,
+				startedAt,
+				finishedAt: Date.now(),
+				messages: currentResult.messages,
+			});
 
-		const exitCode = await new Promise<number>((resolve) => {
-			const proc = spawn("pi", args, { cwd: cwd ?? defaultCwd, shell: false, stdio: ["ignore", "pipe", "pipe"] });
-			let buffer = "";
+		// `resume` continues the conversation already in the session file
+		const runAgent = (prompt: string, resume: boolean) => new Promise<number>((resolve) => {
+			let handle: RunHandle | undefined;
+			steeringStop = false;
 
-			const processLine = (line: string) => {
-				if (!line.trim()) return;
-				let event: any;
-				try {
-					event = JSON.parse(line);
-				} catch {
-					return;
+			// Ask the runner to end the run once a limit is crossed
+			const stopForBudget = (reason: string) => {
+				if (budgetStopReason || wasAborted || currentResult.policyViolation) return;
+				budgetStopReason = reason;
+				handle?.stop();
+			};
+
+			let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+			const deadlines = budgets
+				.map((b) => ({ budget: b, deadline: getDeadline(b) }))
+				.filter((d): d is { budget: Budget; deadline: number } => d.deadline !== undefined)
+				.sort((a, b) => a.deadline - b.deadline);
+			if (deadlines.length > 0) {
+				const { budget, deadline } = deadlines[0];
+				timeoutTimer = setTimeout(() => stopForBudget(formatTimeoutReason(budget)), Math.max(0, deadline - Date.now()));
+			}
+
+			const onEvent = (event: any) => {
+				if (event.type === "message_update" && event.message?.role === "assistant") {
+					currentResult.partial = event.message as Message;
+					emitStreamingUpdate();
 				}
 
 				if (event.type === "message_end" && event.message) {
 					const msg = event.message as Message;
+					currentResult.partial = undefined;
 					currentResult.messages.push(msg);
 
 					if (msg.role === "assistant") {
@@ -631,6 +994,31 @@ async function runSingleAgent(
 						if (!currentResult.model && msg.model) currentResult.model = msg.model;
 						if (msg.stopReason) currentResult.stopReason = msg.stopReason;
 						if (msg.errorMessage) currentResult.errorMessage = msg.errorMessage;
+
+						// Tool call policy: the guard in the child blocked the call; report it and stop the child
+						if (agent.policy && !currentResult.policyViolation && !wasAborted) {
+							for (const part of msg.content) {
+								if (part.type !== "toolCall") continue;
+								const reason = checkToolCall(agent.policy, part.name, part.arguments, procCwd);
+								if (!reason) continue;
+								currentResult.policyViolation = { toolCallId: part.id, toolName: part.name, reason };
+								handle?.stop();
+								break;
+							}
+						}
+
+						for (const budget of budgets) {
+							recordUsage(budget, {
+								cost: usage?.cost?.total || 0,
+								turns: 1,
+								tokens: usage?.totalTokens || 0,
+							});
+						}
+						// Only stop runs that are about to continue; a final answer is let through
+						if (msg.stopReason === "toolUse") {
+							const reason = budgets.map(getExceededReason).find((r) => r !== null);
+							if (reason) stopForBudget(reason);
+						}
 					}
 					emitUpdate();
 				}
@@ -639,53 +1027,130 @@ async function runSingleAgent(
 					currentResult.messages.push(event.message as Message);
 					emitUpdate();
 				}
+
+				// Turn boundary: hand control back if a message or a pause is waiting.
+				// Everything up to here is already saved in the session.
+				if (
+					event.type === "turn_end" &&
+					steering &&
+					sessionFilePath &&
+					(steering.queue.length > 0 || steering.pauseRequested) &&
+					!steeringStop &&
+					!budgetStopReason &&
+					!wasAborted
+				) {
+					steeringStop = true;
+					handle?.stop();
+				}
 			};
 
-			proc.stdout.on("data", (data) => {
-				buffer += data.toString();
-				const lines = buffer.split("\n");
-				buffer = lines.pop() || "";
-				for (const line of lines) processLine(line);
-			});
+			handle = runner.start(
+				{ ...runSpec, session: sessionFilePath ? { file: sessionFilePath, resume } : undefined, prompt },
+				{
+					onEvent,
+					onStderr: (text) => {
+						currentResult.stderr += text;
+					},
+				},
+			);
 
-			proc.stderr.on("data", (data) => {
-				currentResult.stderr += data.toString();
-			});
+			const stopRun = () => {
+				wasAborted = true;
+				handle?.stop();
+			};
+			if (signal) {
+				if (signal.aborted) stopRun();
+				else signal.addEventListener("abort", stopRun, { once: true });
+			}
 
-			proc.on("close", (code) => {
-				if (buffer.trim()) processLine(buffer);
-				resolve(code ?? 0);
+			handle.done.then((code) => {
+				if (timeoutTimer) clearTimeout(timeoutTimer);
+				signal?.removeEventListener("abort", stopRun);
+				resolve(steeringStop ? 0 : code);
 			});
+		});
 
-			proc.on("error", () => {
-				resolve(1);
-			});
+		const snapshotBefore = agent.readOnly ? snapshotWorkingTree(procCwd) : null;
+		// Sibling runs that may write to this checkout (parallel tasks, graph nodes, background jobs)
+		const writersOverlapped = agent.readOnly ? watchForWritingRuns(procCwd) : undefined;
+		if (!agent.readOnly) endWritingRun = trackWritingRun(procCwd);
+		let exitCode = await runAgent(`Task: ${task}`, !!existingSession);
+
+		// Steering (background jobs): continue the session with queued messages until paused or done
+		while (steering && sessionFilePath && exitCode === 0 && !wasAborted && !budgetStopReason && !currentResult.policyViolation) {
+			if (steering.pauseRequested) {
+				// A run that already gave its final answer has nothing left to pause
+				paused = currentResult.stopReason === "toolUse";
+				break;
+			}
+			if (steering.queue.length === 0) break;
+			const message = steering.queue.splice(0).join("\n\n");
+			exitCode = await runAgent(message, true);
+		}
 
-			if (signal) {
-				const killProc = () => {
-					wasAborted = true;
-					proc.kill("SIGTERM");
-					setTimeout(() => {
-						if (!proc.killed) proc.kill("SIGKILL");
-					}, 5000);
-				};
-				if (signal.aborted) killProc();
-				else signal.addEventListener("abort", killProc, { once: true });
+		// Output contract: validate the final answer and give the agent one chance to fix it
+		if (agent.outputSchema && exitCode === 0 && !paused && !wasAborted && !budgetStopReason && !currentResult.policyViolation) {
+			let validation = validateOutput(getFinalOutput(currentResult.messages), agent.outputSchema);
+			if (validation.errors.length > 0 && sessionFilePath) {
+				const reprompt = formatRepromptMessage(validation.errors);
+				exitCode = await runAgent(reprompt, true);
+				if (exitCode === 0 && !wasAborted && !budgetStopReason) {
+					validation = validateOutput(getFinalOutput(currentResult.messages), agent.outputSchema);
+				}
 			}
-		});
+			if (validation.errors.length === 0) currentResult.structured = validation.value;
+			else currentResult.schemaErrors = validation.errors;
+		}
+
+		// Read-only agents: anything the guard let through shows up as a changed working tree
+		if (agent.readOnly && !wasAborted) {
+			const snapshotAfter = snapshotBefore ? snapshotWorkingTree(procCwd) : null;
+			if (snapshotAfter && writersOverlapped?.()) {
+				// Their changes cannot be told apart from this run's
+				currentResult.readOnly = { verified: false, unverifiedReason: "other runs wrote to the same checkout" };
+			} else {
+				const violation = snapshotBefore && snapshotAfter ? describeTreeChanges(snapshotBefore, snapshotAfter) : null;
+				currentResult.readOnly = { verified: snapshotAfter !== null, violation: violation ?? undefined };
+			}
+		}
 
 		currentResult.exitCode = exitCode;
 		currentResult.completed = true;
+		if (paused && !wasAborted) currentResult.stopReason = "paused";
+		if (budgetStopReason && !wasAborted) {
+			// The child may exit cleanly on SIGTERM; still report the run as failed
+			currentResult.exitCode = exitCode || 1;
+			currentResult.stopReason = "budget_exceeded";
+			currentResult.errorMessage = budgetStopReason;
+		} else if (currentResult.policyViolation && !wasAborted) {
+			const { toolName, reason } = currentResult.policyViolation;
+			currentResult.exitCode = exitCode || 1;
+			currentResult.errorMessage = `Policy violation: ${toolName} ${reason}`;
+		} else if (currentResult.readOnly?.violation) {
+			currentResult.exitCode = exitCode || 1;
+			currentResult.errorMessage = `Read-only violation: ${currentResult.readOnly.violation}`;
+		} else if (currentResult.schemaErrors && exitCode === 0) {
+			currentResult.exitCode = 1;
+			currentResult.errorMessage = `Output does not match outputSchema: ${currentResult.schemaErrors.join("; ")}`;
+		}
 		if (wasAborted) {
-			// Clean up session on abort — the session file may be corrupted
-			if (session) cleanupSession(session.id);
+			// Drop a fresh session on abort — its file may be corrupted and holds no prior history.
+			// Resumed sessions are kept so earlier rounds are not lost.
+			if (session && !existingSession) deleteSession(session.id);
 			currentResult.sessionId = undefined;
+			archive("aborted");
+			reportRunUsage(agentName, currentResult);
 			throw new Error("Subagent was aborted");
 		}
 		currentResult.sessionId = session?.id;
+		archive();
+		reportRunUsage(agentName, currentResult);
 		return currentResult;
 	} finally {
-		if (session) session.inUse = false;
+		if (pendingEmit) clearTimeout(pendingEmit);
+		endWritingRun?.();
+		currentResult.partial = undefined;
+		if (session) setSessionInUse(session.id, false);
 		if (tmpPromptDir)
 			try {
 				fs.rmSync(tmpPromptDir, { recursive: true, force: true });
@@ -695,20 +1160,338 @@ async function runSingleAgent(
 	}
 }
 
+/**
+ * Run an agent under its retry policy: a failed attempt is retried with backoff,
+ * then re-run on each fallback model. Usage of all attempts is added up.
+ */
+async function runWithRetries(
+	options: RunTarget & { policy: RetryPolicy; model?: string; resumedSessionId?: string; signal?: AbortSignal },
+	run: (model: string | undefined) => Promise<SingleResult>,
+): Promise<SingleResult> {
+	const { agents, agentName, policy: stepPolicy, model, resumedSessionId, signal } = options;
+	const agent = agents.find((a) => a.name === agentName);
+	const plan = planAttempts(resolveRetryPolicy(stepPolicy, agent ?? {}), model);
+	if (!agent || plan.length === 1) return run(model);
+
+	const attempts: AttemptRecord[] = [];
+	const earlierUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, turns: 0 };
+	let result!: SingleResult;
+	for (let i = 0; i < plan.length; i++) {
+		if (i > 0) await sleep(plan[i].delayMs, signal);
+		const startedAt = Date.now();
+		result = await run(plan[i].model);
+		const isError = result.exitCode !== 0 || result.stopReason === "error" || result.stopReason === "aborted";
+		attempts.push({
+			model: result.model ?? plan[i].model,
+			exitCode: result.exitCode,
+			stopReason: result.stopReason,
+			errorMessage: isError ? result.errorMessage || result.stderr.trim().split("\n").pop() : undefined,
+			durationMs: Date.now() - startedAt,
+		});
+		// A spent budget fails every further attempt too; read-only and policy violations must not be retried over
+		if (
+			!isError ||
+			result.stopReason === "budget_exceeded" ||
+			result.readOnly?.violation ||
+			result.policyViolation ||
+			i === plan.length - 1
+		) {
+			break;
+		}
+
+		// Failed attempts don't leave resumable sessions behind (a resumed one is kept)
+		if (result.sessionId && result.sessionId !== resumedSessionId) deleteSession(result.sessionId);
+		earlierUsage.input += result.usage.input;
+		earlierUsage.output += result.usage.output;
+		earlierUsage.cacheRead += result.usage.cacheRead;
+		earlierUsage.cacheWrite += result.usage.cacheWrite;
+		earlierUsage.cost += result.usage.cost;
+		earlierUsage.turns += result.usage.turns;
+	}
+
+	result.usage.input += earlierUsage.input;
+	result.usage.output += earlierUsage.output;
+	result.usage.cacheRead += earlierUsage.cacheRead;
+	result.usage.cacheWrite += earlierUsage.cacheWrite;
+	result.usage.cost += earlierUsage.cost;
+	result.usage.turns += earlierUsage.turns;
+	result.attempts = attempts;
+	return result;
+}
+
+function formatAttempts(attempts: AttemptRecord[]): string {
+	return attempts
+		.map((a, i) => {
+			const ok = a.exitCode === 0 && a.stopReason !== "error" && a.stopReason !== "aborted";
+			const detail = ok ? "ok" : a.errorMessage || a.stopReason || `exit ${a.exitCode}`;
+			return `#${i + 1} ${a.model ?? "default model"}: ${detail} (${(a.durationMs / 1000).toFixed(1)}s)`;
+		})
+		.join("\n");
+}
+
+/**
+ * Serve a read-only agent's run from the result cache, or run it and (with
+ * "readwrite") store the result if it succeeded. Other agents, and runs outside
+ * a git repository, always run.
+ */
+async function runCached(
+	options: RunTarget & { cacheMode?: CacheMode; model?: string },
+	run: () => Promise<SingleResult>,
+): Promise<SingleResult> {
+	const { cacheMode, agents, agentName, task, step, defaultCwd, cwd: stepCwd, model } = options;
+	const agent = agents.find((a) => a.name === agentName);
+	if (!cacheMode || cacheMode === "off" || !agent?.readOnly) return run();
+	const runCwd = stepCwd ?? resolveAgentCwd(agent, defaultCwd);
+	const tree = snapshotWorkingTree(runCwd);
+	if (!tree) return run();
+
+	const key = computeCacheKey({ agent, model: model ?? agent.model, task, cwd: runCwd, tree });
+	const hit = readCachedResult<SingleResult>(defaultCwd, key);
+	if (hit) {
+		const { result } = hit;
+		return {
+			...result,
+			step,
+			// Nothing was spent this time; the session may have been deleted since
+			usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+			sessionId: result.sessionId && getSession(result.sessionId) ? result.sessionId : undefined,
+			cached: { createdAt: hit.createdAt, cost: result.usage.cost },
+		};
+	}
+
+	const result = await run();
+	const isError = result.exitCode !== 0 || result.stopReason === "error" || result.stopReason === "aborted";
+	if (cacheMode === "readwrite" && !isError && result.stopReason !== "paused") {
+		// Keep the run itself, not where this call placed it
+		const {
+			partial: _partial,
+			worktree: _worktree,
+			step: _step,
+			stepName: _stepName,
+			iteration: _iteration,
+			approval: _approval,
+			nodeId: _nodeId,
+			mapItem: _mapItem,
+			reduce: _reduce,
+			...stored
+		} = result;
+		writeCachedResult(defaultCwd, key, stored);
+	}
+	return result;
+}
+
+/**
+ * Run an agent, isolated in a fresh git worktree when the step (or else the agent)
+ * asks for it. `run` receives the cwd to use.
+ */
+async function runIsolated(
+	options: RunTarget & { isolation?: Isolation },
+	run: (cwd: string | undefined) => Promise<SingleResult>,
+): Promise<SingleResult> {
+	const { agents, agentName, task, step, isolation, defaultCwd, cwd: stepCwd } = options;
+	const agent = agents.find((a) => a.name === agentName);
+	if (!agent || (isolation ?? agent.isolation) !== "worktree") return run(stepCwd);
+
+	let worktree: Worktree;
+	try {
+		worktree = createWorktree(stepCwd ?? resolveAgentCwd(agent, defaultCwd), agentName);
+	} catch (err: any) {
+		return {
+			agent: agentName,
+			agentSource: agent.source,
+			task,
+			exitCode: 1,
+			completed: true,
+			messages: [],
+			stderr: err?.message ?? String(err),
+			usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+			step,
+		};
+	}
+
+	try {
+		const result = await run(worktree.cwd);
+		result.worktree = finalizeWorktree(worktree, `subagent ${agentName}: ${makeSessionTitle(task)}`);
+		return result;
+	} catch (err) {
+		// Aborted: nothing worth keeping
+		removeWorktree(worktree, true);
+		throw err;
+	}
+}
+
+function formatWorktreeOutcome(worktree: WorktreeResult): string {
+	if (!worktree.changed) return "no changes";
+	switch (worktree.outcome) {
+		case "merged":
+			return "merged";
+		case "cherry-picked":
+			return "cherry-picked";
+		case "discarded":
+			return "discarded";
+		default:
+			return "kept for review (use /subagent-branches)";
+	}
+}
+
+/** Append a per-branch report (diff stat + outcome) for worktree-isolated runs to the tool result text */
+function appendWorktreeReport(
+	content: Array<{ type: string; text: string }>,
+	results: SingleResult[],
+): Array<{ type: string; text: string }> {
+	const isolated = results.filter((r) => r.worktree);
+	if (isolated.length === 0) return content;
+	const lines = ["", "Worktree branches:"];
+	for (const r of isolated) {
+		const wt = r.worktree!;
+		lines.push(`- ${wt.branch} (${r.agent}): ${formatWorktreeOutcome(wt)}${wt.error ? ` — ${wt.error}` : ""}`);
+		if (wt.changed && wt.diffStat) lines.push(...wt.diffStat.split("\n").map((l) => `    ${l}`));
+	}
+	const report = lines.join("\n");
+	const [first, ...rest] = content;
+	if (first?.type === "text") return [{ ...first, text: `${first.text}\n${report}` }, ...rest];
+	return [{ type: "text", text: report.trimStart() }, ...content];
+}
+
+const IsolationSchema = StringEnum(["none", "worktree"] as const, {
+	description: 'Set "worktree" to run in a fresh git worktree on a temp branch (overrides the agent\'s isolation setting)',
+});
+
+const RetryFields = {
+	retries: Type.Optional(
+		Type.Integer({ minimum: 0, description: "Retries per model after a failed attempt (overrides the agent's retries). Default: 0" }),
+	),
+	retryDelayMs: Type.Optional(
+		Type.Integer({ minimum: 0, description: "Backoff before the first retry in milliseconds, doubling per retry. Default: 2000" }),
+	),
+	fallbackModels: Type.Optional(
+		Type.Array(Type.String(), { description: "Models to try in order once the primary model's attempts have failed" }),
+	),
+};
+
 const TaskItem = Type.Object({
 	agent: Type.String({ description: "Name of the agent to invoke" }),
 	task: Type.String({ description: "Task to delegate to the agent" }),
 	cwd: Type.Optional(Type.String({ description: "Working directory for the agent process" })),
 	model: Type.Optional(Type.String({ description: "Override the agent's default model (e.g. 'anthropic/claude-sonnet-4-20250514')" })),
+	isolation: Type.Optional(IsolationSchema),
+	...RetryFields,
 });
 
+const stepConditionSchema = (description: string) =>
+	Type.Object(
+		{
+			step: Type.Optional(
+				Type.Union([Type.String(), Type.Integer()], {
+					description: "Step name or 1-based index to check. Default: the previous step (for repeatUntil: this step)",
+				}),
+			),
+			contains: Type.Optional(Type.String({ description: "Output contains this text (case-sensitive)" })),
+			notContains: Type.Optional(Type.String({ description: "Output does not contain this text" })),
+			matches: Type.Optional(Type.String({ description: "Output matches this regular expression" })),
+			path: Type.Optional(Type.String({ description: 'Dot path into the structured (JSON) result, e.g. "findings" or "summary.critical"' })),
+			equals: Type.Optional(Type.Unknown({ description: "Value at path (or the structured result) equals this" })),
+			nonEmpty: Type.Optional(Type.Boolean({ description: "Value at path (or the output) is non-empty; false: is empty" })),
+		},
+		{ description: `${description}. All given checks must hold` },
+	);
+
 const ChainItem = Type.Object({
+	name: Type.Optional(Type.String({ description: "Step name, referenced by when/repeatUntil step and loopTo" })),
+	agent: Type.String({ description: "Name of the agent to invoke" }),
+	task: Type.String({
+		description:
+			"Task template: {{previous}} is the prior output ({{previous.json}} its structured output), {{steps.<name or index>}} an earlier step's",
+	}),
+	when: Type.Optional(stepConditionSchema("Run this step only if the condition holds; otherwise it is skipped")),
+	repeatUntil: Type.Optional(
+		stepConditionSchema("After this step runs, loop back (to loopTo, or this step) until the condition holds"),
+	),
+	loopTo: Type.Optional(
+		Type.Union([Type.String(), Type.Integer()], {
+			description: "Step name or 1-based index (this or an earlier step) to jump back to after this step runs",
+		}),
+	),
+	approve: Type.Optional(
+		Type.Boolean({
+			description: "Ask the user before this step runs: approve, edit the text substituted for {{previous}}, or abort the chain",
+		}),
+	),
+	maxIterations: Type.Optional(
+		Type.Integer({
+			minimum: 1,
+			maximum: MAX_ITERATIONS_LIMIT,
+			description: `Maximum runs of a looping step. Default: ${DEFAULT_MAX_ITERATIONS}`,
+		}),
+	),
+	maxHandoffTokens: Type.Optional(
+		Type.Integer({
+			minimum: 1,
+			description: `Token limit for this step's task with earlier outputs filled in; over it, they are trimmed. Default: ${HANDOFF_CONTEXT_SHARE * 100}% of the model's context window`,
+		}),
+	),
+	handoffSections: Type.Optional(
+		Type.Array(Type.String(), { description: 'Headings to keep (e.g. ["Plan", "Risks"]) when an earlier output has to be trimmed, before summarizing' }),
+	),
+	handoffModel: Type.Optional(Type.String({ description: "Cheap model that summarizes oversized earlier outputs. Default: the first available of a built-in list" })),
+	cwd: Type.Optional(Type.String({ description: "Working directory for the agent process" })),
+	model: Type.Optional(Type.String({ description: "Override the agent's default model (e.g. 'anthropic/claude-sonnet-4-20250514')" })),
+	isolation: Type.Optional(IsolationSchema),
+	...RetryFields,
+});
+
+const GraphNode = Type.Object({
+	id: Type.String({ description: "Unique node id, referenced by dependsOn and {{steps.<id>}} placeholders" }),
 	agent: Type.String({ description: "Name of the agent to invoke" }),
-	task: Type.String({ description: "Task with optional {previous} placeholder for prior output" }),
+	task: Type.String({ description: "Task template with optional {{steps.<id>}} / {{steps.<id>.json}} for upstream node outputs" }),
+	dependsOn: Type.Optional(Type.Array(Type.String(), { description: "Ids of nodes that must finish before this one starts" })),
 	cwd: Type.Optional(Type.String({ description: "Working directory for the agent process" })),
 	model: Type.Optional(Type.String({ description: "Override the agent's default model (e.g. 'anthropic/claude-sonnet-4-20250514')" })),
+	isolation: Type.Optional(IsolationSchema),
+	...RetryFields,
 });
 
+const MapSpec = Type.Object(
+	{
+		agent: Type.String({ description: "Name of the agent to run for every item" }),
+		taskTemplate: Type.String({ description: "Task template per item; {{item}} is the item, {{index}} its 1-based position" }),
+		items: Type.Optional(Type.Array(Type.String(), { description: "Items to map over" })),
+		itemsFrom: Type.Optional(
+			Type.Object(
+				{
+					glob: Type.String({ description: 'Relative glob, e.g. "packages/*" or "src/**/*.ts"; each matching path becomes an item' }),
+					cwd: Type.Optional(Type.String({ description: "Directory the glob (and the resulting items) are relative to. Default: the working directory" })),
+				},
+				{ description: "Generate the items from matching files and directories (instead of items)" },
+			),
+		),
+		concurrency: Type.Optional(
+			Type.Integer({
+				minimum: 1,
+				maximum: MAX_MAP_CONCURRENCY,
+				description: `Items run at the same time. Default: ${DEFAULT_MAP_CONCURRENCY}`,
+			}),
+		),
+		reduce: Type.Optional(
+			Type.Object(
+				{
+					agent: Type.String({ description: "Agent that receives all item outputs" }),
+					task: Type.Optional(
+						Type.String({ description: "Task for the reduce agent; {{outputs}} is the item outputs (appended if absent)" }),
+					),
+					model: Type.Optional(Type.String({ description: "Override the reduce agent's default model" })),
+				},
+				{ description: "Run one more agent over all item outputs; its answer becomes the result" },
+			),
+		),
+		cwd: Type.Optional(Type.String({ description: "Working directory for the agent processes" })),
+		model: Type.Optional(Type.String({ description: "Override the agent's default model (e.g. 'anthropic/claude-sonnet-4-20250514')" })),
+		isolation: Type.Optional(IsolationSchema),
+		...RetryFields,
+	},
+	{ description: `Run one agent over a list of items (up to ${MAX_MAP_ITEMS}), optionally followed by a reduce agent` },
+);
+
 const AgentScopeSchema = StringEnum(["user", "project", "both"] as const, {
 	description: 'Which agent directories to use. Default: "user". Use "both" to include project-local agents.',
 	default: "user",
@@ -718,6 +1501,8 @@ const SubagentParams = Type.Object({
 	agent: Type.Optional(Type.String({ description: "Name of the agent to invoke (for single mode)" })),
 	task: Type.Optional(Type.String({ description: "Task to delegate (for single mode)" })),
 	model: Type.Optional(Type.String({ description: "Override the agent's default model for single mode (e.g. 'anthropic/claude-sonnet-4-20250514')" })),
+	isolation: Type.Optional(IsolationSchema),
+	...RetryFields,
 	sessionId: Type.Optional(
 		Type.String({
 			description:
@@ -726,6 +1511,23 @@ const SubagentParams = Type.Object({
 	),
 	tasks: Type.Optional(Type.Array(TaskItem, { description: "Array of {agent, task} for parallel execution" })),
 	chain: Type.Optional(Type.Array(ChainItem, { description: "Array of {agent, task} for sequential execution" })),
+	graph: Type.Optional(
+		Type.Array(GraphNode, {
+			description: "Array of {id, agent, task, dependsOn} nodes forming a DAG. Independent branches run concurrently.",
+		}),
+	),
+	map: Type.Optional(MapSpec),
+	vars: Type.Optional(
+		Type.Record(Type.String(), Type.String(), {
+			description: "Variables for task templates, used as {{name}} in any task, e.g. { feature: \"dark mode\" }",
+		}),
+	),
+	cache: Type.Optional(
+		StringEnum(["off", "read", "readwrite"] as const, {
+			description:
+				'Result cache for read-only agents, keyed on agent definition, model, task, cwd and git tree state. "read" reuses cached results, "readwrite" also stores new ones. Default: "off"',
+		}),
+	),
 	agentScope: Type.Optional(AgentScopeSchema),
 	confirmProjectAgents: Type.Optional(
 		Type.Boolean({ description: "Prompt before running project-local agents. Default: true.", default: true }),
@@ -738,69 +1540,114 @@ const SubagentParams = Type.Object({
 			default: false,
 		}),
 	),
+	maxCost: Type.Optional(
+		Type.Number({ exclusiveMinimum: 0, description: "Cost limit in USD. Single mode: for this run. Chain/parallel/graph/map: shared across all steps." }),
+	),
+	maxTurns: Type.Optional(
+		Type.Integer({ minimum: 1, description: "Turn limit. Single mode: for this run. Chain/parallel/graph/map: shared across all steps." }),
+	),
+	maxTokens: Type.Optional(
+		Type.Integer({ minimum: 1, description: "Total token limit (input + output + cache). Single mode: for this run. Chain/parallel/graph/map: shared across all steps." }),
+	),
+	timeoutMs: Type.Optional(
+		Type.Integer({ minimum: 1, description: "Wall-clock limit in milliseconds. Single mode: for this run. Chain/parallel/graph/map: for the whole invocation." }),
+	),
 });
 
 // --- Background job management ---
 
-type JobStatus = "running" | "completed" | "failed";
-
-interface BackgroundJob {
-	id: string;
-	status: JobStatus;
-	agent: string;
-	task: string;
-	mode: "single" | "parallel" | "chain";
-	startedAt: number;
-	finishedAt?: number;
-	lastUpdateAt?: number;
-	lastSummary?: string;
+interface BackgroundJob extends JobRecord<SubagentDetails> {
+	mode: SubagentMode;
 	abortController?: AbortController;
-	result?: {
-		content: Array<{ type: "text"; text: string }>;
-		details: SubagentDetails;
-		isError?: boolean;
-	};
+	/** Single and chain jobs: messages (and, single only, pause requests) for the running child */
+	steering?: JobSteering;
+	/** Chain jobs in "waiting_approval": the step waiting and how to answer it */
+	approval?: ApprovalRequest & { resolve: (previous: string | null) => void };
+	lastJournaledAt?: number;
 }
 
 let jobCounter = 0;
 const backgroundJobs = new Map<string, BackgroundJob>();
 
 function generateJobId(): string {
-	return `job-${++jobCounter}`;
+	let id: string;
+	do {
+		id = `job-${++jobCounter}`;
+	} while (backgroundJobs.has(id) || jobRecordExists(id));
+	return id;
+}
+
+function removeJob(id: string): void {
+	backgroundJobs.delete(id);
+	deleteJobRecord(id);
+}
+
+/** Restore this project's journaled jobs (e.g. after a reload); returns the ones that were interrupted */
+function restoreJobs(): BackgroundJob[] {
+	const interrupted: BackgroundJob[] = [];
+	for (const record of readJobRecords<SubagentDetails>(process.cwd())) {
+		if (backgroundJobs.has(record.id)) continue;
+		const job = record as BackgroundJob;
+		backgroundJobs.set(job.id, job);
+		const n = Number(job.id.match(/^job-(\d+)$/)?.[1]);
+		if (Number.isFinite(n)) jobCounter = Math.max(jobCounter, n);
+		if (job.status === "interrupted") interrupted.push(job);
+	}
+	evictOldJobs();
+	return interrupted.filter((job) => backgroundJobs.has(job.id));
+}
+
+function journalJob(job: BackgroundJob, force = false): void {
+	const now = Date.now();
+	if (!force && job.lastJournaledAt && now - job.lastJournaledAt < JOB_JOURNAL_THROTTLE_MS) return;
+	job.lastJournaledAt = now;
+	writeJobRecord(job);
 }
 
 function evictOldJobs(): void {
 	const now = Date.now();
 	const completed = Array.from(backgroundJobs.entries())
-		.filter(([, j]) => j.status !== "running")
+		.filter(([, j]) => !isJobActive(j) && j.status !== "paused")
 		.sort((a, b) => (a[1].finishedAt ?? 0) - (b[1].finishedAt ?? 0));
 
 	for (const [id, job] of completed) {
 		const age = now - (job.finishedAt ?? job.startedAt);
-		if (age > COMPLETED_JOB_MAX_AGE_MS) backgroundJobs.delete(id);
+		if (age > COMPLETED_JOB_MAX_AGE_MS) removeJob(id);
 	}
 
 	// If still over limit, remove oldest
 	const remaining = Array.from(backgroundJobs.entries())
-		.filter(([, j]) => j.status !== "running")
+		.filter(([, j]) => !isJobActive(j) && j.status !== "paused")
 		.sort((a, b) => (a[1].finishedAt ?? 0) - (b[1].finishedAt ?? 0));
 	while (remaining.length > COMPLETED_JOB_MAX_COUNT) {
 		const [id] = remaining.shift()!;
-		backgroundJobs.delete(id);
+		removeJob(id);
 	}
 }
 
+/** Still holding a live run: running, or stopped at a chain step until the user approves it */
+function isJobActive(job: BackgroundJob): boolean {
+	return job.status === "running" || job.status === "waiting_approval";
+}
+
 function getRunningJobs(): BackgroundJob[] {
-	return Array.from(backgroundJobs.values()).filter((job) => job.status === "running");
+	return Array.from(backgroundJobs.values()).filter(isJobActive);
 }
 
 function formatJobSummary(job: BackgroundJob): string {
 	const elapsed = ((job.finishedAt ?? Date.now()) - job.startedAt) / 1000;
-	const icon = job.status === "running" ? "⏳" : job.status === "completed" ? "✓" : "✗";
+	const icon =
+		job.status === "running" ? "⏳"
+		: job.status === "waiting_approval" ? "✋"
+		: job.status === "paused" ? "⏯"
+		: job.status === "completed" ? "✓"
+		: job.status === "interrupted" ? "⏸"
+		: "✗";
 	return `${icon} ${job.id} [${job.mode}] ${job.agent}: ${job.task.slice(0, 60)}${job.task.length > 60 ? "..." : ""} (${job.status}, ${elapsed.toFixed(1)}s)`;
 }
 
 function formatJobWidgetLine(job: BackgroundJob): string {
+	if (job.approval) return `• ${job.id} ${job.agent}: ✋ step ${job.approval.step} (${job.approval.agent}) waits for approval — /jobs`;
 	const summary = job.lastSummary
 		? formatPreviewText(job.lastSummary, JOB_WIDGET_PREVIEW_LIMIT)
 		: "(no output yet)";
@@ -808,31 +1655,358 @@ function formatJobWidgetLine(job: BackgroundJob): string {
 	return `• ${job.id} ${job.agent} (${elapsed}s): ${summary}`;
 }
 
-// Extracted foreground execution logic so it can be reused by background mode
-async function runForegroundExecution(
+function formatAge(timestamp: number): string {
+	const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+	if (seconds < 60) return `${seconds}s ago`;
+	if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`;
+	if (seconds < 86400) return `${Math.round(seconds / 3600)}h ago`;
+	return `${Math.round(seconds / 86400)}d ago`;
+}
+
+function formatAgentLoadError(error: AgentLoadError): string {
+	return `Agent "${error.agent}" (${error.filePath}) could not be loaded: ${error.message}`;
+}
+
+/** Load errors of the agents a call refers to */
+function findRequestedAgentErrors(params: any, errors: AgentLoadError[]): AgentLoadError[] {
+	const requested = new Set<string>([
+		params.agent,
+		...(params.chain ?? []).map((s: any) => s.agent),
+		...(params.tasks ?? []).map((t: any) => t.agent),
+		...(params.graph ?? []).map((n: any) => n.agent),
+		params.map?.agent,
+		params.map?.reduce?.agent,
+	]);
+	return errors.filter((error) => requested.has(error.agent));
+}
+
+function formatReadOnlyCheck(check: NonNullable<SingleResult["readOnly"]>): string {
+	if (check.violation) return `read-only: VIOLATED — ${check.violation}`;
+	return check.verified ? "read-only: working tree unchanged" : `read-only: not verified (${check.unverifiedReason ?? "not a git repository"})`;
+}
+
+/** Compact summary of an agent's launch settings (cwd, env, skills, extensions, flags) for renderCall */
+function formatAgentRunSettings(agent: AgentConfig | undefined): string {
+	if (!agent) return "";
+	const parts: string[] = [];
+	if (agent.cwd) parts.push(`cwd ${agent.cwd}`);
+	if (agent.env?.allow) parts.push(`env only ${agent.env.allow.join(",")}`);
+	if (agent.env?.deny) parts.push(`env −${agent.env.deny.join(",−")}`);
+	if (agent.env?.set) parts.push(`env ${Object.keys(agent.env.set).map((k) => `${k}=…`).join(",")}`);
+	if (agent.skills) parts.push(`+${agent.skills.length} skill${agent.skills.length > 1 ? "s" : ""}`);
+	if (agent.extensions) parts.push(`+${agent.extensions.length} extension${agent.extensions.length > 1 ? "s" : ""}`);
+	if (agent.noExtensions) parts.push("no extensions");
+	if (agent.noSkills) parts.push("no skills");
+	if (agent.noContextFiles) parts.push("no context files");
+	if (agent.args) parts.push(agent.args.join(" "));
+	if (agent.readOnly) parts.push("read-only");
+	if (agent.runner) parts.push(`${agent.runner} runner`);
+	if (agent.policy) parts.push("policy");
+	return parts.join(" · ");
+}
+
+/** One row of /agents: a loaded, shadowed or broken agent definition */
+interface AgentDiagnostic {
+	name: string;
+	source: "user" | "project";
+	filePath: string;
+	agent?: AgentConfig;
+	/** Why the definition could not be loaded */
+	error?: string;
+	warnings: string[];
+	/** The agent with the same name that wins over this one */
+	shadowedBy?: AgentConfig;
+	/** The agent with the same name this one wins over */
+	overrides?: AgentConfig;
+}
+
+/** "provider/id" or a bare id (optionally with a :thinking suffix) known to the registry */
+function modelExists(registry: ExtensionContext["modelRegistry"], spec: string): boolean {
+	return findModel(registry, spec) !== undefined;
+}
+
+function formatAgentDiagnosticLine(entry: AgentDiagnostic): string {
+	const icon = entry.error ? "✗" : entry.shadowedBy ? "◌" : entry.warnings.length > 0 ? "⚠" : "✓";
+	const parts = [`${icon} ${entry.name} (${entry.source})`];
+	if (entry.error) parts.push(entry.error);
+	if (entry.agent) parts.push(entry.agent.model ?? "default model");
+	if (entry.agent?.extends) parts.push(`extends ${entry.agent.extends}`);
+	if (entry.shadowedBy) parts.push(`shadowed by ${entry.shadowedBy.source} agent`);
+	if (entry.overrides) parts.push(`overrides ${entry.overrides.source} agent`);
+	if (entry.warnings.length > 0) parts.push(`${entry.warnings.length} warning${entry.warnings.length > 1 ? "s" : ""}`);
+	return parts.join(" · ");
+}
+
+function formatAgentDiagnostic(entry: AgentDiagnostic): string {
+	const lines = [`${entry.name} (${entry.source})`, `File: ${entry.filePath}`];
+	if (entry.error) lines.push(`Not loaded: ${entry.error}`);
+	const agent = entry.agent;
+	if (agent) {
+		lines.push(`Description: ${agent.description}`);
+		lines.push(`Model: ${agent.model ?? "(default)"}${agent.thinkingLevel ? `, thinking ${agent.thinkingLevel}` : ""}`);
+		lines.push(`Tools: ${agent.tools?.join(", ") ?? "(default)"}`);
+		if (agent.extends) lines.push(`Extends: ${agent.extends}`);
+		if (agent.includes) lines.push(`Includes: ${agent.includes.join(", ")}`);
+		const settings = formatAgentRunSettings(agent);
+		if (settings) lines.push(`Launch: ${settings}`);
+	}
+	if (entry.shadowedBy) {
+		const scopeNote = entry.shadowedBy.source !== entry.source ? ' (still used with agentScope "user")' : "";
+		lines.push(`Shadowed by: ${entry.shadowedBy.filePath}${scopeNote}`);
+	}
+	if (entry.overrides) lines.push(`Overrides: ${entry.overrides.filePath}`);
+	if (entry.warnings.length > 0) lines.push("", "Warnings:", ...entry.warnings.map((w) => `- ${w}`));
+	return lines.join("\n");
+}
+
+function formatUsageDashboard(entries: UsageEntry[]): string {
+	if (entries.length === 0) return "No subagent usage recorded in this session yet.";
+	const plural = (runs: number) => `${runs} run${runs === 1 ? "" : "s"}`;
+	const totals = totalUsage(entries);
+	const lines = [`Subagent usage this session: ${plural(totals.runs)} · ${formatUsageStats(totals)}`];
+	for (const [title, key] of [["By agent", "agent"], ["By model", "model"]] as const) {
+		const groups = groupUsage(entries, key);
+		const width = Math.max(...groups.map((g) => g.name.length));
+		lines.push("", `${title}:`);
+		for (const g of groups) lines.push(`  ${g.name.padEnd(width)}  ${plural(g.totals.runs)} · ${formatUsageStats(g.totals)}`);
+	}
+	lines.push("", "Export with /subagent-usage csv|json [file]");
+	return lines.join("\n");
+}
+
+function formatSessionLine(session: SubagentSession): string {
+	return `${session.id} · ${session.agent} · ${session.title} (${formatAge(session.lastUsedAt)})`;
+}
+
+function formatRunLine(run: ArchivedRun): string {
+	const h = run.header;
+	const ok = h.exitCode === 0 && h.stopReason !== "error" && h.stopReason !== "aborted";
+	return `${ok ? "✓" : "✗"} ${h.agent} · ${formatPreviewText(h.task, 60)} (${formatAge(h.finishedAt)})`;
+}
+
+function createDetailsFactory(agentScope: AgentScope, projectAgentsDir: string | null) {
+	return (mode: SubagentMode) =>
+		(results: SingleResult[]): SubagentDetails => ({
+			mode,
+			agentScope,
+			projectAgentsDir,
+			results,
+		});
+}
+
+function getRequestedAgentNames(params: any): string[] {
+	const names = new Set<string>();
+	if (params.chain) for (const step of params.chain) names.add(step.agent);
+	if (params.tasks) for (const t of params.tasks) names.add(t.agent);
+	if (params.graph) for (const node of params.graph) names.add(node.agent);
+	if (params.map) names.add(params.map.agent);
+	if (params.map?.reduce) names.add(params.map.reduce.agent);
+	if (params.agent) names.add(params.agent);
+	return Array.from(names);
+}
+
+/** Model registry and the parent's model, used to size chain handoffs */
+interface ModelContext {
+	registry: ExtensionContext["modelRegistry"];
+	/** Model of the parent session; stands in for agents without a model */
+	current?: Model<Api>;
+}
+
+// Extracted foreground execution logic so it can be reused by background mode (exported for tests)
+export async function runForegroundExecution(
 	params: any,
 	cwd: string,
 	agents: AgentConfig[],
 	agentScope: AgentScope,
 	discovery: { projectAgentsDir: string | null },
-	makeDetails: (mode: "single" | "parallel" | "chain") => (results: SingleResult[]) => SubagentDetails,
+	makeDetails: (mode: SubagentMode) => (results: SingleResult[]) => SubagentDetails,
 	signal?: AbortSignal,
 	onUpdate?: OnUpdateCallback,
 	sessionId?: string,
+	steering?: JobSteering,
+	approve?: ChainApprover,
+	models?: ModelContext,
 ): Promise<{ content: Array<{ type: string; text: string }>; details: SubagentDetails; isError?: boolean }> {
+	const limits = { maxCost: params.maxCost, maxTurns: params.maxTurns, maxTokens: params.maxTokens, timeoutMs: params.timeoutMs };
+	const isSingle = !params.chain?.length && !params.graph?.length && !params.tasks?.length && !params.map;
+	const mode: SubagentMode = params.chain?.length ? "chain" : params.graph?.length ? "graph" : params.tasks?.length ? "parallel" : params.map ? "map" : "single";
+
+	// Workflow files reach here without the tool's schema checks
+	const limitsError = validateLimits(limits);
+	if (limitsError) {
+		return { content: [{ type: "text", text: `Invalid limits: ${limitsError}` }], details: makeDetails(mode)([]), isError: true };
+	}
+	const budget = hasLimits(limits) ? createBudget(isSingle ? "invocation limit" : "shared budget", limits) : undefined;
+
+	const varsError = validateVars(params.vars);
+	if (varsError) {
+		return { content: [{ type: "text", text: `Invalid vars: ${varsError}` }], details: makeDetails(mode)([]), isError: true };
+	}
+	// Tasks are rendered with these; templates are checked up front against stand-ins, so nothing runs if one is broken
+	const templateInput: TemplateInput = { values: { git: createGitValues(cwd) }, vars: params.vars };
+	const checkInput: TemplateInput = { values: { git: GIT_PLACEHOLDER }, vars: params.vars };
+	const withValues = (input: TemplateInput, values: Record<string, unknown>): TemplateInput => ({
+		...input,
+		values: { ...input.values, ...values },
+	});
+
 	if (params.chain && params.chain.length > 0) {
+		const chain: any[] = params.chain;
+		const chainError = validateChain(chain);
+		if (chainError) {
+			return {
+				content: [{ type: "text", text: `Invalid chain: ${chainError}` }],
+				details: makeDetails("chain")([]),
+				isError: true,
+			};
+		}
+
+		const stepPlaceholders: Record<string, StepOutput> = {};
+		chain.forEach((step, index) => {
+			stepPlaceholders[String(index + 1)] = stepOutput("");
+			if (step.name) stepPlaceholders[step.name] = stepOutput("");
+		});
+		for (const [index, step] of chain.entries()) {
+			const checked = renderTemplate(step.task, withValues(checkInput, { previous: stepOutput(""), steps: stepPlaceholders }));
+			if (!checked.ok) {
+				return {
+					content: [{ type: "text", text: `Invalid chain: step ${index + 1} task: ${checked.error}` }],
+					details: makeDetails("chain")([]),
+					isError: true,
+				};
+			}
+		}
+
+		// One entry per executed (or skipped) step, so loops append repeated steps
 		const results: SingleResult[] = [];
-		let previousOutput = "";
+		const latestByStep = new Map<number, SingleResult>();
+		const iterations = new Map<number, number>();
+		const notes: string[] = [];
+		let lastResult: SingleResult | undefined;
+		let previous = stepOutput("");
+		// Latest output of each step, by 1-based index and by name
+		const stepOutputs: Record<string, StepOutput> = {};
+		let runCount = 0;
+
+		// Explicit maxHandoffTokens, else a share of the context window of the model the step runs on
+		const handoffLimit = (step: any): number | undefined => {
+			if (step.maxHandoffTokens !== undefined) return step.maxHandoffTokens;
+			const spec = step.model ?? agents.find((a) => a.name === step.agent)?.model;
+			const model = spec ? models && findModel(models.registry, spec) : models?.current;
+			return model?.contextWindow ? Math.floor(model.contextWindow * HANDOFF_CONTEXT_SHARE) : undefined;
+		};
+		const subjectFor = (condition: StepCondition) => {
+			const ref = condition.step === undefined ? lastResult : latestByStep.get(resolveStepIndex(chain, condition.step));
+			return { output: ref ? getFinalOutput(ref.messages) : "", structured: ref?.structured };
+		};
+
+		for (let i = 0; i < chain.length; ) {
+			const step = chain[i];
+			const isLoop = step.loopTo !== undefined || step.repeatUntil !== undefined;
+			const iteration = (iterations.get(i) ?? 0) + 1;
+
+			if (step.when && !evaluateCondition(step.when, subjectFor(step.when))) {
+				results.push({
+					agent: step.agent, agentSource: "unknown", task: step.task,
+					exitCode: 0,
+					completed: true,
+					messages: [],
+					stderr: "",
+					usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+					step: i + 1,
+					stepName: step.name,
+					skipped: `when ${describeCondition(step.when)} not met`,
+				});
+				onUpdate?.({
+					content: [{ type: "text", text: `Step ${i + 1} skipped` }],
+					details: makeDetails("chain")([...results]),
+				});
+				i++;
+				continue;
+			}
+
+			if (++runCount > MAX_CHAIN_STEP_RUNS) {
+				return {
+					content: [{ type: "text", text: `Chain stopped: more than ${MAX_CHAIN_STEP_RUNS} step runs (check loop conditions).` }],
+					details: makeDetails("chain")(results),
+					isError: true,
+				};
+			}
+			iterations.set(i, iteration);
+
+			let approval: SingleResult["approval"];
+			if (step.approve) {
+				const stepInfo = `step ${i + 1} (${step.agent}${iteration > 1 ? `, iteration ${iteration}` : ""})`;
+				if (!approve) {
+					return {
+						content: [{ type: "text", text: `Chain stopped before ${stepInfo}: it needs approval and there is no UI to ask.` }],
+						details: makeDetails("chain")(results),
+						isError: true,
+					};
+				}
+				onUpdate?.({
+					content: [{ type: "text", text: `Waiting for approval of step ${i + 1}` }],
+					details: makeDetails("chain")([...results]),
+				});
+				const approved = await approve({ step: i + 1, agent: step.agent, stepName: step.name, previous: previous.output });
+				if (approved === null) {
+					return {
+						content: [{ type: "text", text: `Chain stopped before ${stepInfo}: not approved.` }],
+						details: makeDetails("chain")(results),
+						isError: true,
+					};
+				}
+				approval = approved === previous.output ? "approved" : "edited";
+				if (approval === "edited") {
+					// Every name of the approved output, and its .json, now reads the edited text
+					const edited = stepOutput(approved);
+					for (const [key, output] of Object.entries(stepOutputs)) if (output === previous) stepOutputs[key] = edited;
+					previous = edited;
+				}
+			}
 
-		for (let i = 0; i < params.chain.length; i++) {
-			const step = params.chain[i];
-			const taskWithContext = step.task.replace(/\{previous\}/g, previousOutput);
+			const render = (handoffs: ChainHandoffs) => renderTemplate(step.task, withValues(templateInput, { ...handoffs }));
+			const limit = handoffLimit(step);
+			const { rendered, trims } =
+				limit === undefined
+					? { rendered: render({ previous, steps: stepOutputs }), trims: [] }
+					: await fitHandoffs(step.task, { previous, steps: stepOutputs }, render, {
+							limit,
+							sections: step.handoffSections,
+							summarize: models ? createHandoffSummarizer(models.registry, step.handoffModel) : undefined,
+							signal,
+							onSummary: ({ model, usage }) => {
+								if (budget) recordUsage(budget, { cost: usage.cost, turns: 0, tokens: usage.totalTokens });
+								usageRecorder?.({
+									agent: `${step.agent} (handoff summary)`,
+									model,
+									input: usage.input,
+									output: usage.output,
+									cacheRead: usage.cacheRead,
+									cacheWrite: usage.cacheWrite,
+									cost: usage.cost,
+									turns: 1,
+									timestamp: Date.now(),
+								});
+							},
+						});
+			if (!rendered.ok) {
+				return {
+					content: [{ type: "text", text: `Chain stopped at step ${i + 1} (${step.agent}): ${rendered.error}` }],
+					details: makeDetails("chain")(results),
+					isError: true,
+				};
+			}
+			const taskWithContext = rendered.text;
+			const handoffTrims = trims.length > 0 ? trims : undefined;
+			for (const trim of trims) notes.push(`Step ${i + 1} (${step.agent}): ${formatHandoffTrim(trim)}.`);
+			const label = { stepName: step.name, iteration: isLoop || iteration > 1 ? iteration : undefined, approval, handoffTrims };
 
 			const chainUpdate: OnUpdateCallback | undefined = onUpdate
 				? (partial) => {
 						const currentResult = partial.details?.results[0];
 						if (currentResult) {
-							const allResults = [...results, currentResult];
+							const allResults = [...results, { ...currentResult, ...label }];
 							onUpdate({
 								content: partial.content,
 								details: makeDetails("chain")(allResults),
@@ -841,30 +2015,201 @@ async function runForegroundExecution(
 					}
 				: undefined;
 
-			const result = await runSingleAgent(
-				cwd, agents, step.agent, taskWithContext, step.cwd, i + 1,
-				signal, chainUpdate, makeDetails("chain"),
-				undefined, false, step.model,
+			const target: RunTarget = { agents, agentName: step.agent, task: taskWithContext, defaultCwd: cwd, cwd: step.cwd, step: i + 1 };
+			const result = await runCached({ ...target, cacheMode: params.cache, model: step.model }, () =>
+				runIsolated({ ...target, isolation: step.isolation }, (runCwd) =>
+					runWithRetries({ ...target, policy: step, model: step.model, signal }, (model) =>
+						runSingleAgent({
+							...target, cwd: runCwd, signal, onUpdate: chainUpdate, makeDetails: makeDetails("chain"),
+							enableSession: false, model, budget, steering,
+						}),
+					),
+				),
 			);
+			Object.assign(result, label);
 			results.push(result);
+			latestByStep.set(i, result);
+			lastResult = result;
 
 			const isError = result.exitCode !== 0 || result.stopReason === "error" || result.stopReason === "aborted";
 			if (isError) {
 				const errorMsg = result.errorMessage || result.stderr || getFinalOutput(result.messages) || "(no output)";
+				const iterationInfo = label.iteration ? `, iteration ${iteration}` : "";
 				return {
-					content: [{ type: "text", text: `Chain stopped at step ${i + 1} (${step.agent}): ${errorMsg}` }],
+					content: [{ type: "text", text: `Chain stopped at step ${i + 1} (${step.agent}${iterationInfo}): ${errorMsg}` }],
 					details: makeDetails("chain")(results),
 					isError: true,
 				};
 			}
-			previousOutput = getFinalOutput(result.messages);
+			previous = stepOutput(getFinalOutput(result.messages), result.structured);
+			stepOutputs[String(i + 1)] = previous;
+			if (step.name) stepOutputs[step.name] = previous;
+
+			if (isLoop && !(step.repeatUntil && evaluateCondition(step.repeatUntil, subjectFor(step.repeatUntil)))) {
+				const maxIterations = step.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+				if (iteration < maxIterations) {
+					i = step.loopTo !== undefined ? resolveStepIndex(chain, step.loopTo) : i;
+					continue;
+				}
+				const unmet = step.repeatUntil ? ` without meeting repeatUntil (${describeCondition(step.repeatUntil)})` : "";
+				notes.push(`Step ${i + 1} (${step.agent}) stopped looping after ${maxIterations} iterations${unmet}.`);
+			}
+			i++;
 		}
+
+		const output = (lastResult && getFinalOutput(lastResult.messages)) || "(no output)";
 		return {
-			content: [{ type: "text", text: getFinalOutput(results[results.length - 1].messages) || "(no output)" }],
+			content: [{ type: "text", text: notes.length > 0 ? `${output}\n\n${notes.join("\n")}` : output }],
 			details: makeDetails("chain")(results),
 		};
 	}
 
+	if (params.graph && params.graph.length > 0) {
+		const nodes: any[] = params.graph;
+		const graphError = validateGraph(nodes);
+		if (graphError) {
+			return {
+				content: [{ type: "text", text: `Invalid graph: ${graphError}` }],
+				details: makeDetails("graph")([]),
+				isError: true,
+			};
+		}
+
+		const nodePlaceholders = Object.fromEntries(nodes.map((n) => [n.id, stepOutput("")]));
+		for (const node of nodes) {
+			const checked = renderTemplate(node.task, withValues(checkInput, { steps: nodePlaceholders }));
+			if (!checked.ok) {
+				return {
+					content: [{ type: "text", text: `Invalid graph: node "${node.id}" task: ${checked.error}` }],
+					details: makeDetails("graph")([]),
+					isError: true,
+				};
+			}
+		}
+
+		// Results are listed in start order; a node only appears once it has been scheduled
+		const results: SingleResult[] = [];
+		const outputs = new Map<string, StepOutput>();
+		const pending = new Set<string>(nodes.map((n) => n.id));
+		const running = new Map<string, Promise<void>>();
+		let failure: { node: any; result: SingleResult } | undefined;
+		let thrown: unknown;
+
+		const emitGraphUpdate = () => {
+			if (onUpdate) {
+				const active = results.filter((r) => !r.completed).length;
+				onUpdate({
+					content: [{ type: "text", text: `Graph: ${results.length - active}/${nodes.length} done, ${active} running...` }],
+					details: makeDetails("graph")([...results]),
+				});
+			}
+		};
+
+		const startNode = (node: any) => {
+			const index = results.length;
+			const rendered = renderTemplate(node.task, withValues(templateInput, { steps: Object.fromEntries(outputs) }));
+			if (!rendered.ok) {
+				const result: SingleResult = {
+					agent: node.agent, agentSource: "unknown", task: node.task,
+					exitCode: 1,
+					completed: true,
+					messages: [],
+					stderr: rendered.error,
+					usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+					nodeId: node.id,
+				};
+				results.push(result);
+				failure ??= { node, result };
+				return;
+			}
+			const task = rendered.text;
+			results.push({
+				agent: node.agent, agentSource: "unknown", task,
+				exitCode: -1,
+				completed: false,
+				messages: [],
+				stderr: "",
+				usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+				nodeId: node.id,
+			});
+			emitGraphUpdate();
+
+			const promise = (async () => {
+				const target: RunTarget = { agents, agentName: node.agent, task, defaultCwd: cwd, cwd: node.cwd };
+				const result = await runCached({ ...target, cacheMode: params.cache, model: node.model }, () =>
+					runIsolated({ ...target, isolation: node.isolation }, (runCwd) =>
+						runWithRetries({ ...target, policy: node, model: node.model, signal }, (model) =>
+							runSingleAgent({
+								...target,
+								cwd: runCwd,
+								signal,
+								onUpdate: (partial) => {
+									if (partial.details?.results[0]) {
+										results[index] = { ...partial.details.results[0], nodeId: node.id };
+										emitGraphUpdate();
+									}
+								},
+								makeDetails: makeDetails("graph"),
+								enableSession: false,
+								model,
+								budget,
+							}),
+						),
+					),
+				);
+				result.nodeId = node.id;
+				results[index] = result;
+				const isError = result.exitCode !== 0 || result.stopReason === "error" || result.stopReason === "aborted";
+				if (isError) failure ??= { node, result };
+				else outputs.set(node.id, stepOutput(getFinalOutput(result.messages), result.structured));
+				emitGraphUpdate();
+			})()
+				.catch((err) => {
+					// Aborts surface as exceptions — remember the first one and rethrow once all nodes settle
+					thrown ??= err;
+				})
+				.finally(() => running.delete(node.id));
+			running.set(node.id, promise);
+		};
+
+		while (pending.size > 0 || running.size > 0) {
+			// Stop scheduling new nodes after the first failure, but let running ones finish
+			if (!failure && !thrown) {
+				for (const node of nodes) {
+					if (running.size >= MAX_CONCURRENCY) break;
+					if (!pending.has(node.id)) continue;
+					if (!(node.dependsOn ?? []).every((dep: string) => outputs.has(dep))) continue;
+					pending.delete(node.id);
+					startNode(node);
+				}
+			}
+			if (running.size === 0) break;
+			await Promise.race(running.values());
+		}
+
+		if (thrown) throw thrown;
+		if (failure) {
+			const { node, result } = failure;
+			const errorMsg = result.errorMessage || result.stderr || getFinalOutput(result.messages) || "(no output)";
+			const skipped = pending.size > 0 ? ` (${pending.size} node${pending.size > 1 ? "s" : ""} not run)` : "";
+			return {
+				content: [{ type: "text", text: `Graph stopped at node "${node.id}" (${node.agent})${skipped}: ${errorMsg}` }],
+				details: makeDetails("graph")(results),
+				isError: true,
+			};
+		}
+
+		const sinks = getSinkNodes(nodes);
+		const text =
+			sinks.length === 1
+				? outputs.get(sinks[0].id)?.output || "(no output)"
+				: sinks.map((n) => `## ${n.id} (${n.agent})\n\n${outputs.get(n.id)?.output || "(no output)"}`).join("\n\n");
+		return {
+			content: [{ type: "text", text }],
+			details: makeDetails("graph")(results),
+		};
+	}
+
 	if (params.tasks && params.tasks.length > 0) {
 		if (params.tasks.length > MAX_PARALLEL_TASKS)
 			return {
@@ -872,10 +2217,23 @@ async function runForegroundExecution(
 				details: makeDetails("parallel")([]),
 			};
 
+		const tasks: string[] = [];
+		for (const [i, t] of params.tasks.entries()) {
+			const rendered = renderTemplate(t.task, templateInput);
+			if (!rendered.ok) {
+				return {
+					content: [{ type: "text", text: `Invalid task ${i + 1} (${t.agent}): ${rendered.error}` }],
+					details: makeDetails("parallel")([]),
+					isError: true,
+				};
+			}
+			tasks.push(rendered.text);
+		}
+
 		const allResults: SingleResult[] = new Array(params.tasks.length);
 		for (let i = 0; i < params.tasks.length; i++) {
 			allResults[i] = {
-				agent: params.tasks[i].agent, agentSource: "unknown", task: params.tasks[i].task,
+				agent: params.tasks[i].agent, agentSource: "unknown", task: tasks[i],
 				exitCode: -1,
 				completed: false,
 				messages: [],
@@ -896,16 +2254,28 @@ async function runForegroundExecution(
 		};
 
 		const results = await mapWithConcurrencyLimit(params.tasks, MAX_CONCURRENCY, async (t: any, index: number) => {
-			const result = await runSingleAgent(
-				cwd, agents, t.agent, t.task, t.cwd, undefined, signal,
-				(partial) => {
-					if (partial.details?.results[0]) {
-						allResults[index] = partial.details.results[0];
-						emitParallelUpdate();
-					}
-				},
-				makeDetails("parallel"),
-				undefined, false, t.model,
+			const task = tasks[index];
+			const target: RunTarget = { agents, agentName: t.agent, task, defaultCwd: cwd, cwd: t.cwd };
+			const result = await runCached({ ...target, cacheMode: params.cache, model: t.model }, () =>
+				runIsolated({ ...target, isolation: t.isolation }, (runCwd) =>
+					runWithRetries({ ...target, policy: t, model: t.model, signal }, (model) =>
+						runSingleAgent({
+							...target,
+							cwd: runCwd,
+							signal,
+							onUpdate: (partial) => {
+								if (partial.details?.results[0]) {
+									allResults[index] = partial.details.results[0];
+									emitParallelUpdate();
+								}
+							},
+							makeDetails: makeDetails("parallel"),
+							enableSession: false,
+							model,
+							budget,
+						}),
+					),
+				),
 			);
 			allResults[index] = result;
 			emitParallelUpdate();
@@ -924,10 +2294,176 @@ async function runForegroundExecution(
 		};
 	}
 
+	if (params.map) {
+		const spec = params.map;
+		const items = resolveMapItems(spec, cwd);
+		if (typeof items === "string") {
+			return {
+				content: [{ type: "text", text: `Invalid map: ${items}` }],
+				details: makeDetails("map")([]),
+				isError: true,
+			};
+		}
+
+		const tasks: string[] = [];
+		for (const [index, item] of items.entries()) {
+			const rendered = renderMapTask(spec.taskTemplate, item, index, templateInput);
+			if (!rendered.ok) {
+				return {
+					content: [{ type: "text", text: `Invalid map: taskTemplate: ${rendered.error}` }],
+					details: makeDetails("map")([]),
+					isError: true,
+				};
+			}
+			tasks.push(rendered.text);
+		}
+		const reduceCheck = spec.reduce ? buildReduceTask(spec.reduce.task, [], checkInput) : undefined;
+		if (reduceCheck && !reduceCheck.ok) {
+			return {
+				content: [{ type: "text", text: `Invalid map: reduce task: ${reduceCheck.error}` }],
+				details: makeDetails("map")([]),
+				isError: true,
+			};
+		}
+
+		// Item results in item order; the reduce run, once started, comes last
+		const results: SingleResult[] = items.map((item, index) => ({
+			agent: spec.agent, agentSource: "unknown", task: tasks[index],
+			exitCode: -1,
+			completed: false,
+			messages: [],
+			stderr: "",
+			usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+			mapItem: item,
+		}));
+
+		const emitMapUpdate = () => {
+			if (onUpdate) {
+				const itemResults = results.filter((r) => !r.reduce);
+				const done = itemResults.filter((r) => r.completed).length;
+				const text = results.length > items.length ? "Map: reducing..." : `Map: ${done}/${items.length} done...`;
+				onUpdate({ content: [{ type: "text", text }], details: makeDetails("map")([...results]) });
+			}
+		};
+
+		await mapWithConcurrencyLimit(items, spec.concurrency ?? DEFAULT_MAP_CONCURRENCY, async (item: string, index: number) => {
+			const task = results[index].task;
+			const target: RunTarget = { agents, agentName: spec.agent, task, defaultCwd: cwd, cwd: spec.cwd };
+			const result = await runCached({ ...target, cacheMode: params.cache, model: spec.model }, () =>
+				runIsolated({ ...target, isolation: spec.isolation }, (runCwd) =>
+					runWithRetries({ ...target, policy: spec, model: spec.model, signal }, (model) =>
+						runSingleAgent({
+							...target,
+							cwd: runCwd,
+							signal,
+							onUpdate: (partial) => {
+								if (partial.details?.results[0]) {
+									results[index] = { ...partial.details.results[0], mapItem: item };
+									emitMapUpdate();
+								}
+							},
+							makeDetails: makeDetails("map"),
+							enableSession: false,
+							model,
+							budget,
+						}),
+					),
+				),
+			);
+			result.mapItem = item;
+			results[index] = result;
+			emitMapUpdate();
+		});
+
+		const isFailed = (r: SingleResult) => r.exitCode !== 0 || r.stopReason === "error" || r.stopReason === "aborted";
+		const outputs: MapOutput[] = results.map((r) => ({
+			item: r.mapItem ?? "",
+			output: isFailed(r) ? r.errorMessage || r.stderr.trim() || getFinalOutput(r.messages) : getFinalOutput(r.messages),
+			failed: isFailed(r),
+		}));
+		const failedCount = outputs.filter((o) => o.failed).length;
+		const summary = `Map: ${items.length - failedCount}/${items.length} items succeeded`;
+
+		if (!spec.reduce) {
+			return {
+				content: [{ type: "text", text: `${summary}\n\n${formatMapOutputs(outputs)}` }],
+				details: makeDetails("map")(results),
+				isError: failedCount === items.length,
+			};
+		}
+		if (failedCount === items.length) {
+			return {
+				content: [{ type: "text", text: `${summary}; reduce skipped.\n\n${formatMapOutputs(outputs)}` }],
+				details: makeDetails("map")(results),
+				isError: true,
+			};
+		}
+
+		const reduce = spec.reduce;
+		const reduceRendered = buildReduceTask(reduce.task, outputs, templateInput);
+		if (!reduceRendered.ok) {
+			return {
+				content: [{ type: "text", text: `${summary}; reduce (${reduce.agent}) not run: ${reduceRendered.error}` }],
+				details: makeDetails("map")(results),
+				isError: true,
+			};
+		}
+		const reduceTask = reduceRendered.text;
+		const reduceIndex = results.length;
+		const reduceTarget: RunTarget = { agents, agentName: reduce.agent, task: reduceTask, defaultCwd: cwd, cwd: spec.cwd };
+		const reduceResult = await runCached({ ...reduceTarget, cacheMode: params.cache, model: reduce.model }, () =>
+			runWithRetries({ ...reduceTarget, policy: reduce, model: reduce.model, signal }, (model) =>
+				runSingleAgent({
+					...reduceTarget,
+					signal,
+					onUpdate: (partial) => {
+						if (partial.details?.results[0]) {
+							results[reduceIndex] = { ...partial.details.results[0], reduce: true };
+							emitMapUpdate();
+						}
+					},
+					makeDetails: makeDetails("map"),
+					enableSession: false,
+					model,
+					budget,
+				}),
+			),
+		);
+		reduceResult.reduce = true;
+		results[reduceIndex] = reduceResult;
+
+		const failedItems = outputs.filter((o) => o.failed).map((o) => o.item);
+		const failedNote = failedItems.length > 0 ? `\nFailed items: ${failedItems.join(", ")}` : "";
+		if (isFailed(reduceResult)) {
+			const errorMsg = reduceResult.errorMessage || reduceResult.stderr || getFinalOutput(reduceResult.messages) || "(no output)";
+			return {
+				content: [{ type: "text", text: `${summary}; reduce (${reduce.agent}) failed: ${errorMsg}${failedNote}` }],
+				details: makeDetails("map")(results),
+				isError: true,
+			};
+		}
+		const output = getFinalOutput(reduceResult.messages) || "(no output)";
+		return {
+			content: [{ type: "text", text: `${output}\n\n${summary}${failedNote}` }],
+			details: makeDetails("map")(results),
+		};
+	}
+
 	if (params.agent && params.task) {
-		const result = await runSingleAgent(
-			cwd, agents, params.agent, params.task, params.cwd, undefined, signal, onUpdate, makeDetails("single"),
-			sessionId, true, params.model,
+		const rendered = renderTemplate(params.task, templateInput);
+		if (!rendered.ok) {
+			return { content: [{ type: "text", text: `Invalid task: ${rendered.error}` }], details: makeDetails("single")([]), isError: true };
+		}
+		const task = rendered.text;
+		// A resumed conversation depends on its history, which the cache key does not cover
+		const cacheMode = sessionId ? "off" : params.cache;
+		const target: RunTarget = { agents, agentName: params.agent, task, defaultCwd: cwd, cwd: params.cwd };
+		const result = await runCached({ ...target, cacheMode, model: params.model }, () =>
+			runIsolated({ ...target, isolation: params.isolation }, (runCwd) =>
+				runWithRetries({ ...target, policy: params, model: params.model, resumedSessionId: sessionId, signal }, (model) =>
+					runSingleAgent({ ...target, cwd: runCwd, signal, onUpdate, makeDetails: makeDetails("single"), sessionId, model, budget, steering }),
+				),
+			),
 		);
 		const isError = result.exitCode !== 0 || result.stopReason === "error" || result.stopReason === "aborted";
 		if (isError) {
@@ -955,6 +2491,20 @@ async function runForegroundExecution(
 }
 
 export default function (pi: ExtensionAPI) {
+	// In-process (sdk runner) children load extensions too; subagents there would share this process's state
+	if (isLoadingSdkSession()) return;
+
+	// --- Runners: how each agent run is executed (see runners.ts) ---
+	pi.registerFlag("subagent-pi-binary", {
+		description: "pi executable used by the process runner (default: $PI_SUBAGENT_BINARY, then pi on PATH)",
+		type: "string",
+	});
+	registerRunner(
+		"process",
+		createProcessRunner(() => (pi.getFlag("subagent-pi-binary") as string | undefined) || process.env.PI_SUBAGENT_BINARY || "pi"),
+	);
+	registerRunner("sdk", createSdkRunner());
+
 	// --- Widget: show background job count ---
 	let latestCtx: ExtensionContext | null = null;
 	let widgetRefreshTimer: ReturnType<typeof setInterval> | null = null;
@@ -988,7 +2538,10 @@ export default function (pi: ExtensionAPI) {
 		}
 
 		startWidgetRefresh();
-		const lines: string[] = [`⏳ ${runningJobs.length} background job${runningJobs.length > 1 ? "s" : ""} running`];
+		const waiting = runningJobs.filter((job) => job.status === "waiting_approval").length;
+		const lines: string[] = [
+			`⏳ ${runningJobs.length} background job${runningJobs.length > 1 ? "s" : ""} running${waiting > 0 ? ` · ${waiting} waiting for approval` : ""}`,
+		];
 		for (const job of runningJobs.slice(0, JOB_WIDGET_MAX_ITEMS)) {
 			lines.push(formatJobWidgetLine(job));
 		}
@@ -1005,35 +2558,890 @@ export default function (pi: ExtensionAPI) {
 		updateWidget(ctx);
 	});
 
-	// Abort all running background jobs and clean up sessions on process exit
+	// Parsed agents are cached between calls and reloaded when their files change
+	const agentRegistry = createAgentRegistry((changes) => {
+		if (latestCtx?.hasUI) latestCtx.ui.notify(changes.map(formatAgentChange).join("\n"), "info");
+	});
+
+	// Abort all running background jobs on process exit.
+	// Sessions are durable and intentionally survive restarts (see sessions.ts).
 	const abortAllJobs = () => {
 		for (const job of backgroundJobs.values()) {
-			if (job.status === "running" && job.abortController) {
+			if (isJobActive(job) && job.abortController) {
 				job.abortController.abort();
 			}
 		}
-		// Clean up all session files
-		for (const id of Array.from(subagentSessions.keys())) {
-			cleanupSession(id);
-		}
 	};
 	process.on("exit", abortAllJobs);
 	process.on("SIGINT", abortAllJobs);
 	process.on("SIGTERM", abortAllJobs);
 
-	// --- /jobs command ---
+	// A reload or session switch tears this extension instance down: journal running
+	// jobs as interrupted (they can be re-run later) instead of orphaning them.
+	pi.on("session_shutdown", async () => {
+		for (const job of backgroundJobs.values()) {
+			if (!isJobActive(job)) continue;
+			job.status = "interrupted";
+			job.finishedAt = Date.now();
+			journalJob(job, true);
+			job.abortController?.abort();
+		}
+		stopWidgetRefresh();
+		agentRegistry.dispose();
+		if (usageRecorder === appendUsageEntry) usageRecorder = undefined;
+	});
+
+	// Restore journaled jobs from a previous runtime (reload or crash)
+	const interruptedJobs = restoreJobs();
+
+	// --- Usage ledger: tokens and cost of every subagent run, persisted in the session ---
+	let usageEntries: UsageEntry[] = [];
+
+	function updateUsageStatus(ctx: ExtensionContext) {
+		if (!ctx.hasUI) return;
+		if (usageEntries.length === 0) {
+			ctx.ui.setStatus("subagent-usage", undefined);
+			return;
+		}
+		const totals = totalUsage(usageEntries);
+		const text = `subagents $${totals.cost.toFixed(4)} · ${totals.runs} run${totals.runs === 1 ? "" : "s"}`;
+		ctx.ui.setStatus("subagent-usage", ctx.ui.theme.fg("dim", text));
+	}
+
+	const appendUsageEntry = (entry: UsageEntry) => {
+		usageEntries.push(entry);
+		pi.appendEntry(USAGE_ENTRY_TYPE, entry);
+		if (latestCtx) updateUsageStatus(latestCtx);
+	};
+	usageRecorder = appendUsageEntry;
+
+	pi.on("session_start", async (_event, ctx) => {
+		latestCtx = ctx;
+		usageEntries = ctx.sessionManager
+			.getEntries()
+			.filter((e: { type: string; customType?: string }) => e.type === "custom" && e.customType === USAGE_ENTRY_TYPE)
+			.map((e) => (e as { data?: unknown }).data)
+			.filter(isUsageEntry);
+		updateUsageStatus(ctx);
+		if (interruptedJobs.length > 0 && ctx.hasUI) {
+			const ids = interruptedJobs.map((job) => job.id).join(", ");
+			ctx.ui.notify(
+				`${interruptedJobs.length} background job${interruptedJobs.length > 1 ? "s were" : " was"} interrupted: ${ids}\nUse subagent_jobs with action "rerun" to run again from the original parameters.`,
+				"warning",
+			);
+			interruptedJobs.length = 0;
+		}
+	});
+
+	// Broken agent definitions are announced once per runtime
+	const reportedLoadErrors = new Set<string>();
+	function notifyAgentLoadErrors(errors: AgentLoadError[], ctx: ExtensionContext): void {
+		const fresh = errors.map(formatAgentLoadError).filter((line) => !reportedLoadErrors.has(line));
+		if (fresh.length === 0 || !ctx.hasUI) return;
+		for (const line of fresh) reportedLoadErrors.add(line);
+		ctx.ui.notify(fresh.join("\n"), "warning");
+	}
+
+	async function confirmProjectAgentsIfNeeded(
+		params: any,
+		agents: AgentConfig[],
+		discovery: { projectAgentsDir: string | null },
+		agentScope: AgentScope,
+		ctx: ExtensionContext,
+	): Promise<boolean> {
+		if ((agentScope !== "project" && agentScope !== "both") || !ctx.hasUI) return true;
+
+		const projectAgentsRequested = getRequestedAgentNames(params)
+			.map((name) => agents.find((a) => a.name === name))
+			.filter((a): a is AgentConfig => a?.source === "project");
+		if (projectAgentsRequested.length === 0) return true;
+
+		const names = projectAgentsRequested.map((a) => a.name).join(", ");
+		const dir = discovery.projectAgentsDir ?? "(unknown)";
+		return ctx.ui.confirm(
+			"Run project-local agents?",
+			`Agents: ${names}\nSource: ${dir}\n\nProject agents are repo-controlled. Only continue for trusted repositories.`,
+		);
+	}
+
+	/** Ask what to do with each changed worktree branch; without UI, branches are kept */
+	async function reviewWorktreeBranches(results: SingleResult[], ctx: ExtensionContext): Promise<void> {
+		const options: Record<string, BranchDecision | null> = {
+			Merge: "merge",
+			"Cherry-pick": "cherry-pick",
+			Discard: "discard",
+			"Keep for later": null,
+		};
+		for (const r of results) {
+			const wt = r.worktree;
+			if (!wt?.changed || wt.outcome) continue;
+			if (!ctx.hasUI) {
+				wt.outcome = "kept";
+				continue;
+			}
+			const choice = await ctx.ui.select(`${r.agent} changed files on ${wt.branch}:\n${wt.diffStat}`, Object.keys(options));
+			const decision = choice ? options[choice] : null;
+			if (!decision) {
+				wt.outcome = "kept";
+				continue;
+			}
+			const applied = applyBranchDecision(wt.repoRoot, wt.branch, decision);
+			if (applied.ok) {
+				wt.outcome = decision === "merge" ? "merged" : decision === "cherry-pick" ? "cherry-picked" : "discarded";
+			} else {
+				wt.outcome = "kept";
+				wt.error = `${decision} failed: ${applied.error}`;
+				ctx.ui.notify(`Could not ${decision} ${wt.branch}: ${applied.error}`, "error");
+			}
+		}
+	}
+
+	function startBackgroundJob(
+		params: any,
+		cwd: string,
+		agents: AgentConfig[],
+		agentScope: AgentScope,
+		discovery: { projectAgentsDir: string | null },
+		mode: SubagentMode,
+		ctx: ExtensionContext,
+	): BackgroundJob {
+		const jobId = generateJobId();
+		evictOldJobs();
+		const agentName = params.agent || (params.chain?.[0]?.agent) || (params.tasks?.[0]?.agent) || (params.graph?.[0]?.agent) || (params.map?.agent) || "unknown";
+		const taskDesc = params.task || (params.chain?.[0]?.task) || (params.tasks?.map((t: any) => t.agent).join(", ")) || (params.graph?.map((n: any) => n.id).join(", ")) || (params.map?.taskTemplate) || "unknown";
+
+		// Clone params without background flag, run asynchronously
+		const fgParams = { ...params, background: false };
+		const job: BackgroundJob = {
+			id: jobId,
+			status: "running",
+			agent: agentName,
+			task: taskDesc,
+			mode,
+			params: fgParams,
+			cwd,
+			ownerPid: process.pid,
+			startedAt: Date.now(),
+		};
+		backgroundJobs.set(jobId, job);
+		launchJob(job, fgParams, agents, agentScope, discovery, ctx);
+		return job;
+	}
+
+	/** Run a job (new, or a paused one being resumed) in the background and report when it stops */
+	function launchJob(
+		job: BackgroundJob,
+		runParams: any,
+		agents: AgentConfig[],
+		agentScope: AgentScope,
+		discovery: { projectAgentsDir: string | null },
+		ctx: ExtensionContext,
+	): void {
+		const makeDetails = createDetailsFactory(agentScope, discovery.projectAgentsDir);
+		const abortController = new AbortController();
+		job.status = "running";
+		job.finishedAt = undefined;
+		job.abortController = abortController;
+		job.approval = undefined;
+		job.steering = job.mode === "single" || job.mode === "chain" ? { queue: [], pauseRequested: false } : undefined;
+		journalJob(job, true);
+		updateWidget(ctx);
+
+		// Approval gates: the job waits (and says so in the widget) until answered in /jobs
+		const approve: ChainApprover = (request) =>
+			new Promise((resolve, reject) => {
+				const onAbort = () => {
+					job.approval = undefined;
+					reject(new Error("Subagent was aborted"));
+				};
+				job.approval = {
+					...request,
+					resolve: (previous) => {
+						abortController.signal.removeEventListener("abort", onAbort);
+						job.approval = undefined;
+						if (job.status === "waiting_approval") job.status = "running";
+						journalJob(job, true);
+						updateWidget(latestCtx ?? undefined);
+						resolve(previous);
+					},
+				};
+				abortController.signal.addEventListener("abort", onAbort, { once: true });
+				job.status = "waiting_approval";
+				journalJob(job, true);
+				updateWidget(latestCtx ?? undefined);
+				if (latestCtx?.ui?.notify) {
+					latestCtx.ui.notify(
+						`✋ Background job ${job.id} is waiting for approval of step ${request.step} (${request.agent}).\nUse /jobs to review it.`,
+						"warning",
+					);
+				}
+			});
+
+		const recordProgress: OnUpdateCallback = (partial) => {
+			const details = partial.details as SubagentDetails | undefined;
+			let summary = details ? summarizeProgress(details, true) : "";
+			if (!summary) {
+				const textPart = partial.content?.find((part) => part.type === "text") as
+					| { type: "text"; text: string }
+					| undefined;
+				if (textPart?.text) summary = formatPreviewText(textPart.text);
+			}
+			if (summary) {
+				job.lastSummary = summary;
+				job.lastUpdateAt = Date.now();
+				journalJob(job);
+			}
+		};
+
+		// Fire and forget — run the same execute logic in background
+		(async () => {
+			try {
+				const bgResult = await runForegroundExecution(
+					runParams, job.cwd, agents, agentScope, discovery, makeDetails, abortController.signal, recordProgress,
+					runParams.sessionId, job.steering, approve, { registry: ctx.modelRegistry, current: ctx.model },
+				);
+				const paused = bgResult.details.results[0]?.stopReason === "paused";
+				// A cancelled run may still return (e.g. a chain reporting its aborted step)
+				if (job.status !== "cancelled") job.status = paused ? "paused" : bgResult.isError ? "failed" : "completed";
+				job.finishedAt = Date.now();
+				job.sessionId = paused ? bgResult.details.results[0].sessionId : undefined;
+				// Nobody to ask in the background: changed branches wait for /subagent-branches
+				for (const r of bgResult.details.results) if (r.worktree?.changed) r.worktree.outcome ??= "kept";
+				const content = paused
+					? [{ type: "text", text: `Paused after ${bgResult.details.results[0].usage.turns} turn(s). Send the job a message to resume it.\n\n${bgResult.content[0]?.text ?? ""}` }]
+					: bgResult.content;
+				job.result = {
+					content: appendWorktreeReport(content, bgResult.details.results) as Array<{ type: "text"; text: string }>,
+					details: bgResult.details as SubagentDetails,
+					isError: bgResult.isError,
+				};
+			} catch (err: any) {
+				// Interrupted by shutdown: already journaled, nobody is left to notify
+				if (job.status === "interrupted") return;
+				const cancelled = job.status === "cancelled";
+				job.status = cancelled ? "cancelled" : "failed";
+				job.finishedAt = Date.now();
+				job.result = {
+					content: [{ type: "text", text: cancelled ? "Cancelled by user." : `Background job error: ${err?.message ?? err}` }],
+					details: makeDetails(job.mode)([]),
+					isError: true,
+				};
+			} finally {
+				job.abortController = undefined;
+				job.steering = undefined;
+			}
+			journalJob(job, true);
+			updateWidget(latestCtx ?? undefined);
+			// Notify user
+			const elapsed = ((job.finishedAt! - job.startedAt) / 1000).toFixed(1);
+			const icon = job.status === "completed" ? "✓" : job.status === "paused" ? "⏯" : "✗";
+			const hint =
+				job.status === "paused"
+					? `Use subagent_jobs with action "send" and jobId "${job.id}" to resume it.`
+					: `Use subagent_jobs with action "get" and jobId "${job.id}" to retrieve the result.`;
+			if (latestCtx?.ui?.notify) {
+				latestCtx.ui.notify(
+					`${icon} Background job ${job.id} ${job.status} (${elapsed}s)\nAgent: ${job.agent}\n${hint}`,
+					job.status === "completed" || job.status === "paused" ? "info" : "error",
+				);
+			}
+		})();
+	}
+
+	// --- Job actions: cancel, send, pause and rerun (subagent_jobs tool and /jobs) ---
+
+	type JobActionOutcome = { text: string; isError?: boolean };
+
+	function cancelJob(job: BackgroundJob): JobActionOutcome {
+		if (job.status === "paused") {
+			job.status = "cancelled";
+			job.finishedAt = Date.now();
+			journalJob(job, true);
+			const session = job.sessionId ? ` Its session ${job.sessionId} is kept and can still be resumed with the subagent tool.` : "";
+			return { text: `Cancelled paused job ${job.id}.${session}` };
+		}
+		if (!isJobActive(job) || !job.abortController) {
+			return { text: `Job ${job.id} is not running (${job.status}).`, isError: true };
+		}
+		job.status = "cancelled";
+		journalJob(job, true);
+		job.abortController.abort();
+		return { text: `Cancelling job ${job.id}...` };
+	}
+
+	/** Whether a single job's run gets a worktree: its own isolation, else its agent's (as in runIsolated) */
+	function runsInWorktree(job: BackgroundJob): boolean {
+		const { agent: agentName, agentScope, isolation } = job.params;
+		if (isolation !== undefined) return isolation === "worktree";
+		if (typeof agentName !== "string") return false;
+		const scope: AgentScope = agentScope === "project" || agentScope === "both" ? agentScope : "user";
+		return agentRegistry.discover(job.cwd, scope).agents.find((agent) => agent.name === agentName)?.isolation === "worktree";
+	}
+
+	function checkSteerable(job: BackgroundJob, action: "send" | "pause"): JobActionOutcome | null {
+		// A paused chain would have to resume mid-chain, so chains only take messages
+		if (job.mode === "chain" && action === "pause") {
+			return { text: `Job ${job.id} is a chain job; chains take messages but cannot be paused. Use "cancel" instead.`, isError: true };
+		}
+		if (job.mode !== "single" && job.mode !== "chain") {
+			return { text: `Job ${job.id} is a ${job.mode} job; only single-agent and chain jobs can be steered. Use "cancel" instead.`, isError: true };
+		}
+		if (runsInWorktree(job)) {
+			return { text: `Job ${job.id} runs in an isolated worktree, which is removed when the run stops; it cannot be steered.`, isError: true };
+		}
+		return null;
+	}
+
+	function pauseJob(job: BackgroundJob): JobActionOutcome {
+		const unsteerable = checkSteerable(job, "pause");
+		if (unsteerable) return unsteerable;
+		if (job.status !== "running" || !job.steering) {
+			return { text: `Job ${job.id} is not running (${job.status}).`, isError: true };
+		}
+		job.steering.pauseRequested = true;
+		return { text: `Job ${job.id} will pause when its current turn ends.` };
+	}
+
+	async function sendToJob(job: BackgroundJob, message: string, ctx: ExtensionContext): Promise<JobActionOutcome> {
+		const unsteerable = checkSteerable(job, "send");
+		if (unsteerable) return unsteerable;
+		if (!message.trim()) return { text: "Missing message parameter.", isError: true };
+
+		if (job.status === "running" && job.steering) {
+			job.steering.queue.push(message);
+			return { text: `Message queued for job ${job.id}; it is delivered ${job.mode === "chain" ? "to the current step " : ""}when the current turn ends.` };
+		}
+		if (job.status !== "paused" || !job.sessionId) {
+			return { text: `Job ${job.id} is not running or paused (${job.status}).`, isError: true };
+		}
+
+		// Resume the paused session in the background, with the message as the next task
+		const jobParams = job.params as any;
+		const agentScope: AgentScope = jobParams.agentScope ?? "user";
+		const discovery = agentRegistry.discover(job.cwd, agentScope);
+		if (
+			(jobParams.confirmProjectAgents ?? true) &&
+			!(await confirmProjectAgentsIfNeeded(jobParams, discovery.agents, discovery, agentScope, ctx))
+		) {
+			return { text: "Canceled: project-local agents not approved." };
+		}
+		launchJob(job, { ...jobParams, task: message, sessionId: job.sessionId }, discovery.agents, agentScope, discovery, ctx);
+		return { text: `Resumed job ${job.id} with your message.\nA notification will appear when the job finishes.` };
+	}
+
+	async function rerunJob(job: BackgroundJob, ctx: ExtensionContext): Promise<JobActionOutcome> {
+		if (isJobActive(job)) return { text: `Job ${job.id} is still running.`, isError: true };
+		const rerunParams = job.params as any;
+		const agentScope: AgentScope = rerunParams.agentScope ?? "user";
+		const discovery = agentRegistry.discover(job.cwd, agentScope);
+		if (
+			(rerunParams.confirmProjectAgents ?? true) &&
+			!(await confirmProjectAgentsIfNeeded(rerunParams, discovery.agents, discovery, agentScope, ctx))
+		) {
+			return { text: "Canceled: project-local agents not approved." };
+		}
+		const newJob = startBackgroundJob(rerunParams, job.cwd, discovery.agents, agentScope, discovery, job.mode, ctx);
+		return {
+			text: `Re-running ${job.id} as ${newJob.id}\nAgent: ${newJob.agent}, Mode: ${newJob.mode}\nA notification will appear when the job finishes.`,
+		};
+	}
+
+	// --- /jobs command: pick a job, then show, steer, cancel or re-run it ---
 	pi.registerCommand("jobs", {
-		description: "List background subagent jobs",
+		description: "List background subagent jobs and show, steer (send/pause), approve, cancel or re-run them",
 		handler: async (_args, ctx) => {
 			if (backgroundJobs.size === 0) {
 				ctx.ui.notify("No background jobs.", "info");
 				return;
 			}
-			const lines: string[] = [];
-			for (const job of backgroundJobs.values()) {
-				lines.push(formatJobSummary(job));
+			const jobs = Array.from(backgroundJobs.values());
+			if (!ctx.hasUI) {
+				ctx.ui.notify(jobs.map(formatJobSummary).join("\n"), "info");
+				return;
+			}
+
+			const choices = jobs.map(formatJobSummary);
+			const selected = await ctx.ui.select("Background jobs (select to manage):", choices);
+			if (!selected) return;
+			const job = jobs[choices.indexOf(selected)];
+			if (!job) return;
+
+			// Chains take messages for the step running now but cannot pause; other modes, and worktree runs, can only be cancelled
+			const steering =
+				runsInWorktree(job) ? []
+				: job.mode === "single" ? ["Send message", "Pause after this turn"]
+				: job.mode === "chain" ? ["Send message (current step)"]
+				: [];
+			const actions =
+				job.status === "waiting_approval"
+					? ["Review step", "Show progress", "Cancel"]
+					: job.status === "running"
+						? ["Show progress", ...steering, "Cancel"]
+						: job.status === "paused"
+							? ["Show result", "Send message (resume)", "Cancel"]
+							: ["Show result", "Re-run", "Remove"];
+			const action = await ctx.ui.select(`${job.id} (${job.agent}, ${job.status})`, actions);
+			if (!action) return;
+
+			let outcome: JobActionOutcome | undefined;
+			if (action === "Review step") {
+				const request = job.approval;
+				if (!request) return;
+				const decision = await promptChainApproval(ctx.ui, request);
+				// Dismissed, or answered elsewhere (e.g. cancelled) while the dialog was open
+				if (decision === undefined || job.approval !== request) return;
+				request.resolve(decision);
+				outcome = { text: decision === null ? `Stopped ${job.id} before step ${request.step}.` : `Approved step ${request.step} of ${job.id}.` };
+			} else if (action === "Show progress" || action === "Show result") {
+				const text = job.result
+					? job.result.content.map((part) => part.text).join("\n")
+					: job.lastSummary ?? "(no output yet)";
+				ctx.ui.notify(`${formatJobSummary(job)}\n\n${text}`, "info");
+			} else if (action.startsWith("Send message")) {
+				const message = await ctx.ui.input(`Message for ${job.id}:`);
+				if (message?.trim()) outcome = await sendToJob(job, message, ctx);
+			} else if (action === "Pause after this turn") {
+				outcome = pauseJob(job);
+			} else if (action === "Cancel") {
+				if (await ctx.ui.confirm("Cancel background job?", `${job.id} (${job.agent}): ${job.task}`)) outcome = cancelJob(job);
+			} else if (action === "Re-run") {
+				outcome = await rerunJob(job, ctx);
+			} else if (action === "Remove") {
+				removeJob(job.id);
+				outcome = { text: `Removed ${job.id}` };
+			}
+			if (outcome) ctx.ui.notify(outcome.text, outcome.isError ? "error" : "info");
+		},
+	});
+
+	// --- /agents command: discovered agents, overrides and validation warnings ---
+	pi.registerCommand("agents", {
+		description: "List subagent definitions with their source, overrides and validation warnings",
+		handler: async (_args, ctx) => {
+			const discovery = agentRegistry.discover(ctx.cwd, "both");
+			const lookups = {
+				toolNames: new Set(pi.getAllTools().map((tool) => tool.name)),
+				modelExists: (model: string) => modelExists(ctx.modelRegistry, model),
+				runnerNames: new Set(listRunnerNames()),
+			};
+			const isProjectFile = (filePath: string) =>
+				discovery.projectAgentsDir !== null && filePath.startsWith(discovery.projectAgentsDir + path.sep);
+			const winners = new Map(discovery.agents.map((agent) => [agent.name, agent]));
+			const diagnose = (agent: AgentConfig, shadowedBy?: AgentConfig): AgentDiagnostic => ({
+				name: agent.name,
+				source: agent.source,
+				filePath: agent.filePath,
+				agent,
+				warnings: [...(agent.warnings ?? []), ...checkAgentReferences(agent, lookups)],
+				shadowedBy,
+				overrides: shadowedBy ? undefined : discovery.shadowed.find((s) => s.name === agent.name),
+			});
+			const entries: AgentDiagnostic[] = [
+				...discovery.agents.map((agent) => diagnose(agent)),
+				...discovery.shadowed.map((agent) => diagnose(agent, winners.get(agent.name))),
+				...discovery.errors.map((error) => ({
+					name: error.agent,
+					source: isProjectFile(error.filePath) ? ("project" as const) : ("user" as const),
+					filePath: error.filePath,
+					error: error.message,
+					warnings: [],
+				})),
+			].sort((a, b) => a.name.localeCompare(b.name) || a.source.localeCompare(b.source));
+
+			if (entries.length === 0) {
+				ctx.ui.notify("No agents found in ~/.pi/agent/agents or .pi/agents.", "info");
+				return;
+			}
+			const choices = entries.map(formatAgentDiagnosticLine);
+			if (!ctx.hasUI) {
+				ctx.ui.notify(choices.join("\n"), "info");
+				return;
+			}
+
+			const selected = await ctx.ui.select("Subagent definitions (select for details):", choices);
+			if (!selected) return;
+			const entry = entries[choices.indexOf(selected)];
+			if (!entry) return;
+
+			const action = await ctx.ui.select(`${entry.name} (${entry.source})`, ["Show details", "Open file"]);
+			if (action === "Show details") {
+				ctx.ui.notify(formatAgentDiagnostic(entry), entry.error ? "error" : entry.warnings.length > 0 ? "warning" : "info");
+			} else if (action === "Open file") {
+				let content: string;
+				try {
+					content = fs.readFileSync(entry.filePath, "utf-8");
+				} catch (err: any) {
+					ctx.ui.notify(`Cannot read ${entry.filePath}: ${err?.message ?? err}`, "error");
+					return;
+				}
+				const edited = await ctx.ui.editor(`${entry.filePath}${entry.warnings.length > 0 || entry.error ? ` — ${entry.error ?? entry.warnings[0]}` : ""}`, content);
+				if (edited !== undefined && edited !== content) {
+					fs.writeFileSync(entry.filePath, edited, "utf-8");
+					ctx.ui.notify(`Saved ${entry.filePath}. Changes apply to the next subagent call.`, "info");
+				}
+			}
+		},
+	});
+
+	// --- /subagent-sessions command: manage durable sessions ---
+	pi.registerCommand("subagent-sessions", {
+		description: "List, inspect, rename or delete resumable subagent sessions",
+		handler: async (_args, ctx) => {
+			const sessions = listSessions();
+			if (sessions.length === 0) {
+				ctx.ui.notify("No subagent sessions.", "info");
+				return;
+			}
+
+			const choices = sessions.map(formatSessionLine);
+			const selected = await ctx.ui.select("Subagent sessions (select to manage):", choices);
+			if (!selected) return;
+			const session = sessions[choices.indexOf(selected)];
+			if (!session) return;
+
+			const action = await ctx.ui.select(`${session.id} (${session.agent})`, ["Inspect", "Rename", "Delete"]);
+			if (action === "Inspect") {
+				const summary = summarizeSessionFile(session);
+				const lines = [
+					`Session: ${session.id}`,
+					`Agent: ${session.agent}`,
+					`Title: ${session.title}`,
+					`Cwd: ${session.cwd}`,
+					`Created: ${new Date(session.createdAt).toLocaleString()}`,
+					`Last used: ${new Date(session.lastUsedAt).toLocaleString()}`,
+					`File: ${session.sessionFilePath}`,
+				];
+				if (summary) {
+					lines.push(`Messages: ${summary.messageCount} (${summary.turns} assistant turns)`);
+					if (summary.lastOutput) lines.push("", "Last output:", summary.lastOutput);
+				} else {
+					lines.push("(session file missing)");
+				}
+				ctx.ui.notify(lines.join("\n"), "info");
+			} else if (action === "Rename") {
+				const title = await ctx.ui.input("New session title:", session.title);
+				if (title?.trim()) {
+					renameSession(session.id, title);
+					ctx.ui.notify(`Renamed ${session.id} to "${title.trim()}"`, "info");
+				}
+			} else if (action === "Delete") {
+				if (isSessionInUse(session.id)) {
+					ctx.ui.notify(`Session ${session.id} is in use and cannot be deleted right now.`, "error");
+					return;
+				}
+				const ok = await ctx.ui.confirm("Delete subagent session?", `${session.id} (${session.agent}): ${session.title}`);
+				if (ok) {
+					deleteSession(session.id);
+					ctx.ui.notify(`Deleted ${session.id}`, "info");
+				}
+			}
+		},
+	});
+
+	// --- /subagent-runs command: browse the run archive ---
+	pi.registerCommand("subagent-runs", {
+		description: "List, search and open archived subagent runs (optionally: /subagent-runs <search text>)",
+		handler: async (args, ctx) => {
+			let query = args?.trim() ?? "";
+			while (true) {
+				const runs = query ? searchRuns(ctx.cwd, query) : listRuns(ctx.cwd);
+				if (runs.length === 0) {
+					ctx.ui.notify(
+						query
+							? `No archived runs matching "${query}".`
+							: "No archived runs. Runs are archived to .pi/subagent-runs/ as subagents finish.",
+						"info",
+					);
+					return;
+				}
+
+				const searchChoice = "🔍 Search...";
+				const choices = [searchChoice, ...runs.map(formatRunLine)];
+				const title = query ? `Runs matching "${query}" (${runs.length}):` : `Subagent runs (${runs.length}):`;
+				const selected = await ctx.ui.select(title, choices);
+				if (!selected) return;
+				if (selected === searchChoice) {
+					const input = await ctx.ui.input("Search runs (task, output, tool calls):", query);
+					if (input === undefined) return;
+					query = input.trim();
+					continue;
+				}
+
+				const run = runs[choices.indexOf(selected) - 1];
+				if (!run) return;
+				const markdown = readRunMarkdown(run);
+				ctx.ui.notify(markdown ? `${markdown}\n\n${run.markdownPath}` : `Failed to read run: ${run.markdownPath}`, markdown ? "info" : "error");
+				return;
+			}
+		},
+	});
+
+	// --- /subagent-usage command: session totals by agent and model, with CSV/JSON export ---
+	pi.registerCommand("subagent-usage", {
+		description: "Show subagent token usage and cost for this session by agent and model (export: /subagent-usage csv|json [file])",
+		handler: async (args, ctx) => {
+			const [format, ...rest] = (args?.trim() ?? "").split(/\s+/).filter(Boolean);
+			if (!format) {
+				ctx.ui.notify(formatUsageDashboard(usageEntries), "info");
+				return;
+			}
+			if (format !== "csv" && format !== "json") {
+				ctx.ui.notify(`Unknown export format "${format}". Use csv or json.`, "error");
+				return;
+			}
+			if (usageEntries.length === 0) {
+				ctx.ui.notify("No subagent usage recorded in this session yet.", "info");
+				return;
+			}
+
+			const defaultPath = path.join(".pi", "subagent-usage", `${ctx.sessionManager.getSessionId()}.${format}`);
+			const target = path.resolve(ctx.cwd, rest.join(" ") || defaultPath);
+			try {
+				fs.mkdirSync(path.dirname(target), { recursive: true });
+				fs.writeFileSync(target, format === "csv" ? formatUsageCsv(usageEntries) : formatUsageJson(usageEntries));
+			} catch (err) {
+				ctx.ui.notify(`Failed to export usage: ${err instanceof Error ? err.message : String(err)}`, "error");
+				return;
+			}
+			ctx.ui.notify(`Exported ${usageEntries.length} run${usageEntries.length === 1 ? "" : "s"} to ${target}`, "info");
+		},
+	});
+
+	// --- /subagent-cache command: inspect or clear the result cache ---
+	pi.registerCommand("subagent-cache", {
+		description: "Show the subagent result cache of this project, or clear it (/subagent-cache clear)",
+		handler: async (args, ctx) => {
+			const action = args?.trim() ?? "";
+			if (action === "clear") {
+				const removed = clearCache(ctx.cwd);
+				ctx.ui.notify(`Removed ${removed} cached result${removed === 1 ? "" : "s"}.`, "info");
+				return;
+			}
+			if (action) {
+				ctx.ui.notify(`Unknown action "${action}". Use /subagent-cache or /subagent-cache clear.`, "error");
+				return;
+			}
+			const stats = getCacheStats(ctx.cwd);
+			ctx.ui.notify(
+				stats.entries === 0
+					? 'The result cache is empty. Pass cache: "readwrite" to the subagent tool to fill it.'
+					: `${stats.entries} cached result${stats.entries === 1 ? "" : "s"} (${(stats.bytes / 1024).toFixed(1)} KB) in .pi/subagent-cache/\nClear with /subagent-cache clear`,
+				"info",
+			);
+		},
+	});
+
+	// --- /subagent-branches command: merge, cherry-pick or discard worktree branches ---
+	pi.registerCommand("subagent-branches", {
+		description: "Review branches left by worktree-isolated subagent runs",
+		handler: async (_args, ctx) => {
+			const listing = listSubagentBranches(ctx.cwd);
+			if (!listing) {
+				ctx.ui.notify("Not inside a git repository.", "error");
+				return;
+			}
+			if (listing.branches.length === 0) {
+				ctx.ui.notify("No subagent branches.", "info");
+				return;
+			}
+
+			const choices = listing.branches.map((b) => `${b.branch}  ${b.subject}${b.diffStat ? `  (${b.diffStat})` : ""}`);
+			const selected = await ctx.ui.select("Subagent branches (select to manage):", choices);
+			if (!selected) return;
+			const branch = listing.branches[choices.indexOf(selected)];
+			if (!branch) return;
+
+			const action = await ctx.ui.select(branch.branch, ["Merge", "Cherry-pick", "Discard"]);
+			const decision: BranchDecision | undefined =
+				action === "Merge" ? "merge" : action === "Cherry-pick" ? "cherry-pick" : action === "Discard" ? "discard" : undefined;
+			if (!decision) return;
+			if (decision === "discard" && !(await ctx.ui.confirm("Discard branch?", `${branch.branch} will be deleted.`))) return;
+
+			const applied = applyBranchDecision(listing.repoRoot, branch.branch, decision);
+			if (applied.ok) ctx.ui.notify(`${action}: ${branch.branch}`, "info");
+			else ctx.ui.notify(`Could not ${decision} ${branch.branch}: ${applied.error}`, "error");
+		},
+	});
+
+	// --- Workflows: each workflow file becomes a slash command that runs its steps as written ---
+
+	interface WorkflowMessageDetails {
+		workflow: string;
+		isError?: boolean;
+		details: SubagentDetails;
+	}
+
+	async function runWorkflowCommand(registered: WorkflowConfig, args: string, ctx: ExtensionCommandContext): Promise<void> {
+		// Read again so edits apply without a reload
+		const workflow = loadWorkflowFile(registered.filePath, registered.source);
+		if (typeof workflow === "string") {
+			ctx.ui.notify(`Workflow ${registered.filePath}: ${workflow}`, "error");
+			return;
+		}
+		if (
+			workflow.source === "project" &&
+			ctx.hasUI &&
+			!(await ctx.ui.confirm(
+				"Run project workflow?",
+				`Workflow: ${workflow.name}\nSource: ${workflow.filePath}\n\nProject workflows are repo-controlled. Only continue for trusted repositories.`,
+			))
+		) {
+			return;
+		}
+
+		const { vars, missing } = resolveWorkflowVars(workflow, args);
+		for (const name of missing) {
+			const value = ctx.hasUI ? await ctx.ui.input(`/${workflow.name}: ${name}`) : undefined;
+			if (!value?.trim()) {
+				const hint = name === workflow.input ? ` Usage: /${workflow.name} <${name}>` : "";
+				ctx.ui.notify(`/${workflow.name} needs a value for ${name}.${hint}`, "error");
+				return;
+			}
+			vars[name] = value.trim();
+		}
+
+		const params: any = { ...workflow.params, vars };
+		const agentScope: AgentScope = params.agentScope ?? "user";
+		const discovery = agentRegistry.discover(ctx.cwd, agentScope);
+		if (!(await confirmProjectAgentsIfNeeded(params, discovery.agents, discovery, agentScope, ctx))) {
+			ctx.ui.notify(`/${workflow.name} canceled: project-local agents not approved.`, "info");
+			return;
+		}
+
+		if (workflow.background) {
+			const job = startBackgroundJob(params, ctx.cwd, discovery.agents, agentScope, discovery, workflow.mode, ctx);
+			ctx.ui.notify(`/${workflow.name} started as background job ${job.id}. Follow it with /jobs.`, "info");
+			return;
+		}
+
+		await ctx.waitForIdle();
+		const widgetKey = `subagent-workflow-${workflow.name}`;
+		const title = `⏳ /${workflow.name}${ctx.hasUI ? " (Esc to cancel)" : ""}`;
+		const onUpdate: OnUpdateCallback = (partial) => {
+			const details = partial.details as SubagentDetails | undefined;
+			if (details) ctx.ui.setWidget(widgetKey, [title, ...summarizeProgress(details, true).split("\n")]);
+		};
+		// Esc cancels the run, except while an approval dialog has the keyboard
+		const abortController = new AbortController();
+		let approving = false;
+		const stopListening = ctx.hasUI
+			? ctx.ui.onTerminalInput((data) => {
+					if (approving || abortController.signal.aborted || !matchesKey(data, Key.escape)) return undefined;
+					abortController.abort();
+					ctx.ui.setWidget(widgetKey, [`⏹ /${workflow.name} canceling…`]);
+					return { consume: true };
+				})
+			: undefined;
+		const approve: ChainApprover | undefined = ctx.hasUI
+			? async (request) => {
+					approving = true;
+					try {
+						return (await promptChainApproval(ctx.ui, request)) ?? null;
+					} finally {
+						approving = false;
+					}
+				}
+			: undefined;
+		let result: Awaited<ReturnType<typeof runForegroundExecution>>;
+		try {
+			result = await runForegroundExecution(
+				params, ctx.cwd, discovery.agents, agentScope, discovery, createDetailsFactory(agentScope, discovery.projectAgentsDir),
+				abortController.signal, onUpdate, undefined, undefined, approve, { registry: ctx.modelRegistry, current: ctx.model },
+			);
+		} catch (err: any) {
+			if (abortController.signal.aborted) ctx.ui.notify(`/${workflow.name} canceled.`, "info");
+			else ctx.ui.notify(`/${workflow.name} failed: ${err?.message ?? err}`, "error");
+			return;
+		} finally {
+			stopListening?.();
+			ctx.ui.setWidget(widgetKey, undefined);
+		}
+		await reviewWorktreeBranches(result.details.results, ctx);
+
+		// The result goes into the conversation, so the next prompt can build on it
+		const content = appendWorktreeReport(result.content, result.details.results);
+		pi.sendMessage<WorkflowMessageDetails>({
+			customType: WORKFLOW_MESSAGE_TYPE,
+			content: content.map((part) => part.text).join("\n\n"),
+			display: true,
+			details: { workflow: workflow.name, isError: result.isError, details: result.details },
+		});
+	}
+
+	pi.registerMessageRenderer<WorkflowMessageDetails>(WORKFLOW_MESSAGE_TYPE, (message, { expanded }, theme) => {
+		const text = typeof message.content === "string"
+			? message.content
+			: message.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+		const results = message.details?.details.results ?? [];
+		const icon = message.details?.isError ? theme.fg("error", "✗") : theme.fg("success", "✓");
+		const steps = `${results.length} ${message.details?.details.mode === "map" ? "run" : "step"}${results.length === 1 ? "" : "s"}`;
+		const usage = formatUsageStats({
+			input: results.reduce((sum, r) => sum + r.usage.input, 0),
+			output: results.reduce((sum, r) => sum + r.usage.output, 0),
+			cacheRead: results.reduce((sum, r) => sum + r.usage.cacheRead, 0),
+			cacheWrite: results.reduce((sum, r) => sum + r.usage.cacheWrite, 0),
+			cost: results.reduce((sum, r) => sum + r.usage.cost, 0),
+		});
+		const container = new Container();
+		container.addChild(
+			new Text(
+				`${icon} ${theme.fg("toolTitle", theme.bold(`/${message.details?.workflow ?? "workflow"}`))}${theme.fg("muted", ` ${steps}`)}${usage ? theme.fg("dim", ` ${usage}`) : ""}`,
+				0,
+				0,
+			),
+		);
+		if (expanded) {
+			container.addChild(new Spacer(1));
+			container.addChild(new Markdown(text.trim(), 0, 0, getMarkdownTheme()));
+		} else {
+			const lines = text.trim().split("\n");
+			const preview = lines.slice(0, COLLAPSED_ITEM_COUNT).join("\n");
+			container.addChild(new Text(theme.fg("toolOutput", preview), 0, 0));
+			if (lines.length > COLLAPSED_ITEM_COUNT) container.addChild(new Text(theme.fg("muted", "(Ctrl+O to expand)"), 0, 0));
+		}
+		return container;
+	});
+
+	// Workflows of the session's project become commands when the session starts (before
+	// commands are offered for completion); what failed to load is reported there once
+	const registeredWorkflows = new Set<string>();
+	let workflowsLoaded = false;
+	pi.on("session_start", async (_event, ctx) => {
+		if (workflowsLoaded) return;
+		workflowsLoaded = true;
+		const { workflows, errors } = discoverWorkflows(ctx.cwd);
+		const problems = errors.map((error) => `${error.filePath}: ${error.message}`);
+		for (const workflow of workflows) {
+			if (OWN_COMMANDS.has(workflow.name)) {
+				problems.push(`${workflow.filePath}: /${workflow.name} is a subagent command, skipped`);
+				continue;
+			}
+			registeredWorkflows.add(workflow.name);
+			pi.registerCommand(workflow.name, {
+				description: `${workflow.description} (${workflow.source} workflow)`,
+				handler: (args, ctx) => runWorkflowCommand(workflow, args, ctx),
+			});
+		}
+		if (problems.length > 0 && ctx.hasUI) {
+			ctx.ui.notify(`Some workflows were not loaded (see /subagent-workflows):\n${problems.join("\n")}`, "warning");
+		}
+	});
+
+	pi.registerCommand("subagent-workflows", {
+		description: "List the workflows available as slash commands, and workflow files that failed to load",
+		handler: async (_args, ctx) => {
+			const { workflows, errors } = discoverWorkflows(ctx.cwd);
+			if (workflows.length === 0 && errors.length === 0) {
+				ctx.ui.notify("No workflows. Add them to ~/.pi/agent/workflows or .pi/workflows.", "info");
+				return;
 			}
-			ctx.ui.notify(lines.join("\n"), "info");
+			const lines = workflows.map((w) =>
+				OWN_COMMANDS.has(w.name)
+					? `✗ ${w.filePath}: /${w.name} is a subagent command, skipped`
+					: `/${w.name} (${w.source}, ${w.mode}): ${w.description}${registeredWorkflows.has(w.name) ? "" : " — new, available after /reload"}`,
+			);
+			for (const error of errors) lines.push(`✗ ${error.filePath}: ${error.message}`);
+			ctx.ui.notify(lines.join("\n"), lines.some((line) => line.startsWith("✗")) ? "warning" : "info");
 		},
 	});
 
@@ -1043,16 +3451,22 @@ export default function (pi: ExtensionAPI) {
 		label: "Subagent Jobs",
 		description: [
 			"Query background subagent jobs.",
-			"Actions: list (show all jobs), get (retrieve result or latest progress by job ID), clear (remove finished jobs).",
+			"Actions: list (show all jobs), get (retrieve result or latest progress by job ID), clear (remove finished jobs),",
+			"rerun (start an interrupted or failed job again from its original parameters), cancel (abort a running or paused job).",
+			"Single-agent jobs can be steered: send (queue a follow-up message, delivered when the child's current turn ends;",
+			"sending to a paused job resumes it) and pause (stop after the current turn, keeping the session).",
+			"Chain jobs take send (delivered to the step running) but cannot be paused.",
+			"Jobs are journaled to disk, so results remain available after a reload.",
 		].join(" "),
 		parameters: Type.Object({
-			action: StringEnum(["list", "get", "clear"] as const, {
+			action: StringEnum(["list", "get", "clear", "rerun", "cancel", "send", "pause"] as const, {
 				description: "Action to perform",
 			}),
-			jobId: Type.Optional(Type.String({ description: 'Job ID to retrieve (for "get" action)' })),
+			jobId: Type.Optional(Type.String({ description: 'Job ID (for all actions except "list" and "clear")' })),
+			message: Type.Optional(Type.String({ description: 'Follow-up message for the job (for "send")' })),
 		}),
 
-		async execute(_toolCallId, params) {
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
 			if (params.action === "list") {
 				if (backgroundJobs.size === 0) {
 					return { content: [{ type: "text", text: "No background jobs." }] };
@@ -1075,6 +3489,12 @@ export default function (pi: ExtensionAPI) {
 						isError: true,
 					};
 				}
+				if (job.approval) {
+					const text =
+						`Job ${job.id} is waiting for the user to approve step ${job.approval.step} (${job.approval.agent}). ` +
+						"Only the user can approve it (in /jobs). Continue with other work.";
+					return { content: [{ type: "text", text }] };
+				}
 				if (job.status === "running") {
 					const elapsed = ((Date.now() - job.startedAt) / 1000).toFixed(1);
 					let text = `Job ${job.id} is still running (${elapsed}s elapsed). Agent: ${job.agent}, Task: ${job.task}`;
@@ -1101,14 +3521,47 @@ export default function (pi: ExtensionAPI) {
 						isError: job.result.isError,
 					};
 				}
+				if (job.status === "interrupted") {
+					let text = `Job ${job.id} was interrupted before it finished. Use action "rerun" to start it again.`;
+					if (job.lastSummary) text += `\n\nLast progress:\n${job.lastSummary}`;
+					return { content: [{ type: "text", text }] };
+				}
 				return { content: [{ type: "text", text: `Job ${job.id}: ${job.status} (no result data)` }] };
 			}
 
+			if (params.action === "rerun") {
+				if (!params.jobId) {
+					return { content: [{ type: "text", text: "Missing jobId parameter." }], isError: true };
+				}
+				const job = backgroundJobs.get(params.jobId);
+				if (!job) {
+					return { content: [{ type: "text", text: `Job not found: ${params.jobId}` }], isError: true };
+				}
+				const outcome = await rerunJob(job, ctx);
+				return { content: [{ type: "text", text: outcome.text }], isError: outcome.isError };
+			}
+
+			if (params.action === "cancel" || params.action === "send" || params.action === "pause") {
+				if (!params.jobId) {
+					return { content: [{ type: "text", text: "Missing jobId parameter." }], isError: true };
+				}
+				const job = backgroundJobs.get(params.jobId);
+				if (!job) {
+					return { content: [{ type: "text", text: `Job not found: ${params.jobId}` }], isError: true };
+				}
+				const outcome =
+					params.action === "cancel" ? cancelJob(job)
+					: params.action === "pause" ? pauseJob(job)
+					: await sendToJob(job, params.message ?? "", ctx);
+				updateWidget(ctx);
+				return { content: [{ type: "text", text: outcome.text }], isError: outcome.isError };
+			}
+
 			if (params.action === "clear") {
 				let cleared = 0;
 				for (const [id, job] of backgroundJobs.entries()) {
-					if (job.status !== "running") {
-						backgroundJobs.delete(id);
+					if (!isJobActive(job) && job.status !== "paused") {
+						removeJob(id);
 						cleared++;
 					}
 				}
@@ -1121,6 +3574,7 @@ export default function (pi: ExtensionAPI) {
 		renderCall(args, theme) {
 			let text = theme.fg("toolTitle", theme.bold("subagent_jobs ")) + theme.fg("accent", args.action || "?");
 			if (args.jobId) text += theme.fg("dim", ` ${args.jobId}`);
+			if (args.message) text += `\n  ${theme.fg("dim", formatPreviewText(args.message))}`;
 			return new Text(text, 0, 0);
 		},
 
@@ -1136,34 +3590,41 @@ export default function (pi: ExtensionAPI) {
 		label: "Subagent",
 		description: [
 			"Delegate tasks to specialized subagents with isolated context.",
-			"Modes: single (agent + task), parallel (tasks array), chain (sequential with {previous} placeholder).",
+			"Modes: single (agent + task), parallel (tasks array), chain (sequential with {{previous}} placeholder),",
+			"graph (DAG of {id, agent, task, dependsOn} nodes; reference upstream outputs with {{steps.<id>}}),",
+			"map (one agent over items or an itemsFrom glob via a taskTemplate with {{item}}, optionally reduced by another agent).",
+			"Tasks are templates: {{name}} inserts a value from vars, {{git.branch}} / {{git.diff}} the repository state, and filters trim values,",
+			"e.g. {{previous | section Plan | truncate 4000}} (filters: truncate N, lines N, section <heading>, trim, default <text>).",
+			"Chain steps support when conditions (skip unless met) and loops (repeatUntil / loopTo with maxIterations), e.g. review/fix loops.",
+			"Oversized chain handoffs are trimmed to fit the next step's model (per step: maxHandoffTokens, handoffSections, handoffModel).",
 			'Default agent scope is "user" (from ~/.pi/agent/agents).',
 			'To enable project-local agents in .pi/agents, set agentScope: "both" (or "project").',
 			"Set background: true to run in background and continue chatting.",
 			"To resume a previous conversation with a subagent, pass the sessionId from the previous result.",
 			"Use the model parameter to override an agent's default model on the fly.",
+			"Use maxCost, maxTurns, maxTokens and timeoutMs to cap a run; a run that crosses a limit stops with stopReason budget_exceeded.",
+			"Use retries, retryDelayMs and fallbackModels (per call/step, or in agent frontmatter) to retry failed runs; every attempt is recorded in the result details.",
+			'Set isolation: "worktree" (per task/step, or in agent frontmatter) to run an agent in its own git worktree; its changes come back as a branch with a diff.',
+			"Agents with an outputSchema return validated JSON in details.results[].structured; pass it on with {{previous.json}} or {{steps.<id>.json}}.",
+			'Set cache: "readwrite" to reuse results of read-only agents for an identical task at an unchanged git tree (results marked cached).',
 		].join(" "),
 		parameters: SubagentParams,
 
 		async execute(_toolCallId, params, signal, onUpdate, ctx) {
 			const agentScope: AgentScope = params.agentScope ?? "user";
-			const discovery = discoverAgents(ctx.cwd, agentScope);
+			const discovery = agentRegistry.discover(ctx.cwd, agentScope);
 			const agents = discovery.agents;
 			const confirmProjectAgents = params.confirmProjectAgents ?? true;
 
 			const hasChain = (params.chain?.length ?? 0) > 0;
 			const hasTasks = (params.tasks?.length ?? 0) > 0;
+			const hasGraph = (params.graph?.length ?? 0) > 0;
+			const hasMap = Boolean(params.map);
 			const hasSingle = Boolean(params.agent && params.task);
-			const modeCount = Number(hasChain) + Number(hasTasks) + Number(hasSingle);
-
-			const makeDetails =
-				(mode: "single" | "parallel" | "chain") =>
-				(results: SingleResult[]): SubagentDetails => ({
-					mode,
-					agentScope,
-					projectAgentsDir: discovery.projectAgentsDir,
-					results,
-				});
+			const modeCount = Number(hasChain) + Number(hasTasks) + Number(hasGraph) + Number(hasMap) + Number(hasSingle);
+			const mode: SubagentMode = hasChain ? "chain" : hasTasks ? "parallel" : hasGraph ? "graph" : hasMap ? "map" : "single";
+
+			const makeDetails = createDetailsFactory(agentScope, discovery.projectAgentsDir);
 
 			if (modeCount !== 1) {
 				const available = agents.map((a) => `${a.name} (${a.source})`).join(", ") || "none";
@@ -1178,134 +3639,70 @@ export default function (pi: ExtensionAPI) {
 				};
 			}
 
+			notifyAgentLoadErrors(discovery.errors, ctx);
+			const agentErrors = findRequestedAgentErrors(params, discovery.errors);
+			if (agentErrors.length > 0) {
+				return {
+					content: [{ type: "text", text: agentErrors.map(formatAgentLoadError).join("\n") }],
+					details: makeDetails(mode)([]),
+					isError: true,
+				};
+			}
+
 			if (params.sessionId && !hasSingle) {
 				return {
 					content: [
 						{
 							type: "text",
-							text: "sessionId can only be used with single mode (agent + task). It is not supported for chain or parallel.",
+							text: "sessionId can only be used with single mode (agent + task). It is not supported for chain, parallel, graph or map.",
 						},
 					],
-					details: makeDetails(hasChain ? "chain" : "parallel")([]),
+					details: makeDetails(mode)([]),
 				};
 			}
 
-			if ((agentScope === "project" || agentScope === "both") && confirmProjectAgents && ctx.hasUI) {
-				const requestedAgentNames = new Set<string>();
-				if (params.chain) for (const step of params.chain) requestedAgentNames.add(step.agent);
-				if (params.tasks) for (const t of params.tasks) requestedAgentNames.add(t.agent);
-				if (params.agent) requestedAgentNames.add(params.agent);
-
-				const projectAgentsRequested = Array.from(requestedAgentNames)
-					.map((name) => agents.find((a) => a.name === name))
-					.filter((a): a is AgentConfig => a?.source === "project");
-
-				if (projectAgentsRequested.length > 0) {
-					const names = projectAgentsRequested.map((a) => a.name).join(", ");
-					const dir = discovery.projectAgentsDir ?? "(unknown)";
-					const ok = await ctx.ui.confirm(
-						"Run project-local agents?",
-						`Agents: ${names}\nSource: ${dir}\n\nProject agents are repo-controlled. Only continue for trusted repositories.`,
-					);
-					if (!ok)
-						return {
-							content: [{ type: "text", text: "Canceled: project-local agents not approved." }],
-							details: makeDetails(hasChain ? "chain" : hasTasks ? "parallel" : "single")([]),
-						};
-				}
+			if (confirmProjectAgents && !(await confirmProjectAgentsIfNeeded(params, agents, discovery, agentScope, ctx))) {
+				return {
+					content: [{ type: "text", text: "Canceled: project-local agents not approved." }],
+					details: makeDetails(mode)([]),
+				};
 			}
 
 			// --- Background mode: dispatch and return immediately ---
 			if (params.background) {
-				const jobId = generateJobId();
-				evictOldJobs();
-				const mode = hasChain ? "chain" : hasTasks ? "parallel" : "single";
-				const agentName = params.agent || (params.chain?.[0]?.agent) || (params.tasks?.[0]?.agent) || "unknown";
-				const taskDesc = params.task || (params.chain?.[0]?.task) || (params.tasks?.map((t) => t.agent).join(", ")) || "unknown";
-
-				const abortController = new AbortController();
-				const job: BackgroundJob = {
-					id: jobId,
-					status: "running",
-					agent: agentName,
-					task: taskDesc,
-					mode,
-					startedAt: Date.now(),
-					abortController,
-				};
-				backgroundJobs.set(jobId, job);
-				updateWidget(ctx);
-
-				// Clone params without background flag, run asynchronously
-				const fgParams = { ...params, background: false };
-				const capturedCwd = ctx.cwd;
-
-				const recordProgress: OnUpdateCallback = (partial) => {
-					const details = partial.details as SubagentDetails | undefined;
-					let summary = details ? summarizeProgress(details, true) : "";
-					if (!summary) {
-						const textPart = partial.content?.find((part) => part.type === "text") as
-							| { type: "text"; text: string }
-							| undefined;
-						if (textPart?.text) summary = formatPreviewText(textPart.text);
-					}
-					if (summary) {
-						job.lastSummary = summary;
-						job.lastUpdateAt = Date.now();
-					}
-				};
-
-				// Fire and forget — run the same execute logic in background
-				(async () => {
-					try {
-						const bgResult = await runForegroundExecution(
-							fgParams, capturedCwd, agents, agentScope, discovery, makeDetails, abortController.signal, recordProgress, fgParams.sessionId,
-						);
-						job.status = bgResult.isError ? "failed" : "completed";
-						job.finishedAt = Date.now();
-						job.result = {
-							content: bgResult.content as Array<{ type: "text"; text: string }>,
-							details: bgResult.details as SubagentDetails,
-							isError: bgResult.isError,
-						};
-					} catch (err: any) {
-						job.status = "failed";
-						job.finishedAt = Date.now();
-						job.result = {
-							content: [{ type: "text", text: `Background job error: ${err?.message ?? err}` }],
-							details: makeDetails(mode)([]),
-							isError: true,
-						};
-					}
-					updateWidget(latestCtx);
-					// Notify user
-					const elapsed = ((job.finishedAt! - job.startedAt) / 1000).toFixed(1);
-					const icon = job.status === "completed" ? "✓" : "✗";
-					if (latestCtx?.ui?.notify) {
-						latestCtx.ui.notify(
-							`${icon} Background job ${jobId} ${job.status} (${elapsed}s)\nAgent: ${job.agent}\nUse subagent_jobs with action "get" and jobId "${jobId}" to retrieve the result.`,
-							job.status === "completed" ? "info" : "error",
-						);
-					}
-				})();
-
+				const job = startBackgroundJob(params, ctx.cwd, agents, agentScope, discovery, mode, ctx);
 				return {
 					content: [
 						{
 							type: "text",
-							text: `Background job started: ${jobId}\nAgent: ${agentName}, Mode: ${mode}\nA notification will appear when the job finishes. Continue with other work and retrieve results after the notification.`,
+							text: `Background job started: ${job.id}\nAgent: ${job.agent}, Mode: ${mode}\nA notification will appear when the job finishes. Continue with other work and retrieve results after the notification.`,
 						},
 					],
 					details: makeDetails(mode)([]),
 				};
 			}
 
-			return runForegroundExecution(params, ctx.cwd, agents, agentScope, discovery, makeDetails, signal, onUpdate, params.sessionId);
+			// A dismissed approval dialog stops the chain like "Abort chain"
+			const approve: ChainApprover | undefined = ctx.hasUI
+				? async (request) => (await promptChainApproval(ctx.ui, request)) ?? null
+				: undefined;
+			const result = await runForegroundExecution(
+				params, ctx.cwd, agents, agentScope, discovery, makeDetails, signal, onUpdate, params.sessionId, undefined, approve,
+				{ registry: ctx.modelRegistry, current: ctx.model },
+			);
+			await reviewWorktreeBranches(result.details.results, ctx);
+			return { ...result, content: appendWorktreeReport(result.content, result.details.results) };
 		},
 
-		renderCall(args, theme) {
+		renderCall(args, theme, context) {
 			const scope: AgentScope = args.agentScope ?? "user";
 			const bgTag = args.background ? theme.fg("warning", " [bg]") : "";
+			// Agents as discovered by execute in the call's cwd; no file system access while rendering
+			const knownAgents = agentRegistry.peek(context.cwd, scope)?.agents ?? [];
+			const settingsTag = (name: string | undefined) => {
+				const settings = formatAgentRunSettings(knownAgents.find((a) => a.name === name));
+				return settings ? theme.fg("dim", ` [${settings}]`) : "";
+			};
 			if (args.chain && args.chain.length > 0) {
 				let text =
 					theme.fg("toolTitle", theme.bold("subagent ")) +
@@ -1313,16 +3710,22 @@ export default function (pi: ExtensionAPI) {
 					theme.fg("muted", ` [${scope}]`) + bgTag;
 				for (let i = 0; i < Math.min(args.chain.length, 3); i++) {
 					const step = args.chain[i];
-					// Clean up {previous} placeholder for display
-					const cleanTask = step.task.replace(/\{previous\}/g, "").trim();
+					// Clean up {{previous}} placeholders for display
+					const cleanTask = step.task.replace(/\{\{\s*previous[^}]*\}\}|\{previous(\.json)?\}/g, "").trim();
 					const preview = cleanTask.length > 40 ? `${cleanTask.slice(0, 40)}...` : cleanTask;
 					const modelTag = step.model ? theme.fg("warning", ` [${step.model}]`) : "";
+					const flowTag =
+						(step.when ? theme.fg("muted", " [when]") : "") +
+						(step.loopTo !== undefined || step.repeatUntil ? theme.fg("muted", " [loop]") : "") +
+						(step.approve ? theme.fg("warning", " [approve]") : "");
 					text +=
 						"\n  " +
-						theme.fg("muted", `${i + 1}.`) +
+						theme.fg("muted", `${i + 1}.${step.name ? ` ${step.name}` : ""}`) +
 						" " +
 						theme.fg("accent", step.agent) +
 						modelTag +
+						settingsTag(step.agent) +
+						flowTag +
 						theme.fg("dim", ` ${preview}`);
 				}
 				if (args.chain.length > 3) text += `\n  ${theme.fg("muted", `... +${args.chain.length - 3} more`)}`;
@@ -1336,11 +3739,41 @@ export default function (pi: ExtensionAPI) {
 				for (const t of args.tasks.slice(0, 3)) {
 					const preview = t.task.length > 40 ? `${t.task.slice(0, 40)}...` : t.task;
 					const modelTag = t.model ? theme.fg("warning", ` [${t.model}]`) : "";
-					text += `\n  ${theme.fg("accent", t.agent)}${modelTag}${theme.fg("dim", ` ${preview}`)}`;
+					text += `\n  ${theme.fg("accent", t.agent)}${modelTag}${settingsTag(t.agent)}${theme.fg("dim", ` ${preview}`)}`;
 				}
 				if (args.tasks.length > 3) text += `\n  ${theme.fg("muted", `... +${args.tasks.length - 3} more`)}`;
 				return new Text(text, 0, 0);
 			}
+			if (args.graph && args.graph.length > 0) {
+				let text =
+					theme.fg("toolTitle", theme.bold("subagent ")) +
+					theme.fg("accent", `graph (${args.graph.length} nodes)`) +
+					theme.fg("muted", ` [${scope}]`) + bgTag;
+				for (const node of args.graph.slice(0, 4)) {
+					const deps = node.dependsOn?.length ? theme.fg("muted", ` ← ${node.dependsOn.join(", ")}`) : "";
+					const modelTag = node.model ? theme.fg("warning", ` [${node.model}]`) : "";
+					text += `\n  ${theme.fg("muted", `${node.id}:`)} ${theme.fg("accent", node.agent)}${modelTag}${settingsTag(node.agent)}${deps}`;
+				}
+				if (args.graph.length > 4) text += `\n  ${theme.fg("muted", `... +${args.graph.length - 4} more`)}`;
+				return new Text(text, 0, 0);
+			}
+			if (args.map) {
+				const { map } = args;
+				const source = map.items ? `${map.items.length} items` : map.itemsFrom ? map.itemsFrom.glob : "...";
+				const concurrencyTag = map.concurrency ? theme.fg("muted", ` ×${map.concurrency}`) : "";
+				const modelTag = map.model ? theme.fg("warning", ` [${map.model}]`) : "";
+				const preview = map.taskTemplate.length > 60 ? `${map.taskTemplate.slice(0, 60)}...` : map.taskTemplate;
+				let text =
+					theme.fg("toolTitle", theme.bold("subagent ")) +
+					theme.fg("accent", `map (${source})`) +
+					theme.fg("muted", ` [${scope}]`) + bgTag + concurrencyTag;
+				text += `\n  ${theme.fg("accent", map.agent)}${modelTag}${settingsTag(map.agent)}${theme.fg("dim", ` ${preview}`)}`;
+				if (map.reduce) {
+					const reduceModelTag = map.reduce.model ? theme.fg("warning", ` [${map.reduce.model}]`) : "";
+					text += `\n  ${theme.fg("muted", "reduce:")} ${theme.fg("accent", map.reduce.agent)}${reduceModelTag}${settingsTag(map.reduce.agent)}`;
+				}
+				return new Text(text, 0, 0);
+			}
 			const agentName = args.agent || "...";
 			const preview = args.task ? (args.task.length > 60 ? `${args.task.slice(0, 60)}...` : args.task) : "...";
 			const resumeTag = args.sessionId ? theme.fg("accent", ` ↩ ${args.sessionId}`) : "";
@@ -1348,7 +3781,7 @@ export default function (pi: ExtensionAPI) {
 			let text =
 				theme.fg("toolTitle", theme.bold("subagent ")) +
 				theme.fg("accent", agentName) +
-				theme.fg("muted", ` [${scope}]`) + bgTag + modelTag + resumeTag;
+				theme.fg("muted", ` [${scope}]`) + bgTag + modelTag + settingsTag(args.agent) + resumeTag;
 			text += `\n  ${theme.fg("dim", preview)}`;
 			return new Text(text, 0, 0);
 		},
@@ -1372,22 +3805,38 @@ export default function (pi: ExtensionAPI) {
 						const preview = expanded ? item.text : item.text.split("\n").slice(0, 3).join("\n");
 						text += `${theme.fg("toolOutput", preview)}\n`;
 					} else {
-						text += `${theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme))}\n`;
+						text += `${theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme), item.denied)}\n`;
 					}
 				}
 				return text.trimEnd();
 			};
 
+			const attemptsLabel = (r: SingleResult) =>
+				(r.attempts && r.attempts.length > 1 ? theme.fg("dim", ` (attempt ${r.attempts.length})`) : "") +
+				(r.cached ? theme.fg("muted", ` (cached ${formatAge(r.cached.createdAt)})`) : "");
+
+			const addAttempts = (container: Container, r: SingleResult) => {
+				if (r.attempts && r.attempts.length > 1) {
+					container.addChild(new Text(theme.fg("dim", `attempts:\n${formatAttempts(r.attempts)}`), 0, 0));
+				}
+			};
+
+			const addWorktreeDiff = (container: Container, r: SingleResult) => {
+				if (!r.worktree) return;
+				container.addChild(new Text(theme.fg("dim", `worktree: ${r.worktree.branch} — ${formatWorktreeOutcome(r.worktree)}`), 0, 0));
+				if (r.worktree.diff) container.addChild(new Markdown(`\`\`\`diff\n${r.worktree.diff}\n\`\`\``, 0, 0, mdTheme));
+			};
+
 			if (details.mode === "single" && details.results.length === 1) {
 				const r = details.results[0];
 				const isError = r.exitCode !== 0 || r.stopReason === "error" || r.stopReason === "aborted";
 				const icon = isError ? theme.fg("error", "✗") : theme.fg("success", "✓");
-				const displayItems = getDisplayItems(r.messages);
-				const finalOutput = getFinalOutput(r.messages);
+				const displayItems = getDisplayItems(getLiveMessages(r), r.policyViolation);
+				const finalOutput = getFinalOutput(getLiveMessages(r));
 
 				if (expanded) {
 					const container = new Container();
-					let header = `${icon} ${theme.fg("toolTitle", theme.bold(r.agent))}${theme.fg("muted", ` (${r.agentSource})`)}`;
+					let header = `${icon} ${theme.fg("toolTitle", theme.bold(r.agent))}${theme.fg("muted", ` (${r.agentSource})`)}${attemptsLabel(r)}`;
 					if (isError && r.stopReason) header += ` ${theme.fg("error", `[${r.stopReason}]`)}`;
 					container.addChild(new Text(header, 0, 0));
 					if (isError && r.errorMessage)
@@ -1404,7 +3853,7 @@ export default function (pi: ExtensionAPI) {
 							if (item.type === "toolCall")
 								container.addChild(
 									new Text(
-										theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme)),
+										theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme), item.denied),
 										0,
 										0,
 									),
@@ -1420,13 +3869,25 @@ export default function (pi: ExtensionAPI) {
 						container.addChild(new Spacer(1));
 						container.addChild(new Text(theme.fg("dim", usageStr), 0, 0));
 					}
+					if (r.structured !== undefined) {
+						container.addChild(new Text(theme.fg("dim", "output: matches outputSchema"), 0, 0));
+					}
+					if (r.readOnly && !r.readOnly.violation) {
+						container.addChild(new Text(theme.fg("dim", formatReadOnlyCheck(r.readOnly)), 0, 0));
+					}
+					if (r.cached) {
+						const saved = `stored ${formatAge(r.cached.createdAt)}, saved $${r.cached.cost.toFixed(4)}`;
+						container.addChild(new Text(theme.fg("dim", `cache: ${saved}`), 0, 0));
+					}
 					if (r.sessionId) {
 						container.addChild(new Text(theme.fg("dim", `session: ${r.sessionId}`), 0, 0));
 					}
+					addAttempts(container, r);
+					addWorktreeDiff(container, r);
 					return container;
 				}
 
-				let text = `${icon} ${theme.fg("toolTitle", theme.bold(r.agent))}${theme.fg("muted", ` (${r.agentSource})`)}`;
+				let text = `${icon} ${theme.fg("toolTitle", theme.bold(r.agent))}${theme.fg("muted", ` (${r.agentSource})`)}${attemptsLabel(r)}`;
 				if (isError && r.stopReason) text += ` ${theme.fg("error", `[${r.stopReason}]`)}`;
 				if (isError && r.errorMessage) text += `\n${theme.fg("error", `Error: ${r.errorMessage}`)}`;
 				else if (displayItems.length === 0) text += `\n${theme.fg("muted", "(no output)")}`;
@@ -1436,7 +3897,10 @@ export default function (pi: ExtensionAPI) {
 				}
 				const usageStr = formatUsageStats(r.usage, r.model);
 				if (usageStr) text += `\n${theme.fg("dim", usageStr)}`;
+				if (r.structured !== undefined) text += `\n${theme.fg("dim", "output: matches outputSchema")}`;
+				if (r.readOnly && !r.readOnly.violation) text += `\n${theme.fg("dim", formatReadOnlyCheck(r.readOnly))}`;
 				if (r.sessionId) text += `\n${theme.fg("dim", `session: ${r.sessionId}`)}`;
+				if (r.worktree) text += `\n${theme.fg("dim", `worktree: ${r.worktree.branch} — ${formatWorktreeOutcome(r.worktree)}`)}`;
 				return new Text(text, 0, 0);
 			}
 
@@ -1456,6 +3920,10 @@ export default function (pi: ExtensionAPI) {
 			if (details.mode === "chain") {
 				const successCount = details.results.filter((r) => r.exitCode === 0).length;
 				const icon = successCount === details.results.length ? theme.fg("success", "✓") : theme.fg("error", "✗");
+				const stepIcon = (r: SingleResult) =>
+					r.skipped ? theme.fg("muted", "⊘") : r.exitCode === 0 ? theme.fg("success", "✓") : theme.fg("error", "✗");
+				const stepTitle = (r: SingleResult) =>
+					`─── Step ${r.step}${r.stepName ? ` ${r.stepName}` : ""}${r.iteration ? ` #${r.iteration}` : ""}${r.approval ? ` (${r.approval === "edited" ? "approved with edits" : "approved"})` : ""}${r.handoffTrims ? " (handoff trimmed)" : ""}: `;
 
 				if (expanded) {
 					const container = new Container();
@@ -1471,26 +3939,32 @@ export default function (pi: ExtensionAPI) {
 					);
 
 					for (const r of details.results) {
-						const rIcon = r.exitCode === 0 ? theme.fg("success", "✓") : theme.fg("error", "✗");
-						const displayItems = getDisplayItems(r.messages);
-						const finalOutput = getFinalOutput(r.messages);
+						const displayItems = getDisplayItems(getLiveMessages(r), r.policyViolation);
+						const finalOutput = getFinalOutput(getLiveMessages(r));
 
 						container.addChild(new Spacer(1));
 						container.addChild(
 							new Text(
-								`${theme.fg("muted", `─── Step ${r.step}: `) + theme.fg("accent", r.agent)} ${rIcon}`,
+								`${theme.fg("muted", stepTitle(r)) + theme.fg("accent", r.agent)} ${stepIcon(r)}${attemptsLabel(r)}`,
 								0,
 								0,
 							),
 						);
+						if (r.skipped) {
+							container.addChild(new Text(theme.fg("muted", `skipped: ${r.skipped}`), 0, 0));
+							continue;
+						}
 						container.addChild(new Text(theme.fg("muted", "Task: ") + theme.fg("dim", r.task), 0, 0));
+						for (const trim of r.handoffTrims ?? []) {
+							container.addChild(new Text(theme.fg("warning", `✂ ${formatHandoffTrim(trim)}`), 0, 0));
+						}
 
 						// Show tool calls
 						for (const item of displayItems) {
 							if (item.type === "toolCall") {
 								container.addChild(
 									new Text(
-										theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme)),
+										theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme), item.denied),
 										0,
 										0,
 									),
@@ -1506,6 +3980,8 @@ export default function (pi: ExtensionAPI) {
 
 						const stepUsage = formatUsageStats(r.usage, r.model);
 						if (stepUsage) container.addChild(new Text(theme.fg("dim", stepUsage), 0, 0));
+						addAttempts(container, r);
+						addWorktreeDiff(container, r);
 					}
 
 					const usageStr = formatUsageStats(aggregateUsage(details.results));
@@ -1523,10 +3999,10 @@ export default function (pi: ExtensionAPI) {
 					theme.fg("toolTitle", theme.bold("chain ")) +
 					theme.fg("accent", `${successCount}/${details.results.length} steps`);
 				for (const r of details.results) {
-					const rIcon = r.exitCode === 0 ? theme.fg("success", "✓") : theme.fg("error", "✗");
-					const displayItems = getDisplayItems(r.messages);
-					text += `\n\n${theme.fg("muted", `─── Step ${r.step}: `)}${theme.fg("accent", r.agent)} ${rIcon}`;
-					if (displayItems.length === 0) text += `\n${theme.fg("muted", "(no output)")}`;
+					const displayItems = getDisplayItems(getLiveMessages(r), r.policyViolation);
+					text += `\n\n${theme.fg("muted", stepTitle(r))}${theme.fg("accent", r.agent)} ${stepIcon(r)}${attemptsLabel(r)}`;
+					if (r.skipped) text += `\n${theme.fg("muted", `skipped: ${r.skipped}`)}`;
+					else if (displayItems.length === 0) text += `\n${theme.fg("muted", "(no output)")}`;
 					else text += `\n${renderDisplayItems(displayItems, 5)}`;
 				}
 				const usageStr = formatUsageStats(aggregateUsage(details.results));
@@ -1535,7 +4011,10 @@ export default function (pi: ExtensionAPI) {
 				return new Text(text, 0, 0);
 			}
 
-			if (details.mode === "parallel") {
+			if (details.mode === "parallel" || details.mode === "graph") {
+				const title = details.mode === "graph" ? "graph " : "parallel ";
+				const noun = details.mode === "graph" ? "nodes" : "tasks";
+				const itemLabel = (r: SingleResult) => (r.nodeId ? `${r.nodeId}: ` : "");
 				const running = details.results.filter((r) => !r.completed).length;
 				const successCount = details.results.filter((r) => r.completed && r.exitCode === 0).length;
 				const failCount = details.results.filter((r) => r.completed && r.exitCode > 0).length;
@@ -1547,13 +4026,13 @@ export default function (pi: ExtensionAPI) {
 						: theme.fg("success", "✓");
 				const status = isRunning
 					? `${successCount + failCount}/${details.results.length} done, ${running} running`
-					: `${successCount}/${details.results.length} tasks`;
+					: `${successCount}/${details.results.length} ${noun}`;
 
 				if (expanded && !isRunning) {
 					const container = new Container();
 					container.addChild(
 						new Text(
-							`${icon} ${theme.fg("toolTitle", theme.bold("parallel "))}${theme.fg("accent", status)}`,
+							`${icon} ${theme.fg("toolTitle", theme.bold(title))}${theme.fg("accent", status)}`,
 							0,
 							0,
 						),
@@ -1561,12 +4040,12 @@ export default function (pi: ExtensionAPI) {
 
 					for (const r of details.results) {
 						const rIcon = r.exitCode === 0 ? theme.fg("success", "✓") : theme.fg("error", "✗");
-						const displayItems = getDisplayItems(r.messages);
-						const finalOutput = getFinalOutput(r.messages);
+						const displayItems = getDisplayItems(getLiveMessages(r), r.policyViolation);
+						const finalOutput = getFinalOutput(getLiveMessages(r));
 
 						container.addChild(new Spacer(1));
 						container.addChild(
-							new Text(`${theme.fg("muted", "─── ") + theme.fg("accent", r.agent)} ${rIcon}`, 0, 0),
+							new Text(`${theme.fg("muted", `─── ${itemLabel(r)}`) + theme.fg("accent", r.agent)} ${rIcon}${attemptsLabel(r)}`, 0, 0),
 						);
 						container.addChild(new Text(theme.fg("muted", "Task: ") + theme.fg("dim", r.task), 0, 0));
 
@@ -1575,7 +4054,7 @@ export default function (pi: ExtensionAPI) {
 							if (item.type === "toolCall") {
 								container.addChild(
 									new Text(
-										theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme)),
+										theme.fg("muted", "→ ") + formatToolCall(item.name, item.args, theme.fg.bind(theme), item.denied),
 										0,
 										0,
 									),
@@ -1591,6 +4070,8 @@ export default function (pi: ExtensionAPI) {
 
 						const taskUsage = formatUsageStats(r.usage, r.model);
 						if (taskUsage) container.addChild(new Text(theme.fg("dim", taskUsage), 0, 0));
+						addAttempts(container, r);
+						addWorktreeDiff(container, r);
 					}
 
 					const usageStr = formatUsageStats(aggregateUsage(details.results));
@@ -1602,7 +4083,7 @@ export default function (pi: ExtensionAPI) {
 				}
 
 				// Collapsed view (or still running)
-				let text = `${icon} ${theme.fg("toolTitle", theme.bold("parallel "))}${theme.fg("accent", status)}`;
+				let text = `${icon} ${theme.fg("toolTitle", theme.bold(title))}${theme.fg("accent", status)}`;
 				for (const r of details.results) {
 					const rIcon =
 						!r.completed
@@ -1610,8 +4091,8 @@ export default function (pi: ExtensionAPI) {
 							: r.exitCode === 0
 								? theme.fg("success", "✓")
 								: theme.fg("error", "✗");
-					const displayItems = getDisplayItems(r.messages);
-					text += `\n\n${theme.fg("muted", "─── ")}${theme.fg("accent", r.agent)} ${rIcon}`;
+					const displayItems = getDisplayItems(getLiveMessages(r), r.policyViolation);
+					text += `\n\n${theme.fg("muted", `─── ${itemLabel(r)}`)}${theme.fg("accent", r.agent)} ${rIcon}${attemptsLabel(r)}`;
 					if (displayItems.length === 0)
 						text += `\n${theme.fg("muted", !r.completed ? "(running...)" : "(no output)")}`;
 					else text += `\n${renderDisplayItems(displayItems, 5)}`;
@@ -1624,6 +4105,77 @@ export default function (pi: ExtensionAPI) {
 				return new Text(text, 0, 0);
 			}
 
+			if (details.mode === "map") {
+				const itemResults = details.results.filter((r) => !r.reduce);
+				const reduceResult = details.results.find((r) => r.reduce);
+				const isFailed = (r: SingleResult) => r.exitCode !== 0 || r.stopReason === "error" || r.stopReason === "aborted";
+				const running = details.results.filter((r) => !r.completed).length;
+				const doneCount = itemResults.filter((r) => r.completed).length;
+				const failCount = itemResults.filter((r) => r.completed && isFailed(r)).length;
+				const isRunning = running > 0;
+				const icon = isRunning
+					? theme.fg("warning", "⏳")
+					: failCount > 0 || (reduceResult && isFailed(reduceResult))
+						? theme.fg("warning", "◐")
+						: theme.fg("success", "✓");
+				const status = isRunning
+					? `${doneCount}/${itemResults.length} done, ${running} running`
+					: `${doneCount - failCount}/${itemResults.length} items`;
+				const header = `${icon} ${theme.fg("toolTitle", theme.bold("map "))}${theme.fg("accent", `${itemResults[0]?.agent ?? ""} ${status}`)}`;
+				const resultIcon = (r: SingleResult) =>
+					!r.completed ? theme.fg("warning", "⏳") : isFailed(r) ? theme.fg("error", "✗") : theme.fg("success", "✓");
+
+				if (expanded && !isRunning) {
+					const container = new Container();
+					container.addChild(new Text(header, 0, 0));
+					for (const r of [...itemResults, ...(reduceResult ? [reduceResult] : [])]) {
+						const label = r.reduce ? `reduce: ${r.agent}` : (r.mapItem ?? r.agent);
+						const finalOutput = getFinalOutput(getLiveMessages(r));
+						container.addChild(new Spacer(1));
+						container.addChild(new Text(`${theme.fg("muted", "─── ") + theme.fg("accent", label)} ${resultIcon(r)}${attemptsLabel(r)}`, 0, 0));
+						if (isFailed(r) && r.errorMessage) container.addChild(new Text(theme.fg("error", `Error: ${r.errorMessage}`), 0, 0));
+						if (finalOutput) container.addChild(new Markdown(finalOutput.trim(), 0, 0, mdTheme));
+						const itemUsage = formatUsageStats(r.usage, r.model);
+						if (itemUsage) container.addChild(new Text(theme.fg("dim", itemUsage), 0, 0));
+						addAttempts(container, r);
+						addWorktreeDiff(container, r);
+					}
+					const usageStr = formatUsageStats(aggregateUsage(details.results));
+					if (usageStr) {
+						container.addChild(new Spacer(1));
+						container.addChild(new Text(theme.fg("dim", `Total: ${usageStr}`), 0, 0));
+					}
+					return container;
+				}
+
+				// Collapsed view (or still running): one line per item
+				let text = header;
+				for (const r of itemResults.slice(0, COLLAPSED_ITEM_COUNT)) {
+					const preview = !r.completed
+						? "(running...)"
+						: isFailed(r)
+							? formatPreviewText(r.errorMessage || r.stderr || "(failed)", 80)
+							: formatPreviewText(getFinalOutput(r.messages), 80);
+					text += `\n${resultIcon(r)} ${theme.fg("accent", r.mapItem ?? "")} ${theme.fg("dim", preview)}`;
+				}
+				if (itemResults.length > COLLAPSED_ITEM_COUNT) {
+					text += `\n${theme.fg("muted", `... +${itemResults.length - COLLAPSED_ITEM_COUNT} more items`)}`;
+				}
+				if (reduceResult) {
+					const displayItems = getDisplayItems(getLiveMessages(reduceResult), reduceResult.policyViolation);
+					text += `\n\n${theme.fg("muted", "─── reduce: ")}${theme.fg("accent", reduceResult.agent)} ${resultIcon(reduceResult)}${attemptsLabel(reduceResult)}`;
+					if (displayItems.length === 0)
+						text += `\n${theme.fg("muted", !reduceResult.completed ? "(running...)" : "(no output)")}`;
+					else text += `\n${renderDisplayItems(displayItems, 5)}`;
+				}
+				if (!isRunning) {
+					const usageStr = formatUsageStats(aggregateUsage(details.results));
+					if (usageStr) text += `\n\n${theme.fg("dim", `Total: ${usageStr}`)}`;
+				}
+				if (!expanded) text += `\n${theme.fg("muted", "(Ctrl+O to expand)")}`;
+				return new Text(text, 0, 0);
+			}
+
 			const text = result.content[0];
 			return new Text(text?.type === "text" ? text.text : "(no output)", 0, 0);
 		},
@@ -0,0 +1,144 @@
+/**
+ * Background job journal
+ *
+ * Every background job is journaled to ~/.pi/agent/subagent-jobs/<id>.json as it
+ * progresses, so results survive a runtime reload or crash and can still be
+ * fetched (or re-run) afterwards. The journal is shared by every pi process; a
+ * process only loads the jobs of its own project that it owns, or that it takes
+ * over from an owner that is gone.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+/** "waiting_approval": a chain job stopped at a step with `approve: true` until the user decides */
+export type JobStatus = "running" | "waiting_approval" | "paused" | "completed" | "failed" | "cancelled" | "interrupted";
+
+export interface JobRecord<TDetails = unknown> {
+	id: string;
+	status: JobStatus;
+	agent: string;
+	task: string;
+	mode: string;
+	/** Original tool params (without `background`), used to re-run the job */
+	params: Record<string, unknown>;
+	cwd: string;
+	/** Process that ran the job; running jobs of dead processes are restored as interrupted */
+	ownerPid: number;
+	startedAt: number;
+	finishedAt?: number;
+	lastUpdateAt?: number;
+	lastSummary?: string;
+	/** Session kept by a paused job; a message sent to the job continues it */
+	sessionId?: string;
+	result?: {
+		content: Array<{ type: "text"; text: string }>;
+		details: TDetails;
+		isError?: boolean;
+	};
+}
+
+export function getJobJournalDir(): string {
+	return path.join(os.homedir(), ".pi", "agent", "subagent-jobs");
+}
+
+function getJobPath(id: string): string {
+	return path.join(getJobJournalDir(), `${id.replace(/[^\w.-]+/g, "_")}.json`);
+}
+
+export function jobRecordExists(id: string): boolean {
+	return fs.existsSync(getJobPath(id));
+}
+
+export function writeJobRecord<TDetails>(job: JobRecord<TDetails>): void {
+	try {
+		const dir = getJobJournalDir();
+		fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+		// Copy known fields only — live jobs carry runtime state (abort controllers) that must not be serialized
+		const record: JobRecord<TDetails> = {
+			id: job.id,
+			status: job.status,
+			agent: job.agent,
+			task: job.task,
+			mode: job.mode,
+			params: job.params,
+			cwd: job.cwd,
+			ownerPid: job.ownerPid,
+			startedAt: job.startedAt,
+			finishedAt: job.finishedAt,
+			lastUpdateAt: job.lastUpdateAt,
+			lastSummary: job.lastSummary,
+			sessionId: job.sessionId,
+			result: job.result,
+		};
+		const filePath = getJobPath(job.id);
+		const tmpPath = `${filePath}.${process.pid}.tmp`;
+		fs.writeFileSync(tmpPath, JSON.stringify(record), { encoding: "utf-8", mode: 0o600 });
+		fs.renameSync(tmpPath, filePath);
+	} catch (err) {
+		// Non-fatal: the job keeps running in memory
+		console.error(`[subagent] Failed to journal job ${job.id}: ${err}`);
+	}
+}
+
+export function deleteJobRecord(id: string): void {
+	try {
+		fs.rmSync(getJobPath(id), { force: true });
+	} catch {
+		/* ignore */
+	}
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (err: any) {
+		return err?.code === "EPERM";
+	}
+}
+
+/**
+ * Load the journaled jobs of the project in `cwd` for this process.
+ * Jobs of other projects, and jobs still owned by another live pi process, are
+ * skipped. Jobs of an owner that went away are taken over by this process;
+ * those that were running (or waiting for approval) are returned as
+ * "interrupted".
+ */
+export function readJobRecords<TDetails>(cwd: string): JobRecord<TDetails>[] {
+	const dir = getJobJournalDir();
+	let files: string[];
+	try {
+		files = fs.readdirSync(dir).filter((f) => f.endsWith(".json"));
+	} catch {
+		return [];
+	}
+
+	const projectDir = path.resolve(cwd);
+	const records: JobRecord<TDetails>[] = [];
+	for (const file of files) {
+		let record: JobRecord<TDetails>;
+		try {
+			record = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+		} catch {
+			continue;
+		}
+		if (!record?.id || !record.status) continue;
+		if (!record.cwd || path.resolve(record.cwd) !== projectDir) continue;
+		if (record.ownerPid === process.pid) {
+			records.push(record);
+			continue;
+		}
+		if (isProcessAlive(record.ownerPid)) continue;
+
+		record.ownerPid = process.pid;
+		if (record.status === "running" || record.status === "waiting_approval") {
+			record.status = "interrupted";
+			record.finishedAt = record.lastUpdateAt ?? record.startedAt;
+		}
+		writeJobRecord(record);
+		records.push(record);
+	}
+	return records.sort((a, b) => a.startedAt - b.startedAt);
+}
@@ -0,0 +1,171 @@
+/**
+ * Map mode: one agent over a list of inputs
+ *
+ * Pure helpers for expanding the item list and building tasks.
+ *   - `items`: literal strings
+ *   - `itemsFrom.glob`: files and directories matching a glob, relative to its base
+ *     directory (`*`, `?`, `[...]` and `{a,b}` within a segment, `**` across segments)
+ *   - `taskTemplate`: a task template (see template.ts) with `{{item}}` and
+ *     `{{index}}` (1-based) filled in per item
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { listTemplateVariables, renderTemplate, type TemplateInput, type TemplateResult } from "./template.js";
+
+export const DEFAULT_MAP_CONCURRENCY = 4;
+export const MAX_MAP_CONCURRENCY = 16;
+/** Safety limit on the number of items, however they are produced */
+export const MAX_MAP_ITEMS = 200;
+
+/** Never descended into while expanding globs */
+const IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+export interface MapItemsSource {
+	items?: string[];
+	itemsFrom?: { glob: string; cwd?: string };
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.+^$()|\\]/g, "\\$&");
+}
+
+/** Regex for a single path segment; `{a,b}` alternatives may not contain "/" */
+function segmentToRegex(segment: string): RegExp {
+	let source = "";
+	for (let i = 0; i < segment.length; i++) {
+		const char = segment[i];
+		if (char === "*") source += "[^/]*";
+		else if (char === "?") source += "[^/]";
+		else if (char === "[") {
+			const end = segment.indexOf("]", i + 1);
+			if (end === -1) {
+				source += "\\[";
+				continue;
+			}
+			const body = segment.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+			source += `[${body}]`;
+			i = end;
+		} else if (char === "{") {
+			const end = segment.indexOf("}", i + 1);
+			if (end === -1) {
+				source += "\\{";
+				continue;
+			}
+			const alternatives = segment.slice(i + 1, end).split(",").map((alt) => segmentToRegex(alt).source.slice(1, -1));
+			source += `(?:${alternatives.join("|")})`;
+			i = end;
+		} else source += escapeRegex(char);
+	}
+	return new RegExp(`^${source}$`);
+}
+
+function listDir(dir: string): fs.Dirent[] {
+	try {
+		return fs.readdirSync(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+}
+
+function isDirectory(entry: fs.Dirent, fullPath: string): boolean {
+	if (entry.isDirectory()) return true;
+	if (!entry.isSymbolicLink()) return false;
+	try {
+		return fs.statSync(fullPath).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Paths under `baseDir` matching `pattern`, relative to `baseDir`, sorted.
+ * Dotfiles only match segments that start with "."; .git and node_modules are
+ * only entered when named literally. Stops collecting past `limit` matches.
+ */
+export function expandGlob(pattern: string, baseDir: string, limit = MAX_MAP_ITEMS + 1): string[] {
+	const segments = pattern.split("/").filter((s) => s && s !== ".");
+	const matches = new Set<string>();
+
+	const walk = (dir: string, rel: string, index: number) => {
+		if (matches.size >= limit) return;
+		if (index === segments.length) {
+			if (rel) matches.add(rel);
+			return;
+		}
+		const segment = segments[index];
+		if (segment === "**") {
+			// Zero directories, then one more level
+			walk(dir, rel, index + 1);
+			for (const entry of listDir(dir)) {
+				const full = path.join(dir, entry.name);
+				if (entry.name.startsWith(".") || IGNORED_DIRS.has(entry.name) || !isDirectory(entry, full)) continue;
+				walk(full, rel ? `${rel}/${entry.name}` : entry.name, index);
+			}
+			return;
+		}
+		if (!/[*?[{]/.test(segment)) {
+			const full = path.join(dir, segment);
+			if (fs.existsSync(full)) walk(full, rel ? `${rel}/${segment}` : segment, index + 1);
+			return;
+		}
+		const regex = segmentToRegex(segment);
+		const isLast = index === segments.length - 1;
+		for (const entry of listDir(dir)) {
+			if (entry.name.startsWith(".") && !segment.startsWith(".")) continue;
+			if (IGNORED_DIRS.has(entry.name) || !regex.test(entry.name)) continue;
+			const full = path.join(dir, entry.name);
+			if (!isLast && !isDirectory(entry, full)) continue;
+			walk(full, rel ? `${rel}/${entry.name}` : entry.name, index + 1);
+		}
+	};
+
+	walk(baseDir, "", 0);
+	return Array.from(matches).sort();
+}
+
+/** The items to map over, or an error message */
+export function resolveMapItems(source: MapItemsSource, cwd: string): string[] | string {
+	if (source.items && source.itemsFrom) return "Use either items or itemsFrom, not both.";
+	let items: string[];
+	if (source.items) items = source.items;
+	else if (source.itemsFrom) {
+		const { glob } = source.itemsFrom;
+		if (!glob.trim()) return "itemsFrom.glob is empty.";
+		if (path.isAbsolute(glob) || glob.split("/").includes("..")) {
+			return `itemsFrom.glob must be relative (set itemsFrom.cwd to change the base directory): ${glob}`;
+		}
+		const baseDir = path.resolve(cwd, source.itemsFrom.cwd ?? ".");
+		items = expandGlob(glob, baseDir);
+		if (items.length === 0) return `itemsFrom.glob "${glob}" matched nothing in ${baseDir}.`;
+	} else return "Provide items or itemsFrom.";
+
+	if (items.length === 0) return "items is empty.";
+	if (items.length > MAX_MAP_ITEMS) return `Too many map items (${source.items ? items.length : `over ${MAX_MAP_ITEMS}`}). Max is ${MAX_MAP_ITEMS}.`;
+	return items;
+}
+
+export function renderMapTask(template: string, item: string, index: number, base: TemplateInput): TemplateResult {
+	return renderTemplate(template, { ...base, values: { ...base.values, item, index: String(index + 1) } });
+}
+
+export interface MapOutput {
+	item: string;
+	/** Final output, or the error of a failed item */
+	output: string;
+	failed: boolean;
+}
+
+/** One "## <item>" section per item */
+export function formatMapOutputs(outputs: MapOutput[]): string {
+	return outputs.map(({ item, output, failed }) => `## ${item}${failed ? " (failed)" : ""}\n\n${output || "(no output)"}`).join("\n\n");
+}
+
+/** Task for the reduce agent: `{{outputs}}` in its template, or the outputs appended */
+export function buildReduceTask(template: string | undefined, outputs: MapOutput[], base: TemplateInput): TemplateResult {
+	const sections = formatMapOutputs(outputs);
+	const task = template ?? "Combine the results below into one report.";
+	const rendered = renderTemplate(task, { ...base, values: { ...base.values, outputs: sections } });
+	if (!rendered.ok || listTemplateVariables(task).includes("outputs")) return rendered;
+	return { ok: true, text: `${rendered.text}\n\n${sections}` };
+}
@@ -0,0 +1,20 @@
+/**
+ * Tool call policy guard for subagent runs
+ *
+ * Loaded into the child for agents with a `policy`, through the module that
+ * writePolicyGuard() puts next to the run's temp files. Blocks every call that
+ * breaks the policy before the tool runs; the parent sees the same call in the
+ * child's events, reports the violation and stops the child.
+ */
+
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { checkToolCall, type ToolPolicy } from "./policy.js";
+
+export function createPolicyGuard(policy: ToolPolicy): (pi: ExtensionAPI) => void {
+	return (pi) => {
+		pi.on("tool_call", async (event, ctx) => {
+			const reason = checkToolCall(policy, event.toolName, event.input as Record<string, unknown>, ctx.cwd);
+			if (reason) return { block: true, reason: `Blocked by the agent's policy: ${reason}` };
+		});
+	};
+}
@@ -0,0 +1,172 @@
+/**
+ * Tool call policies
+ *
+ * An agent's `policy` is enforced in the child (policy-guard.ts), which blocks
+ * a call that breaks it before the tool runs. The parent checks the same calls
+ * as the child's events arrive, to report the first violation and stop the child.
+ *   - `commands`: regexes for bash commands. A command is split at `&&`, `||`,
+ *     `;`, `|` and newlines; every part must match an `allow` entry (when given),
+ *     and no part (nor the whole command) may match a `deny` entry
+ *   - `paths`: globs for the path arguments of read/write/edit/ls/find/grep
+ *     (`*`, `?`, `[...]`, `{a,b}`, `**` across directories). Paths inside the
+ *     run's cwd are matched relative to it, others by their absolute path
+ * `deny` always wins over `allow`.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const POLICY_GUARD_PATH = path.join(__dirname, "policy-guard.ts");
+
+export interface PolicyRules {
+	allow?: string[];
+	deny?: string[];
+}
+
+export interface ToolPolicy {
+	commands?: PolicyRules;
+	paths?: PolicyRules;
+}
+
+export interface PolicyViolation {
+	toolCallId: string;
+	toolName: string;
+	reason: string;
+}
+
+/** Tools whose `path` argument is checked, and the path they use when it is omitted */
+const PATH_TOOLS: Record<string, string | undefined> = {
+	read: undefined,
+	write: undefined,
+	edit: undefined,
+	ls: ".",
+	find: ".",
+	grep: ".",
+};
+
+const POLICY_KEYS = new Set(["commands", "paths"]);
+const RULE_KEYS = new Set(["allow", "deny"]);
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.+^$()|\\]/g, "\\$&");
+}
+
+function globSource(glob: string): string {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (glob.startsWith("**/", i)) {
+			source += "(?:.*/)?";
+			i += 2;
+		} else if (glob.startsWith("**", i)) {
+			source += ".*";
+			i += 1;
+		} else if (char === "*") source += "[^/]*";
+		else if (char === "?") source += "[^/]";
+		else if (char === "[" && glob.indexOf("]", i + 1) !== -1) {
+			const end = glob.indexOf("]", i + 1);
+			source += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+			i = end;
+		} else if (char === "{" && glob.indexOf("}", i + 1) !== -1) {
+			const end = glob.indexOf("}", i + 1);
+			source += `(?:${glob.slice(i + 1, end).split(",").map(globSource).join("|")})`;
+			i = end;
+		} else source += escapeRegex(char);
+	}
+	return source;
+}
+
+export function matchesGlob(glob: string, filePath: string): boolean {
+	return new RegExp(`^${globSource(glob.replace(/^\.\//, ""))}$`).test(filePath);
+}
+
+/** Shape problems and invalid regexes, or null */
+export function validatePolicy(value: unknown): string | null {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return "expected an object with commands and/or paths";
+	for (const [key, rules] of Object.entries(value)) {
+		if (!POLICY_KEYS.has(key)) return `unknown key "${key}" (expected commands, paths)`;
+		if (!rules || typeof rules !== "object" || Array.isArray(rules)) return `${key} must be an object with allow and/or deny`;
+		for (const [ruleKey, list] of Object.entries(rules)) {
+			if (!RULE_KEYS.has(ruleKey)) return `unknown key "${key}.${ruleKey}" (expected allow, deny)`;
+			if (!Array.isArray(list) || !list.every((entry) => typeof entry === "string")) return `${key}.${ruleKey} must be a list of strings`;
+			if (key !== "commands") continue;
+			for (const pattern of list) {
+				try {
+					new RegExp(pattern);
+				} catch {
+					return `invalid regex in commands.${ruleKey}: ${pattern}`;
+				}
+			}
+		}
+	}
+	return null;
+}
+
+/** Split a shell command into the commands it chains (quotes are not parsed) */
+export function splitCommand(command: string): string[] {
+	return command
+		.split(/&&|\|\||;|\||\n/)
+		.map((part) => part.trim())
+		.filter(Boolean);
+}
+
+function checkCommand(rules: PolicyRules, command: string): string | null {
+	const parts = splitCommand(command);
+	for (const pattern of rules.deny ?? []) {
+		const regex = new RegExp(pattern);
+		if (regex.test(command) || parts.some((part) => regex.test(part))) return `command matches denied /${pattern}/`;
+	}
+	if (rules.allow) {
+		const allowed = rules.allow.map((pattern) => new RegExp(pattern));
+		const unmatched = parts.find((part) => !allowed.some((regex) => regex.test(part)));
+		if (unmatched !== undefined) return `command "${unmatched}" is not allowed`;
+	}
+	return null;
+}
+
+/** The path as policies see it: relative inside `cwd` ("." for cwd itself), absolute outside */
+export function policyPath(rawPath: string, cwd: string): string {
+	const expanded = rawPath === "~" || rawPath.startsWith("~/") ? path.join(os.homedir(), rawPath.slice(1)) : rawPath;
+	const absolute = path.resolve(cwd, expanded);
+	const relative = path.relative(cwd, absolute);
+	if (!relative) return ".";
+	if (relative.startsWith("..") || path.isAbsolute(relative)) return absolute.split(path.sep).join("/");
+	return relative.split(path.sep).join("/");
+}
+
+function checkPath(rules: PolicyRules, rawPath: string, cwd: string): string | null {
+	const target = policyPath(rawPath, cwd);
+	const denied = (rules.deny ?? []).find((glob) => matchesGlob(glob, target));
+	if (denied) return `path ${target} matches denied ${denied}`;
+	if (rules.allow && !rules.allow.some((glob) => matchesGlob(glob, target))) return `path ${target} is not allowed`;
+	return null;
+}
+
+/** Why the call breaks the policy, or null when it is allowed */
+export function checkToolCall(policy: ToolPolicy, toolName: string, args: Record<string, unknown>, cwd: string): string | null {
+	if (toolName === "bash" && policy.commands) {
+		return checkCommand(policy.commands, typeof args.command === "string" ? args.command : "");
+	}
+	if (toolName in PATH_TOOLS && policy.paths) {
+		const rawPath = args.path ?? args.file_path ?? PATH_TOOLS[toolName];
+		if (typeof rawPath === "string") return checkPath(policy.paths, rawPath, cwd);
+	}
+	return null;
+}
+
+/**
+ * Write an extension into `dir` that loads the policy guard with this policy,
+ * for the child's --extension list. Returns its path.
+ */
+export function writePolicyGuard(dir: string, policy: ToolPolicy): string {
+	const filePath = path.join(dir, "policy-guard.ts");
+	const source = [
+		`import { createPolicyGuard } from ${JSON.stringify(POLICY_GUARD_PATH)};`,
+		"",
+		`export default createPolicyGuard(${JSON.stringify(policy)});`,
+		"",
+	].join("\n");
+	fs.writeFileSync(filePath, source, { encoding: "utf-8", mode: 0o600 });
+	return filePath;
+}
@@ -0,0 +1,29 @@
+/**
+ * Read-only guard for subagent runs
+ *
+ * Loaded into the child pi process (via --extension) for agents declared with
+ * `readOnly: true`. Blocks the file-writing tools and any bash command outside
+ * plan mode's read-only allowlist.
+ */
+
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { isSafeCommand } from "../plan-mode/utils.js";
+
+const WRITE_TOOLS = new Set(["write", "edit"]);
+
+export default function (pi: ExtensionAPI) {
+	pi.on("tool_call", async (event) => {
+		if (WRITE_TOOLS.has(event.toolName)) {
+			return { block: true, reason: `Read-only agent: the ${event.toolName} tool is disabled.` };
+		}
+		if (event.toolName !== "bash") return;
+
+		const command = event.input.command as string;
+		if (!isSafeCommand(command)) {
+			return {
+				block: true,
+				reason: `Read-only agent: command blocked (not allowlisted). Use read-only commands only.\nCommand: ${command}`,
+			};
+		}
+	});
+}
@@ -0,0 +1,138 @@
+/**
+ * Read-only enforcement for agents declared with `readOnly: true`
+ *
+ * Two layers:
+ *   - readonly-guard.ts is loaded into the child and blocks writes as they happen
+ *   - the working tree is snapshotted before and after the run; any difference
+ *     is reported as a violation (catches whatever the guard could not see).
+ *     Runs of this process that may write to the same checkout are tracked;
+ *     when one overlaps a read-only run, its changes cannot be told apart and
+ *     the check is skipped
+ */
+
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+export const READONLY_GUARD_PATH = path.join(__dirname, "readonly-guard.ts");
+const MAX_REPORTED_PATHS = 10;
+/**
+ * The extension's own output in the project (.pi/subagent-runs, -cache, -usage),
+ * at any depth. Sibling runs write there at any time, so it is left out of
+ * every snapshot.
+ */
+const OWN_OUTPUT_EXCLUDE = ":(exclude,glob)**/.pi/subagent-*/**";
+
+export interface TreeSnapshot {
+	head: string;
+	/** Tree hash of the whole working tree (tracked and untracked, minus ignored files and the extension's own output) */
+	tree: string;
+	/** `git status --porcelain` lines */
+	status: string[];
+}
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): string {
+	return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], env }).trim();
+}
+
+/**
+ * Snapshot the working tree containing `cwd` without touching the real index:
+ * everything is staged into a throwaway copy of it and written as a tree.
+ * Returns null outside a git repository.
+ */
+export function snapshotWorkingTree(cwd: string): TreeSnapshot | null {
+	let tmpDir: string | undefined;
+	try {
+		const root = git(cwd, ["rev-parse", "--show-toplevel"]);
+		let head = "";
+		try {
+			head = git(root, ["rev-parse", "HEAD"]);
+		} catch {
+			/* no commits yet */
+		}
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-snapshot-"));
+		const indexPath = path.join(tmpDir, "index");
+		const realIndex = path.resolve(root, git(root, ["rev-parse", "--git-path", "index"]));
+		// Start from the real index so unchanged files are not re-hashed
+		if (fs.existsSync(realIndex)) fs.copyFileSync(realIndex, indexPath);
+		const env = { ...process.env, GIT_INDEX_FILE: indexPath };
+		git(root, ["add", "-A", "--", ".", OWN_OUTPUT_EXCLUDE], env);
+		const tree = git(root, ["write-tree"], env);
+		const status = git(root, ["status", "--porcelain", "--untracked-files=all", "--", ".", OWN_OUTPUT_EXCLUDE])
+			.split("\n")
+			.filter(Boolean);
+		return { head, tree, status };
+	} catch {
+		return null;
+	} finally {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+	}
+}
+
+interface WriterActivity {
+	/** Runs that may write, going on now */
+	active: number;
+	/** Such runs ever started */
+	started: number;
+}
+
+/** Writer activity by repository root (or directory, outside git) */
+const writerActivity = new Map<string, WriterActivity>();
+
+function getWriterActivity(cwd: string): WriterActivity {
+	let key: string;
+	try {
+		key = git(cwd, ["rev-parse", "--show-toplevel"]);
+	} catch {
+		key = path.resolve(cwd);
+	}
+	let activity = writerActivity.get(key);
+	if (!activity) {
+		activity = { active: 0, started: 0 };
+		writerActivity.set(key, activity);
+	}
+	return activity;
+}
+
+/** Record a run that may write in `cwd`'s checkout; call the returned function when it ends */
+export function trackWritingRun(cwd: string): () => void {
+	const activity = getWriterActivity(cwd);
+	activity.active++;
+	activity.started++;
+	let ended = false;
+	return () => {
+		if (ended) return;
+		ended = true;
+		activity.active--;
+	};
+}
+
+/**
+ * Start watching `cwd`'s checkout for writing runs. The returned function tells
+ * whether one was going on at any time since.
+ */
+export function watchForWritingRuns(cwd: string): () => boolean {
+	const activity = getWriterActivity(cwd);
+	const { active, started } = activity;
+	return () => active > 0 || activity.active > 0 || activity.started !== started;
+}
+
+/** Describe how the tree changed between two snapshots, or null if it did not */
+export function describeTreeChanges(before: TreeSnapshot, after: TreeSnapshot): string | null {
+	if (before.head === after.head && before.tree === after.tree) return null;
+	const parts: string[] = [];
+	if (before.head !== after.head) parts.push(`HEAD moved from ${before.head.slice(0, 8) || "(none)"} to ${after.head.slice(0, 8)}`);
+	const previous = new Set(before.status);
+	const changed = after.status.filter((line) => !previous.has(line));
+	const reverted = before.status.filter((line) => !after.status.includes(line));
+	const paths = [...changed, ...reverted.map((line) => `${line} (reverted)`)];
+	if (paths.length > 0) {
+		const shown = paths.slice(0, MAX_REPORTED_PATHS).join(", ");
+		parts.push(`changed: ${shown}${paths.length > MAX_REPORTED_PATHS ? `, +${paths.length - MAX_REPORTED_PATHS} more` : ""}`);
+	} else if (before.tree !== after.tree) {
+		// Same status letters, different content (e.g. a file that was already modified)
+		parts.push("contents of already-modified files changed");
+	}
+	return parts.join("; ");
+}
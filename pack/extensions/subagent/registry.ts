@@ -0,0 +1,204 @@
+/**
+ * Agent registry: cached discovery with hot reload
+ *
+ * Parsed agents are cached per (project agents dir, scope) and reused across
+ * calls. The user and project agent directories (plus their partials/ and the
+ * real directories behind symlinked agent files, as created by /install) are
+ * watched; any change drops the cache and reports which agents changed. A
+ * directory that does not exist yet is watched through its nearest existing
+ * parent until it appears.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	type AgentConfig,
+	type AgentDiscoveryResult,
+	type AgentScope,
+	discoverAgents,
+	findNearestProjectAgentsDir,
+	getUserAgentsDir,
+	PARTIALS_DIR,
+} from "./agents.js";
+
+/** Editors write files in several steps; wait for them to settle */
+const RELOAD_DEBOUNCE_MS = 150;
+
+/** Fields compared to describe what changed in a reloaded agent */
+const TRACKED_FIELDS: Array<[keyof AgentConfig, string]> = [
+	["description", "description"],
+	["model", "model"],
+	["thinkingLevel", "thinking level"],
+	["tools", "tools"],
+	["systemPrompt", "prompt"],
+	["extends", "parent"],
+	["outputSchema", "output schema"],
+	["isolation", "isolation"],
+	["fallbackModels", "fallback models"],
+	["warnings", "warnings"],
+];
+
+export interface AgentChange {
+	name: string;
+	source: "user" | "project";
+	kind: "added" | "removed" | "reloaded";
+	/** Changed fields (reloaded agents only) */
+	fields: string[];
+}
+
+export interface AgentRegistry {
+	discover(cwd: string, scope: AgentScope): AgentDiscoveryResult;
+	/** The result of an earlier discover() for this cwd, without touching the file system (for renders) */
+	peek(cwd: string, scope: AgentScope): AgentDiscoveryResult | undefined;
+	dispose(): void;
+}
+
+export function formatAgentChange(change: AgentChange): string {
+	const label = `agent ${change.name}${change.source === "project" ? " (project)" : ""}`;
+	if (change.kind !== "reloaded") return `${label} ${change.kind}`;
+	return `${label} reloaded${change.fields.length > 0 ? ` (${change.fields.join(", ")} changed)` : ""}`;
+}
+
+function diffAgents(before: AgentConfig[], after: AgentConfig[]): AgentChange[] {
+	const key = (agent: AgentConfig) => `${agent.source}:${agent.name}`;
+	const previous = new Map(before.map((agent) => [key(agent), agent]));
+	const changes: AgentChange[] = [];
+	for (const agent of after) {
+		const old = previous.get(key(agent));
+		previous.delete(key(agent));
+		if (!old) {
+			changes.push({ name: agent.name, source: agent.source, kind: "added", fields: [] });
+			continue;
+		}
+		const fields = TRACKED_FIELDS.filter(([field]) => JSON.stringify(old[field]) !== JSON.stringify(agent[field])).map(
+			([, label]) => label,
+		);
+		if (fields.length > 0) changes.push({ name: agent.name, source: agent.source, kind: "reloaded", fields });
+	}
+	for (const agent of previous.values()) changes.push({ name: agent.name, source: agent.source, kind: "removed", fields: [] });
+	return changes;
+}
+
+/** Directories whose changes can affect the agents loaded from `dir` */
+function watchTargets(dir: string, result: AgentDiscoveryResult): string[] {
+	const dirs = new Set([dir]);
+	const partials = path.join(dir, PARTIALS_DIR);
+	const files = [...result.agents, ...result.shadowed, ...result.errors]
+		.map((entry) => entry.filePath)
+		.filter((filePath) => path.dirname(filePath) === dir);
+	for (const entry of [partials, ...files]) {
+		try {
+			const real = fs.realpathSync(entry);
+			// Symlinked agent files: watch the directory they really live in
+			dirs.add(entry === partials ? real : path.dirname(real));
+		} catch {
+			/* missing — nothing to follow */
+		}
+	}
+	return Array.from(dirs);
+}
+
+interface DirWatch {
+	watcher: fs.FSWatcher;
+	/** The directory itself, or its nearest existing parent while it is missing */
+	watched: string;
+}
+
+function findExistingDir(dir: string): string | null {
+	let current = dir;
+	while (!fs.existsSync(current)) {
+		const parent = path.dirname(current);
+		if (parent === current) return null;
+		current = parent;
+	}
+	return current;
+}
+
+interface CacheEntry {
+	cwd: string;
+	scope: AgentScope;
+	result: AgentDiscoveryResult;
+}
+
+export function createAgentRegistry(onChange: (changes: AgentChange[]) => void): AgentRegistry {
+	const cache = new Map<string, CacheEntry>();
+	const watchers = new Map<string, DirWatch>();
+	/** "<scope>:<cwd>" → cache key, as last resolved by discover() */
+	const keysByCwd = new Map<string, string>();
+	let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+	const reload = () => {
+		reloadTimer = undefined;
+		const changes = new Map<string, AgentChange>();
+		const all = (result: AgentDiscoveryResult) => [...result.agents, ...result.shadowed];
+		for (const entry of cache.values()) {
+			const fresh = discoverAgents(entry.cwd, entry.scope);
+			for (const change of diffAgents(all(entry.result), all(fresh))) changes.set(`${change.source}:${change.name}`, change);
+			entry.result = fresh;
+			watchAll(fresh);
+		}
+		if (changes.size > 0) onChange(Array.from(changes.values()));
+	};
+
+	const scheduleReload = () => {
+		if (reloadTimer) clearTimeout(reloadTimer);
+		reloadTimer = setTimeout(reload, RELOAD_DEBOUNCE_MS);
+	};
+
+	const watch = (dir: string) => {
+		const watched = findExistingDir(dir);
+		const existing = watchers.get(dir);
+		if (existing && existing.watched === watched) return;
+		// The directory appeared or went away: move the watch
+		existing?.watcher.close();
+		watchers.delete(dir);
+		if (!watched) return;
+		// Watching a parent, only the entry on the way to the directory matters
+		const next = watched === dir ? undefined : path.relative(watched, dir).split(path.sep)[0];
+		try {
+			const watcher = fs.watch(watched, { persistent: false }, (_event, filename) => {
+				if (!next || !filename || filename.toString() === next) scheduleReload();
+			});
+			watcher.on("error", () => {
+				watcher.close();
+				if (watchers.get(dir)?.watcher === watcher) watchers.delete(dir);
+				// Usually the directory was removed; the reload watches for it to come back
+				scheduleReload();
+			});
+			watchers.set(dir, { watcher, watched });
+		} catch {
+			/* unreadable; retried on the next reload */
+		}
+	};
+
+	const watchAll = (result: AgentDiscoveryResult) => {
+		for (const dir of [getUserAgentsDir(), result.projectAgentsDir]) {
+			if (dir) for (const target of watchTargets(dir, result)) watch(target);
+		}
+	};
+
+	return {
+		discover(cwd, scope) {
+			// Key by the project agents dir, not cwd, so every cwd inside one project shares an entry
+			const key = `${scope}:${findNearestProjectAgentsDir(cwd) ?? ""}`;
+			keysByCwd.set(`${scope}:${cwd}`, key);
+			const cached = cache.get(key);
+			if (cached) return cached.result;
+			const result = discoverAgents(cwd, scope);
+			cache.set(key, { cwd, scope, result });
+			watchAll(result);
+			return result;
+		},
+		peek(cwd, scope) {
+			const key = keysByCwd.get(`${scope}:${cwd}`);
+			return key === undefined ? undefined : cache.get(key)?.result;
+		},
+		dispose() {
+			if (reloadTimer) clearTimeout(reloadTimer);
+			for (const { watcher } of watchers.values()) watcher.close();
+			watchers.clear();
+			keysByCwd.clear();
+			cache.clear();
+		},
+	};
+}
@@ -0,0 +1,61 @@
+/**
+ * Retry and fallback-model policy for subagent runs
+ *
+ * Each model in [primary, ...fallbackModels] gets 1 + retries attempts, in order.
+ * Retries of the same model back off exponentially from retryDelayMs; switching
+ * to a fallback model happens immediately.
+ */
+
+const DEFAULT_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export interface RetryPolicy {
+	retries?: number;
+	retryDelayMs?: number;
+	fallbackModels?: string[];
+}
+
+export interface PlannedAttempt {
+	/** undefined = the agent's default model */
+	model: string | undefined;
+	/** Wait before starting this attempt */
+	delayMs: number;
+}
+
+/** Step settings win over agent defaults, field by field */
+export function resolveRetryPolicy(step: RetryPolicy, agent: RetryPolicy): RetryPolicy {
+	return {
+		retries: step.retries ?? agent.retries,
+		retryDelayMs: step.retryDelayMs ?? agent.retryDelayMs,
+		fallbackModels: step.fallbackModels ?? agent.fallbackModels,
+	};
+}
+
+export function planAttempts(policy: RetryPolicy, primaryModel: string | undefined): PlannedAttempt[] {
+	const retries = Math.max(0, Math.floor(policy.retries ?? 0));
+	const baseDelay = policy.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+	const models = [primaryModel, ...(policy.fallbackModels ?? []).filter((m) => m && m !== primaryModel)];
+
+	const attempts: PlannedAttempt[] = [];
+	for (const model of models) {
+		for (let i = 0; i <= retries; i++) {
+			const delayMs = i === 0 ? 0 : Math.min(baseDelay * 2 ** (i - 1), MAX_RETRY_DELAY_MS);
+			attempts.push({ model, delayMs });
+		}
+	}
+	return attempts;
+}
+
+/** Sleep that resolves early (without throwing) when the signal aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	if (ms <= 0 || signal?.aborted) return Promise.resolve();
+	return new Promise((resolve) => {
+		const timer = setTimeout(done, ms);
+		function done() {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		}
+		signal?.addEventListener("abort", done, { once: true });
+	});
+}
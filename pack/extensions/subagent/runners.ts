@@ -0,0 +1,308 @@
+/**
+ * Subagent runners: how one configured agent run is executed
+ *
+ *   - "process" (default): spawns the pi CLI in JSON mode. Each run gets its own
+ *     process, environment and cwd. The binary is the --subagent-pi-binary flag,
+ *     else $PI_SUBAGENT_BINARY, else `pi` on PATH.
+ *   - "sdk": runs the agent inside this process through the pi SDK. No process
+ *     startup, but it shares this process: agent `env` and `args` do not apply,
+ *     and the subagent tool itself is not available to the child.
+ *
+ * Agents pick one with `runner:` in their frontmatter. More runners can be
+ * added with registerRunner(), e.g. createScriptedRunner(), a fake that replays
+ * canned events so runs can be tested without a model.
+ */
+
+import { spawn } from "node:child_process";
+import * as fs from "node:fs";
+import type { ThinkingLevel } from "@mariozechner/pi-agent-core";
+import {
+	type AgentSession,
+	createAgentSessionFromServices,
+	createAgentSessionServices,
+	getAgentDir,
+	SessionManager,
+} from "@mariozechner/pi-coding-agent";
+import { THINKING_SUFFIX_PATTERN } from "./agents.js";
+
+export const DEFAULT_RUNNER = "process";
+const STOP_GRACE_MS = 5000;
+
+/** Everything a runner needs to run one agent prompt */
+export interface RunSpec {
+	cwd: string;
+	env: NodeJS.ProcessEnv;
+	/** "provider/id" or id, optionally with a ":<thinking>" suffix */
+	model?: string;
+	thinkingLevel?: string;
+	tools?: string[];
+	/** Files whose contents are appended to the system prompt */
+	appendSystemPromptFiles: string[];
+	/** Session file to record to; `resume` continues the conversation in it. Unset: no session */
+	session?: { file: string; resume: boolean };
+	extensions: string[];
+	skills: string[];
+	noExtensions?: boolean;
+	noSkills?: boolean;
+	noContextFiles?: boolean;
+	/** Further pi CLI arguments (process runner only) */
+	extraArgs: string[];
+	prompt: string;
+}
+
+export interface RunHandlers {
+	/** One session event, shaped like a `pi --mode json` line */
+	onEvent(event: any): void;
+	onStderr(text: string): void;
+}
+
+export interface RunHandle {
+	/** Resolves with the exit code once the run has ended */
+	done: Promise<number>;
+	/** Ask the run to end; `done` still resolves */
+	stop(): void;
+}
+
+export interface SubagentRunner {
+	start(spec: RunSpec, handlers: RunHandlers): RunHandle;
+}
+
+/** pi CLI arguments for a run spec */
+export function buildPiArgs(spec: RunSpec): string[] {
+	const args = ["--mode", "json", "-p"];
+	if (spec.model) args.push("--model", spec.model);
+	if (spec.thinkingLevel) args.push("--thinking", spec.thinkingLevel);
+	if (spec.tools && spec.tools.length > 0) args.push("--tools", spec.tools.join(","));
+	if (spec.noExtensions) args.push("--no-extensions");
+	if (spec.noSkills) args.push("--no-skills");
+	if (spec.noContextFiles) args.push("--no-context-files");
+	for (const extension of spec.extensions) args.push("--extension", extension);
+	for (const skill of spec.skills) args.push("--skill", skill);
+	args.push(...spec.extraArgs);
+	for (const file of spec.appendSystemPromptFiles) args.push("--append-system-prompt", file);
+	if (!spec.session) args.push("--no-session");
+	else if (spec.session.resume) args.push("--continue", "--session", spec.session.file);
+	else args.push("--session", spec.session.file);
+	args.push(spec.prompt);
+	return args;
+}
+
+export function createProcessRunner(getBinary: () => string): SubagentRunner {
+	return {
+		start(spec, handlers) {
+			const binary = getBinary();
+			const proc = spawn(binary, buildPiArgs(spec), { cwd: spec.cwd, env: spec.env, shell: false, stdio: ["ignore", "pipe", "pipe"] });
+			let buffer = "";
+
+			const processLine = (line: string) => {
+				if (!line.trim()) return;
+				let event: any;
+				try {
+					event = JSON.parse(line);
+				} catch {
+					return;
+				}
+				handlers.onEvent(event);
+			};
+
+			const done = new Promise<number>((resolve) => {
+				proc.stdout.on("data", (data) => {
+					buffer += data.toString();
+					const lines = buffer.split("\n");
+					buffer = lines.pop() || "";
+					for (const line of lines) processLine(line);
+				});
+				proc.stderr.on("data", (data) => handlers.onStderr(data.toString()));
+				proc.on("close", (code) => {
+					if (buffer.trim()) processLine(buffer);
+					resolve(code ?? 0);
+				});
+				proc.on("error", (err) => {
+					handlers.onStderr(`Failed to start "${binary}": ${err.message}\n`);
+					resolve(1);
+				});
+			});
+
+			return {
+				done,
+				// SIGTERM lets pi save the session; SIGKILL if it does not exit in time
+				stop() {
+					proc.kill("SIGTERM");
+					setTimeout(() => {
+						if (!proc.killed) proc.kill("SIGKILL");
+					}, STOP_GRACE_MS);
+				},
+			};
+		},
+	};
+}
+
+// Counted on globalThis: a reloaded copy of this module must see SDK runs of the old one
+const SDK_LOADS_KEY = Symbol.for("pi-subagent.sdkSessionLoads");
+
+/**
+ * True while the SDK runner is loading extensions for a child session. The
+ * subagent extension checks this and stays out of in-process children.
+ */
+export function isLoadingSdkSession(): boolean {
+	return ((globalThis as any)[SDK_LOADS_KEY] ?? 0) > 0;
+}
+
+function resolveModel(
+	registry: { find(provider: string, id: string): any; getAll(): any[] },
+	spec: string,
+): { model: any; thinkingLevel?: string } | undefined {
+	const thinkingLevel = spec.match(THINKING_SUFFIX_PATTERN)?.[1];
+	const id = spec.replace(THINKING_SUFFIX_PATTERN, "");
+	const slash = id.indexOf("/");
+	const model = (slash > 0 ? registry.find(id.slice(0, slash), id.slice(slash + 1)) : undefined) ?? registry.getAll().find((m) => m.id === id);
+	return model ? { model, thinkingLevel } : undefined;
+}
+
+export function createSdkRunner(): SubagentRunner {
+	return {
+		start(spec, handlers) {
+			let session: AgentSession | undefined;
+			let stopRequested = false;
+
+			const done = (async () => {
+				const globals = globalThis as any;
+				globals[SDK_LOADS_KEY] = (globals[SDK_LOADS_KEY] ?? 0) + 1;
+				let services: Awaited<ReturnType<typeof createAgentSessionServices>>;
+				try {
+					services = await createAgentSessionServices({
+						cwd: spec.cwd,
+						agentDir: getAgentDir(),
+						resourceLoaderOptions: {
+							additionalExtensionPaths: spec.extensions,
+							additionalSkillPaths: spec.skills,
+							noExtensions: spec.noExtensions,
+							noSkills: spec.noSkills,
+							noContextFiles: spec.noContextFiles,
+							appendSystemPrompt: spec.appendSystemPromptFiles.map((file) => fs.readFileSync(file, "utf-8")),
+						},
+					});
+				} finally {
+					globals[SDK_LOADS_KEY]--;
+				}
+				for (const diagnostic of services.diagnostics) {
+					if (diagnostic.type === "error") handlers.onStderr(`${diagnostic.message}\n`);
+				}
+
+				let model: any;
+				let thinkingLevel = spec.thinkingLevel;
+				if (spec.model) {
+					const resolved = resolveModel(services.modelRegistry, spec.model);
+					if (!resolved) throw new Error(`Model not found: ${spec.model}`);
+					model = resolved.model;
+					thinkingLevel = resolved.thinkingLevel ?? thinkingLevel;
+				}
+
+				const sessionManager = spec.session
+					? SessionManager.open(spec.session.file, undefined, spec.cwd)
+					: SessionManager.inMemory(spec.cwd);
+				const created = await createAgentSessionFromServices({
+					services,
+					sessionManager,
+					model,
+					thinkingLevel: thinkingLevel as ThinkingLevel | undefined,
+					tools: spec.tools,
+				});
+				session = created.session;
+				await session.bindExtensions({
+					onError: (err) => handlers.onStderr(`Extension error (${err.extensionPath}): ${err.error}\n`),
+				});
+				const unsubscribe = session.subscribe((event) => handlers.onEvent(event));
+				try {
+					if (!stopRequested) await session.prompt(spec.prompt);
+				} finally {
+					unsubscribe();
+					session.dispose();
+				}
+				return 0;
+			})().catch((err) => {
+				handlers.onStderr(`${err instanceof Error ? err.message : String(err)}\n`);
+				return 1;
+			});
+
+			return {
+				done,
+				stop() {
+					stopRequested = true;
+					void session?.abort();
+				},
+			};
+		},
+	};
+}
+
+/** One scripted run: what the fake agent does for one prompt */
+export interface ScriptedRun {
+	/** Events to replay, shaped like `pi --mode json` lines */
+	events: any[];
+	exitCode?: number;
+	stderr?: string;
+	/** Runs before the events are replayed, e.g. to write a file as a real agent would */
+	effect?: (spec: RunSpec) => void;
+}
+
+export interface ScriptedRunner extends SubagentRunner {
+	/** Spec of every run started so far, in order */
+	specs: RunSpec[];
+}
+
+/**
+ * A runner that replays canned runs instead of running a model. Each start()
+ * takes the next run of `script` (or asks the function for it). Events are
+ * delivered one per tick, so stop() from an event handler ends the replay
+ * before the next event, as stopping a real child would.
+ */
+export function createScriptedRunner(script: ScriptedRun[] | ((spec: RunSpec, index: number) => ScriptedRun | undefined)): ScriptedRunner {
+	const specs: RunSpec[] = [];
+	return {
+		specs,
+		start(spec, handlers) {
+			const index = specs.length;
+			specs.push(spec);
+			const run = typeof script === "function" ? script(spec, index) : script[index];
+			let stopped = false;
+
+			const done = (async () => {
+				if (!run) {
+					handlers.onStderr(`No scripted run for call ${index + 1}\n`);
+					return 1;
+				}
+				run.effect?.(spec);
+				if (run.stderr) handlers.onStderr(run.stderr);
+				for (const event of run.events) {
+					await new Promise((resolve) => setImmediate(resolve));
+					if (stopped) break;
+					handlers.onEvent(event);
+				}
+				return run.exitCode ?? 0;
+			})();
+
+			return {
+				done,
+				stop() {
+					stopped = true;
+				},
+			};
+		},
+	};
+}
+
+const runners = new Map<string, SubagentRunner>();
+
+/** Add (or replace) a runner that agents can select with `runner: <name>` */
+export function registerRunner(name: string, runner: SubagentRunner): void {
+	runners.set(name, runner);
+}
+
+export function getRunner(name: string): SubagentRunner | undefined {
+	return runners.get(name);
+}
+
+export function listRunnerNames(): string[] {
+	return Array.from(runners.keys());
+}
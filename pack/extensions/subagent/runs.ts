@@ -0,0 +1,242 @@
+/**
+ * Run archive
+ *
+ * Every subagent run is archived to .pi/subagent-runs/ in the project:
+ *   - <timestamp>-<agent>.jsonl — a "run" header line (task, model, usage, stderr, ...)
+ *                                 followed by one "message" line per message
+ *   - <timestamp>-<agent>.md    — a readable Markdown rendering of the same run
+ * Runs older than RUN_MAX_AGE_MS, and the oldest beyond RUN_MAX_COUNT, are
+ * removed whenever a new run is archived.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Message } from "@mariozechner/pi-ai";
+
+const TOOL_RESULT_PREVIEW_LIMIT = 4000;
+export const RUN_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const RUN_MAX_COUNT = 500;
+/** Chunk size for reading a run's header line */
+const HEADER_READ_CHUNK = 64 * 1024;
+
+export interface RunRecord {
+	agent: string;
+	agentSource: string;
+	task: string;
+	cwd: string;
+	model?: string;
+	exitCode: number;
+	stopReason?: string;
+	errorMessage?: string;
+	stderr: string;
+	usage: Record<string, number>;
+	sessionId?: string;
+	step?: number;
+	startedAt: number;
+	finishedAt: number;
+	messages: Message[];
+}
+
+export interface ArchivedRun {
+	/** File name without extension */
+	id: string;
+	jsonlPath: string;
+	markdownPath: string;
+	header: Omit<RunRecord, "messages">;
+}
+
+export function getRunsDir(cwd: string): string {
+	return path.join(cwd, ".pi", "subagent-runs");
+}
+
+function generateRunId(dir: string, agent: string): string {
+	const date = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 23);
+	const base = `${date}-${agent.replace(/[^\w.-]+/g, "_")}`;
+	let id = base;
+	for (let n = 2; fs.existsSync(path.join(dir, `${id}.jsonl`)); n++) id = `${base}-${n}`;
+	return id;
+}
+
+function fence(text: string, lang = ""): string {
+	const ticks = text.includes("```") ? "````" : "```";
+	return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+export function formatRunMarkdown(run: RunRecord): string {
+	const lines: string[] = [];
+	const ok = run.exitCode === 0 && run.stopReason !== "error" && run.stopReason !== "aborted";
+	lines.push(`# ${run.agent} ${ok ? "✓" : "✗"}`);
+	lines.push("");
+	lines.push(`- Started: ${new Date(run.startedAt).toISOString()}`);
+	lines.push(`- Duration: ${((run.finishedAt - run.startedAt) / 1000).toFixed(1)}s`);
+	lines.push(`- Agent source: ${run.agentSource}`);
+	if (run.model) lines.push(`- Model: ${run.model}`);
+	lines.push(`- Cwd: ${run.cwd}`);
+	if (run.step !== undefined) lines.push(`- Step: ${run.step}`);
+	if (run.sessionId) lines.push(`- Session: ${run.sessionId}`);
+	lines.push(`- Exit code: ${run.exitCode}${run.stopReason ? ` (${run.stopReason})` : ""}`);
+	if (run.errorMessage) lines.push(`- Error: ${run.errorMessage}`);
+	lines.push(
+		`- Usage: ${run.usage.turns ?? 0} turns, ${run.usage.input ?? 0} in / ${run.usage.output ?? 0} out tokens, $${(run.usage.cost ?? 0).toFixed(4)}`,
+	);
+	lines.push("");
+	lines.push("## Task");
+	lines.push("");
+	lines.push(run.task);
+	lines.push("");
+	lines.push("## Transcript");
+
+	for (const msg of run.messages) {
+		lines.push("");
+		if (msg.role === "user") {
+			lines.push("### User");
+			lines.push("");
+			const content = typeof msg.content === "string" ? msg.content : msg.content.map((p) => (p.type === "text" ? p.text : `[${p.type}]`)).join("\n");
+			lines.push(content);
+		} else if (msg.role === "assistant") {
+			lines.push("### Assistant");
+			for (const part of msg.content) {
+				lines.push("");
+				if (part.type === "text") lines.push(part.text);
+				else if (part.type === "toolCall") lines.push(`→ **${part.name}**`, "", fence(JSON.stringify(part.arguments, null, 2), "json"));
+			}
+		} else if (msg.role === "toolResult") {
+			lines.push(`### Tool result: ${msg.toolName}${msg.isError ? " (error)" : ""}`);
+			lines.push("");
+			const text = msg.content.map((p) => (p.type === "text" ? p.text : `[${p.type}]`)).join("\n");
+			const preview = text.length > TOOL_RESULT_PREVIEW_LIMIT ? `${text.slice(0, TOOL_RESULT_PREVIEW_LIMIT)}\n... (truncated, see .jsonl)` : text;
+			lines.push(fence(preview));
+		}
+	}
+
+	if (run.stderr.trim()) {
+		lines.push("");
+		lines.push("## Stderr");
+		lines.push("");
+		lines.push(fence(run.stderr.trim()));
+	}
+	lines.push("");
+	return lines.join("\n");
+}
+
+/** Archive a finished run. Non-fatal: failures are logged and return null. */
+export function archiveRun(projectCwd: string, run: RunRecord): string | null {
+	try {
+		const dir = getRunsDir(projectCwd);
+		fs.mkdirSync(dir, { recursive: true });
+		const id = generateRunId(dir, run.agent);
+		const { messages, ...header } = run;
+		const jsonl = [
+			JSON.stringify({ type: "run", ...header }),
+			...messages.map((message) => JSON.stringify({ type: "message", message })),
+		].join("\n");
+		fs.writeFileSync(path.join(dir, `${id}.jsonl`), `${jsonl}\n`);
+		fs.writeFileSync(path.join(dir, `${id}.md`), formatRunMarkdown(run));
+		pruneRuns(dir);
+		return id;
+	} catch (err) {
+		console.error(`[subagent] Failed to archive run: ${err}`);
+		return null;
+	}
+}
+
+/** Remove runs older than RUN_MAX_AGE_MS, then the oldest beyond RUN_MAX_COUNT */
+function pruneRuns(dir: string): void {
+	let ids: string[];
+	try {
+		// Ids start with an ISO timestamp, so name order is age order
+		ids = fs.readdirSync(dir).filter((f) => f.endsWith(".jsonl")).map((f) => f.slice(0, -".jsonl".length)).sort();
+	} catch {
+		return;
+	}
+	const now = Date.now();
+	const expired = ids.filter((id) => {
+		try {
+			return now - fs.statSync(path.join(dir, `${id}.jsonl`)).mtimeMs > RUN_MAX_AGE_MS;
+		} catch {
+			return false;
+		}
+	});
+	const kept = ids.filter((id) => !expired.includes(id));
+	const excess = kept.slice(0, Math.max(0, kept.length - RUN_MAX_COUNT));
+	for (const id of [...expired, ...excess]) {
+		for (const ext of [".jsonl", ".md"]) {
+			try {
+				fs.rmSync(path.join(dir, `${id}${ext}`), { force: true });
+			} catch {
+				/* ignore */
+			}
+		}
+	}
+}
+
+/** The first line of a file, read in chunks so the messages after it are not loaded */
+function readFirstLine(filePath: string): string {
+	const fd = fs.openSync(filePath, "r");
+	try {
+		const chunks: Buffer[] = [];
+		const buffer = Buffer.alloc(HEADER_READ_CHUNK);
+		while (true) {
+			const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null);
+			if (bytesRead === 0) break;
+			const newline = buffer.subarray(0, bytesRead).indexOf(0x0a);
+			chunks.push(Buffer.from(buffer.subarray(0, newline === -1 ? bytesRead : newline)));
+			if (newline !== -1) break;
+		}
+		return Buffer.concat(chunks).toString("utf-8");
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+function readHeader(jsonlPath: string): Omit<RunRecord, "messages"> | null {
+	try {
+		const entry = JSON.parse(readFirstLine(jsonlPath));
+		if (entry?.type !== "run") return null;
+		const { type: _type, ...header } = entry;
+		return header;
+	} catch {
+		return null;
+	}
+}
+
+/** Archived runs, most recent first */
+export function listRuns(projectCwd: string): ArchivedRun[] {
+	const dir = getRunsDir(projectCwd);
+	let files: string[];
+	try {
+		files = fs.readdirSync(dir).filter((f) => f.endsWith(".jsonl"));
+	} catch {
+		return [];
+	}
+
+	const runs: ArchivedRun[] = [];
+	for (const file of files.sort().reverse()) {
+		const jsonlPath = path.join(dir, file);
+		const header = readHeader(jsonlPath);
+		if (!header) continue;
+		const id = file.slice(0, -".jsonl".length);
+		runs.push({ id, jsonlPath, markdownPath: path.join(dir, `${id}.md`), header });
+	}
+	return runs;
+}
+
+/** Runs whose task, output or tool calls contain the query (case-insensitive) */
+export function searchRuns(projectCwd: string, query: string): ArchivedRun[] {
+	const needle = query.toLowerCase();
+	return listRuns(projectCwd).filter((run) => {
+		try {
+			return fs.readFileSync(run.jsonlPath, "utf-8").toLowerCase().includes(needle);
+		} catch {
+			return false;
+		}
+	});
+}
+
+export function readRunMarkdown(run: ArchivedRun): string | null {
+	try {
+		return fs.readFileSync(run.markdownPath, "utf-8");
+	} catch {
+		return null;
+	}
+}
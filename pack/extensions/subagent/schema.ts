@@ -0,0 +1,158 @@
+/**
+ * Structured output contracts for agents.
+ *
+ * Agents can declare an `outputSchema` (JSON Schema) in their frontmatter. The
+ * final assistant message is expected to contain a JSON object matching it.
+ * Only the commonly used subset of JSON Schema is supported: type, properties,
+ * required, additionalProperties, items, enum, const, anyOf, min/max(Length|Items),
+ * minimum/maximum and pattern.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+export interface OutputValidation {
+	value?: unknown;
+	errors: string[];
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = typeOf(value);
+	if (type === "number") return actual === "number" || actual === "integer";
+	return actual === type;
+}
+
+/** Validate a value against a JSON Schema subset; returns human-readable errors */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+	if (!schema || typeof schema !== "object") return [];
+	const errors: string[] = [];
+
+	if (schema.type !== undefined) {
+		const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((t) => matchesType(value, t))) {
+			return [`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`];
+		}
+	}
+
+	if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+		errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+	}
+	if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${schema.enum.map((e: unknown) => JSON.stringify(e)).join(", ")}`);
+	}
+	if (Array.isArray(schema.anyOf) && !schema.anyOf.some((s: JsonSchema) => validateAgainstSchema(value, s, path).length === 0)) {
+		errors.push(`${path}: does not match any of the allowed schemas`);
+	}
+
+	if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters`);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+		}
+		if (schema.pattern !== undefined) {
+			try {
+				if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: must match /${schema.pattern}/`);
+			} catch {
+				/* invalid pattern in schema — ignore */
+			}
+		}
+	}
+
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+		if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items && typeof schema.items === "object") {
+			value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${i}]`)));
+		}
+	}
+
+	if (typeOf(value) === "object") {
+		const obj = value as Record<string, unknown>;
+		for (const key of Array.isArray(schema.required) ? schema.required : []) {
+			if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+		}
+		const properties: Record<string, JsonSchema> = schema.properties ?? {};
+		for (const [key, propValue] of Object.entries(obj)) {
+			if (key in properties) {
+				errors.push(...validateAgainstSchema(propValue, properties[key], `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}: unexpected property "${key}"`);
+			} else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+				errors.push(...validateAgainstSchema(propValue, schema.additionalProperties, `${path}.${key}`));
+			}
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Find the JSON object in an assistant message.
+ * Prefers the last fenced ```json block, then any fenced block, then the whole
+ * text, then the outermost {...} span.
+ */
+export function extractJson(text: string): { value?: unknown; error?: string } {
+	const candidates: string[] = [];
+	const fenced = Array.from(text.matchAll(/```(\w*)\s*\n([\s\S]*?)```/g));
+	for (const match of [...fenced].reverse()) if (match[1].toLowerCase() === "json") candidates.push(match[2]);
+	for (const match of [...fenced].reverse()) if (match[1].toLowerCase() !== "json") candidates.push(match[2]);
+	candidates.push(text);
+	const start = text.indexOf("{");
+	const end = text.lastIndexOf("}");
+	if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+	for (const candidate of candidates) {
+		try {
+			return { value: JSON.parse(candidate.trim()) };
+		} catch {
+			/* try next candidate */
+		}
+	}
+	return { error: "No valid JSON object found in the final message" };
+}
+
+export function validateOutput(text: string, schema: JsonSchema): OutputValidation {
+	const extracted = extractJson(text);
+	if (extracted.error) return { errors: [extracted.error] };
+	const errors = validateAgainstSchema(extracted.value, schema);
+	return errors.length > 0 ? { errors } : { value: extracted.value, errors };
+}
+
+/** Instructions appended to the agent's system prompt describing the output contract */
+export function formatSchemaInstructions(schema: JsonSchema): string {
+	return [
+		"## Output Contract",
+		"",
+		"Your final message MUST contain a single JSON object, in a ```json code block, that validates against this JSON Schema:",
+		"",
+		"```json",
+		JSON.stringify(schema, null, 2),
+		"```",
+	].join("\n");
+}
+
+export function formatRepromptMessage(errors: string[]): string {
+	return [
+		"Your final message did not satisfy the required output schema:",
+		...errors.map((e) => `- ${e}`),
+		"",
+		"Reply again with only the corrected JSON object in a ```json code block.",
+	].join("\n");
+}
@@ -0,0 +1,227 @@
+/**
+ * Durable subagent session store
+ *
+ * Sessions live under ~/.pi/agent/subagent-sessions/ so they survive pi restarts:
+ *   - index.json          — metadata for every session (agent, times, cwd, title)
+ *   - <id>.jsonl          — the child pi session file
+ *   - <id>.prompt.md      — the agent system prompt used for the session
+ *
+ * The index is re-read on every operation so several pi processes can share it.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SESSION_MAX_COUNT = 100;
+const TITLE_MAX_LENGTH = 60;
+
+export interface SubagentSession {
+	id: string;
+	agent: string;
+	title: string;
+	cwd: string;
+	sessionFilePath: string;
+	promptFilePath: string | null;
+	createdAt: number;
+	lastUsedAt: number;
+}
+
+interface SessionIndex {
+	version: 1;
+	sessions: SubagentSession[];
+}
+
+// In-use tracking is process-local: a session is only "busy" while this process runs it
+const sessionsInUse = new Set<string>();
+
+export function getSessionStoreDir(): string {
+	return path.join(os.homedir(), ".pi", "agent", "subagent-sessions");
+}
+
+function ensureStoreDir(): string {
+	const dir = getSessionStoreDir();
+	fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+	return dir;
+}
+
+function getIndexPath(): string {
+	return path.join(getSessionStoreDir(), "index.json");
+}
+
+function readIndex(): SessionIndex {
+	try {
+		const parsed = JSON.parse(fs.readFileSync(getIndexPath(), "utf-8")) as Partial<SessionIndex>;
+		if (Array.isArray(parsed.sessions)) return { version: 1, sessions: parsed.sessions };
+	} catch {
+		/* missing or corrupt index — start fresh */
+	}
+	return { version: 1, sessions: [] };
+}
+
+function writeIndex(index: SessionIndex): void {
+	ensureStoreDir();
+	const indexPath = getIndexPath();
+	const tmpPath = `${indexPath}.${process.pid}.tmp`;
+	fs.writeFileSync(tmpPath, JSON.stringify(index, null, 2), { encoding: "utf-8", mode: 0o600 });
+	fs.renameSync(tmpPath, indexPath);
+}
+
+function generateSessionId(): string {
+	return `sa-${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+export function makeSessionTitle(task: string): string {
+	const firstLine = task.split("\n").find((line) => line.trim())?.trim() ?? "";
+	return firstLine.length > TITLE_MAX_LENGTH ? `${firstLine.slice(0, TITLE_MAX_LENGTH)}...` : firstLine || "(untitled)";
+}
+
+function removeSessionFiles(session: SubagentSession): void {
+	try {
+		fs.rmSync(session.sessionFilePath, { force: true });
+	} catch { /* ignore */ }
+	if (session.promptFilePath) {
+		try {
+			fs.rmSync(session.promptFilePath, { force: true });
+		} catch { /* ignore */ }
+	}
+}
+
+export function createSession(agentName: string, systemPrompt: string, cwd: string, task: string): SubagentSession {
+	const dir = ensureStoreDir();
+	const id = generateSessionId();
+	const safeName = agentName.replace(/[^\w.-]+/g, "_");
+
+	let promptFilePath: string | null = null;
+	if (systemPrompt.trim()) {
+		promptFilePath = path.join(dir, `${id}.prompt.md`);
+		fs.writeFileSync(promptFilePath, systemPrompt, { encoding: "utf-8", mode: 0o600 });
+	}
+
+	const session: SubagentSession = {
+		id,
+		agent: agentName,
+		title: makeSessionTitle(task),
+		cwd,
+		sessionFilePath: path.join(dir, `${id}-${safeName}.jsonl`),
+		promptFilePath,
+		createdAt: Date.now(),
+		lastUsedAt: Date.now(),
+	};
+
+	const index = readIndex();
+	index.sessions.push(session);
+	writeIndex(index);
+	evictOldSessions();
+	return session;
+}
+
+export function getSession(id: string): SubagentSession | undefined {
+	return readIndex().sessions.find((s) => s.id === id);
+}
+
+export function listSessions(): SubagentSession[] {
+	return readIndex().sessions.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+function updateSession(id: string, update: Partial<Pick<SubagentSession, "title" | "lastUsedAt">>): SubagentSession | undefined {
+	const index = readIndex();
+	const session = index.sessions.find((s) => s.id === id);
+	if (!session) return undefined;
+	Object.assign(session, update);
+	writeIndex(index);
+	return session;
+}
+
+export function touchSession(id: string): void {
+	updateSession(id, { lastUsedAt: Date.now() });
+}
+
+export function renameSession(id: string, title: string): SubagentSession | undefined {
+	return updateSession(id, { title: title.trim() || "(untitled)" });
+}
+
+export function deleteSession(id: string): boolean {
+	const index = readIndex();
+	const session = index.sessions.find((s) => s.id === id);
+	if (!session) return false;
+	removeSessionFiles(session);
+	index.sessions = index.sessions.filter((s) => s.id !== id);
+	writeIndex(index);
+	sessionsInUse.delete(id);
+	return true;
+}
+
+export function isSessionInUse(id: string): boolean {
+	return sessionsInUse.has(id);
+}
+
+export function setSessionInUse(id: string, inUse: boolean): void {
+	if (inUse) sessionsInUse.add(id);
+	else sessionsInUse.delete(id);
+}
+
+export function evictOldSessions(): void {
+	const index = readIndex();
+	const now = Date.now();
+	const evictable = index.sessions
+		.filter((s) => !sessionsInUse.has(s.id))
+		.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+	const toDelete = new Set<string>();
+	for (const session of evictable) {
+		if (now - session.lastUsedAt > SESSION_MAX_AGE_MS) toDelete.add(session.id);
+	}
+
+	// If still over limit, remove oldest (skip in-use sessions)
+	let remaining = index.sessions.length - toDelete.size;
+	for (const session of evictable) {
+		if (remaining <= SESSION_MAX_COUNT) break;
+		if (toDelete.has(session.id)) continue;
+		toDelete.add(session.id);
+		remaining--;
+	}
+
+	if (toDelete.size === 0) return;
+	for (const session of index.sessions) {
+		if (toDelete.has(session.id)) removeSessionFiles(session);
+	}
+	index.sessions = index.sessions.filter((s) => !toDelete.has(s.id));
+	writeIndex(index);
+}
+
+export interface SessionTranscriptSummary {
+	messageCount: number;
+	turns: number;
+	lastOutput: string;
+}
+
+/** Read a session file and summarize it for inspection */
+export function summarizeSessionFile(session: SubagentSession): SessionTranscriptSummary | null {
+	let content: string;
+	try {
+		content = fs.readFileSync(session.sessionFilePath, "utf-8");
+	} catch {
+		return null;
+	}
+
+	const summary: SessionTranscriptSummary = { messageCount: 0, turns: 0, lastOutput: "" };
+	for (const line of content.split("\n")) {
+		if (!line.trim()) continue;
+		let entry: any;
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			continue;
+		}
+		if (entry.type !== "message" || !entry.message) continue;
+		summary.messageCount++;
+		if (entry.message.role !== "assistant") continue;
+		summary.turns++;
+		const text = (entry.message.content ?? []).find((part: any) => part.type === "text")?.text;
+		if (text) summary.lastOutput = text;
+	}
+	return summary;
+}
@@ -0,0 +1,235 @@
+/**
+ * Task templates
+ *
+ * `{{ name }}` inserts a value, optionally through filters:
+ * `{{ steps.plan.output | section Plan | truncate 4000 }}`.
+ *   - `vars` given with the call, by bare name (`{{feature}}`) or as `{{vars.feature}}`
+ *   - `previous`, `steps.<name or 1-based index>` (chain), `steps.<id>` (graph):
+ *     a step's output; `.json` gives its structured output instead
+ *   - `item`, `index` (map), `outputs` (map reduce)
+ *   - `git.branch`, `git.diff` (`git diff HEAD` in the invocation's cwd)
+ * Filters: `truncate N`, `lines N`, `section <heading>`, `trim`, `default <text>`.
+ * An unknown `{{ }}` variable or filter is an error. The older single-brace
+ * forms ({previous}, {id.output}, {item}, ...) still work and are left as they
+ * are when they do not resolve. `\{{` writes a literal `{{`.
+ */
+
+import { execFileSync } from "node:child_process";
+
+/** Output of a chain step or graph node: `{{steps.x}}` is the text, `{{steps.x.json}}` the structured result */
+export interface StepOutput {
+	output: string;
+	json: string;
+}
+
+export interface TemplateInput {
+	/** Built-in values for the mode (previous, steps, item, git, ...) */
+	values: Record<string, unknown>;
+	/** Variables passed with the call */
+	vars?: Record<string, string>;
+}
+
+export type TemplateResult = { ok: true; text: string } | { ok: false; error: string };
+
+/** Names that `vars` may not use, because built-in values take them */
+const RESERVED_NAMES = new Set(["vars", "previous", "steps", "item", "index", "outputs", "git"]);
+const VAR_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+const PATH_PATTERN = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+const TOKEN_PATTERN =
+	/\\\{\{|\{\{([\s\S]*?)\}\}|\{(previous(?:\.json)?|item|index|outputs|[A-Za-z_][\w-]*\.(?:output|json))\}/g;
+
+/** Stand-in for git values when only checking a template */
+export const GIT_PLACEHOLDER = { branch: "", diff: "" };
+
+class TemplateError extends Error {}
+
+export function stepOutput(output: string, structured?: unknown): StepOutput {
+	return { output, json: structured !== undefined ? JSON.stringify(structured, null, 2) : output };
+}
+
+function isStepOutput(value: unknown): value is StepOutput {
+	return !!value && typeof value === "object" && typeof (value as StepOutput).output === "string" && typeof (value as StepOutput).json === "string";
+}
+
+/** git.branch and git.diff of `cwd`, each computed on first use */
+export function createGitValues(cwd: string): Record<string, string> {
+	const cache = new Map<string, string>();
+	const git = (args: string[]) => {
+		const key = args.join(" ");
+		if (!cache.has(key)) {
+			try {
+				const output = execFileSync("git", args, { cwd, encoding: "utf-8", maxBuffer: 64 * 1024 * 1024, stdio: ["ignore", "pipe", "pipe"] });
+				cache.set(key, output.trimEnd());
+			} catch (err: any) {
+				const reason = String(err?.stderr || err?.message || err).trim().split("\n")[0];
+				throw new TemplateError(`git ${key} failed: ${reason}`);
+			}
+		}
+		return cache.get(key)!;
+	};
+	return {
+		get branch() {
+			return git(["rev-parse", "--abbrev-ref", "HEAD"]);
+		},
+		get diff() {
+			return git(["diff", "HEAD"]);
+		},
+	};
+}
+
+export function validateVars(vars: Record<string, unknown> | undefined): string | null {
+	for (const [name, value] of Object.entries(vars ?? {})) {
+		if (!VAR_NAME_PATTERN.test(name)) return `Invalid variable name "${name}".`;
+		if (RESERVED_NAMES.has(name)) return `Variable name "${name}" is reserved (${Array.from(RESERVED_NAMES).join(", ")}).`;
+		if (typeof value !== "string") return `Variable "${name}" must be a string.`;
+	}
+	return null;
+}
+
+function hasOwn(value: unknown, key: string): boolean {
+	return !!value && typeof value === "object" && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+/** The value at a dotted path, or undefined */
+function lookup(path: string, input: TemplateInput): unknown {
+	const [root, ...rest] = path.split(".");
+	let value: unknown;
+	if (root === "vars") value = input.vars ?? {};
+	else if (hasOwn(input.values, root)) value = input.values[root];
+	else if (hasOwn(input.vars, root)) value = input.vars![root];
+	else return undefined;
+	for (const key of rest) {
+		if (!hasOwn(value, key)) return undefined;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+function stringify(value: unknown): string {
+	if (typeof value === "string") return value;
+	if (isStepOutput(value)) return value.output;
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	return JSON.stringify(value, null, 2);
+}
+
+/** The body of the first markdown section titled `title` (any level), up to the next heading of the same or a higher level */
+export function extractSection(text: string, title: string): string {
+	const wanted = title.replace(/^#+\s*/, "").trim().toLowerCase();
+	const lines = text.split("\n");
+	let start = -1;
+	let level = 0;
+	let inFence = false;
+	for (let i = 0; i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+		if (inFence) continue;
+		const heading = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (!heading) continue;
+		if (start === -1) {
+			if (heading[2].toLowerCase() === wanted) {
+				start = i + 1;
+				level = heading[1].length;
+			}
+		} else if (heading[1].length <= level) {
+			return lines.slice(start, i).join("\n").trim();
+		}
+	}
+	return start === -1 ? "" : lines.slice(start).join("\n").trim();
+}
+
+function requireCount(filter: string, arg: string | undefined): number {
+	const n = Number(arg);
+	if (!arg || !Number.isInteger(n) || n < 0) throw new TemplateError(`Filter "${filter}" needs a whole number, e.g. ${filter} 2000.`);
+	return n;
+}
+
+function requireText(filter: string, arg: string | undefined): string {
+	if (arg === undefined) throw new TemplateError(`Filter "${filter}" needs an argument.`);
+	return arg;
+}
+
+const FILTERS: Record<string, (value: string, arg: string | undefined) => string> = {
+	truncate: (value, arg) => {
+		const n = requireCount("truncate", arg);
+		return value.length > n ? `${value.slice(0, n)}…` : value;
+	},
+	lines: (value, arg) => value.split("\n").slice(0, requireCount("lines", arg)).join("\n"),
+	section: (value, arg) => extractSection(value, requireText("section", arg)),
+	trim: (value) => value.trim(),
+	default: (value, arg) => (value.trim() ? value : requireText("default", arg)),
+};
+
+/** Split at `|` outside double or single quotes */
+function splitPipes(expression: string): string[] {
+	const parts: string[] = [];
+	let current = "";
+	let quote: string | null = null;
+	for (const char of expression) {
+		if (quote) {
+			if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") quote = char;
+		else if (char === "|") {
+			parts.push(current);
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	parts.push(current);
+	return parts.map((part) => part.trim());
+}
+
+function evaluate(expression: string, input: TemplateInput): string {
+	const [path, ...filters] = splitPipes(expression);
+	if (!PATH_PATTERN.test(path)) throw new TemplateError(`Invalid expression "{{${expression}}}".`);
+	let value: unknown;
+	try {
+		value = lookup(path, input);
+	} catch (err) {
+		if (err instanceof TemplateError) throw new TemplateError(`${path}: ${err.message}`);
+		throw err;
+	}
+	if (value === undefined) {
+		const available = [...Object.keys(input.values), ...Object.keys(input.vars ?? {})];
+		throw new TemplateError(`Unknown variable "${path}"${available.length > 0 ? ` (available: ${available.join(", ")})` : ""}.`);
+	}
+	let text = stringify(value);
+	for (const filter of filters) {
+		const match = filter.match(/^([A-Za-z_]+)(?:\s+([\s\S]*))?$/);
+		const apply = match ? FILTERS[match[1]] : undefined;
+		if (!match || !apply) throw new TemplateError(`Unknown filter "${filter}" (available: ${Object.keys(FILTERS).join(", ")}).`);
+		const arg = match[2]?.trim().replace(/^(["'])([\s\S]*)\1$/, "$2");
+		text = apply(text, arg);
+	}
+	return text;
+}
+
+/** Legacy single-brace placeholder to template path */
+function legacyPath(name: string): string {
+	if (name.startsWith("previous") || !name.includes(".")) return name;
+	return `steps.${name}`;
+}
+
+export function renderTemplate(template: string, input: TemplateInput): TemplateResult {
+	try {
+		const text = template.replace(TOKEN_PATTERN, (match, expression: string | undefined, legacy: string | undefined) => {
+			if (match === "\\{{") return "{{";
+			if (expression !== undefined) return evaluate(expression.trim(), input);
+			const value = lookup(legacyPath(legacy!), input);
+			return value === undefined ? match : stringify(value);
+		});
+		return { ok: true, text };
+	} catch (err) {
+		if (err instanceof TemplateError) return { ok: false, error: err.message };
+		throw err;
+	}
+}
+
+/** Paths of the variables a template refers to, in either syntax */
+export function listTemplateVariables(template: string): string[] {
+	const paths = new Set<string>();
+	for (const match of template.matchAll(TOKEN_PATTERN)) {
+		if (match[1] !== undefined) paths.add(splitPipes(match[1].trim())[0]);
+		else if (match[2] !== undefined) paths.add(legacyPath(match[2]));
+	}
+	return Array.from(paths);
+}
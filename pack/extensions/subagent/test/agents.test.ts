@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createProject } from "./helpers.js";
+import { discoverAgents, getUserAgentsDir } from "../agents.js";
+
+let project: ReturnType<typeof createProject>;
+beforeEach(() => {
+	project = createProject();
+	fs.rmSync(getUserAgentsDir(), { recursive: true, force: true });
+});
+afterEach(() => project.cleanup());
+
+/** Write `<dir>/<file>` with YAML frontmatter and a body */
+function writeFile(dir: string, file: string, frontmatter: Record<string, string>, body: string): void {
+	fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+	const header = Object.entries(frontmatter).map(([key, value]) => `${key}: ${value}`);
+	fs.writeFileSync(path.join(dir, file), `---\n${header.join("\n")}\n---\n\n${body}\n`);
+}
+
+const projectAgentsDir = () => path.join(project.dir, ".pi", "agents");
+
+describe("agent inheritance", () => {
+	it("inherits unset settings and puts the parent's prompt first", () => {
+		const dir = projectAgentsDir();
+		writeFile(dir, "base.md", { name: "base", description: "Base", model: "base-model", tools: "read, grep", maxTurns: "5" }, "Base rules.");
+		writeFile(dir, "child.md", { name: "child", description: "Child", extends: "base", tools: "read" }, "Child rules.");
+		const { agents, errors } = discoverAgents(project.dir, "project");
+		assert.deepEqual(errors, []);
+		const child = agents.find((a) => a.name === "child")!;
+		assert.equal(child.extends, "base");
+		assert.equal(child.model, "base-model");
+		assert.equal(child.maxTurns, 5);
+		assert.deepEqual(child.tools, ["read"]);
+		assert.equal(child.systemPrompt, "Base rules.\n\nChild rules.");
+	});
+
+	it("appends or drops the parent's prompt as inheritPrompt says", () => {
+		const dir = projectAgentsDir();
+		writeFile(dir, "base.md", { name: "base", description: "Base" }, "Base rules.");
+		writeFile(dir, "after.md", { name: "after", description: "After", extends: "base", inheritPrompt: "append" }, "Own rules.");
+		writeFile(dir, "alone.md", { name: "alone", description: "Alone", extends: "base", inheritPrompt: "none" }, "Own rules.");
+		const { agents } = discoverAgents(project.dir, "project");
+		assert.equal(agents.find((a) => a.name === "after")?.systemPrompt, "Own rules.\n\nBase rules.");
+		assert.equal(agents.find((a) => a.name === "alone")?.systemPrompt, "Own rules.");
+	});
+
+	it("lets a project agent extend a user agent", () => {
+		writeFile(getUserAgentsDir(), "base.md", { name: "base", description: "Base", model: "user-model" }, "User rules.");
+		writeFile(projectAgentsDir(), "child.md", { name: "child", description: "Child", extends: "base" }, "Project rules.");
+		const child = discoverAgents(project.dir, "project").agents.find((a) => a.name === "child")!;
+		assert.equal(child.model, "user-model");
+		assert.equal(child.systemPrompt, "User rules.\n\nProject rules.");
+	});
+
+	it("reports unknown parents and cycles as errors", () => {
+		const dir = projectAgentsDir();
+		writeFile(dir, "orphan.md", { name: "orphan", description: "Orphan", extends: "missing" }, "");
+		writeFile(dir, "a.md", { name: "a", description: "A", extends: "b" }, "");
+		writeFile(dir, "b.md", { name: "b", description: "B", extends: "a" }, "");
+		const { agents, errors } = discoverAgents(project.dir, "project");
+		assert.deepEqual(agents, []);
+		const messages = Object.fromEntries(errors.map((e) => [e.agent, e.message]));
+		assert.equal(messages.orphan, 'extends unknown agent "missing"');
+		// Whichever is resolved first reports the cycle; the other cannot extend it
+		assert.match(messages.a, /inheritance cycle: (a → b → a|b → a → b)/);
+		assert.match(messages.b, /inheritance cycle: (a → b → a|b → a → b)/);
+	});
+});
+
+describe("agent partials", () => {
+	it("are inserted at their marker, or after the body without one", () => {
+		const dir = projectAgentsDir();
+		writeFile(dir, "partials/safety.md", { description: "Shared" }, "Never delete files.");
+		writeFile(dir, "partials/style.md", {}, "Answer briefly.");
+		writeFile(dir, "worker.md", { name: "worker", description: "Worker", include: "safety, style" }, "Rules:\n{{include safety}}\nEnd.");
+		const worker = discoverAgents(project.dir, "project").agents.find((a) => a.name === "worker")!;
+		assert.deepEqual(worker.includes, ["safety", "style"]);
+		assert.equal(worker.systemPrompt, "Rules:\nNever delete files.\nEnd.\n\nAnswer briefly.");
+	});
+
+	it("are found in the user partials for project agents", () => {
+		writeFile(getUserAgentsDir(), "partials/safety.md", {}, "Never delete files.");
+		writeFile(projectAgentsDir(), "worker.md", { name: "worker", description: "Worker", include: "safety" }, "Work.");
+		const worker = discoverAgents(project.dir, "project").agents.find((a) => a.name === "worker")!;
+		assert.equal(worker.systemPrompt, "Work.\n\nNever delete files.");
+	});
+
+	it("make the agent fail to load when missing", () => {
+		writeFile(projectAgentsDir(), "worker.md", { name: "worker", description: "Worker", include: "missing" }, "Work.");
+		const { agents, errors } = discoverAgents(project.dir, "project");
+		assert.deepEqual(agents, []);
+		assert.match(errors[0].message, /^include "missing": partial not found in /);
+	});
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createBudget, getDeadline, getExceededReason, hasLimits, recordUsage, validateLimits } from "../budget.js";
+
+describe("budget", () => {
+	it("is exhausted once turns reach the limit", () => {
+		const budget = createBudget("test", { maxTurns: 2 });
+		recordUsage(budget, { cost: 0, turns: 1, tokens: 10 });
+		assert.equal(getExceededReason(budget), null);
+		recordUsage(budget, { cost: 0, turns: 1, tokens: 10 });
+		assert.equal(getExceededReason(budget), "Budget exceeded (test): 2 turns (limit 2)");
+	});
+
+	it("is exhausted once cost or tokens pass the limit", () => {
+		const cost = createBudget("shared budget", { maxCost: 0.5 });
+		recordUsage(cost, { cost: 0.5, turns: 1, tokens: 0 });
+		assert.equal(getExceededReason(cost), null);
+		recordUsage(cost, { cost: 0.01, turns: 1, tokens: 0 });
+		assert.match(getExceededReason(cost)!, /cost \$0\.5100 > \$0\.5/);
+
+		const tokens = createBudget("test", { maxTokens: 100 });
+		recordUsage(tokens, { cost: 0, turns: 1, tokens: 101 });
+		assert.match(getExceededReason(tokens)!, /101 tokens > 100/);
+	});
+
+	it("derives a deadline from timeoutMs", () => {
+		const budget = createBudget("test", { timeoutMs: 0 });
+		assert.equal(getDeadline(budget), budget.startedAt);
+		assert.match(getExceededReason(budget)!, /timeout after 0s/);
+		assert.equal(getDeadline(createBudget("test", {})), undefined);
+	});
+
+	it("knows whether any limit is set", () => {
+		assert.equal(hasLimits({}), false);
+		assert.equal(hasLimits({ maxTurns: 0 }), true);
+	});
+
+	it("rejects limits no run can stay within", () => {
+		assert.equal(validateLimits({ maxCost: 0.5, maxTurns: 1, maxTokens: 1000, timeoutMs: 1 }), null);
+		assert.equal(validateLimits({ maxCost: -1 }), "maxCost must be greater than 0 (got -1)");
+		assert.equal(validateLimits({ maxTurns: 0 }), "maxTurns must be a whole number of at least 1 (got 0)");
+		assert.equal(validateLimits({ timeoutMs: -5 }), "timeoutMs must be a whole number of at least 1 (got -5)");
+		assert.equal(validateLimits({ maxTokens: 1.5 }), "maxTokens must be a whole number of at least 1 (got 1.5)");
+	});
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { answer, createAgent, createProject, SCRIPTED_RUNNER } from "./helpers.js";
+import { runForegroundExecution } from "../index.js";
+import { createScriptedRunner, registerRunner } from "../runners.js";
+
+const makeDetails = (mode: any) => (results: any[]) => ({ mode, agentScope: "user" as const, projectAgentsDir: null, results });
+
+let project: ReturnType<typeof createProject>;
+beforeEach(() => {
+	project = createProject();
+});
+afterEach(() => project.cleanup());
+
+describe("result cache", () => {
+	it("serves a second identical call from the cache", async () => {
+		const agent = createAgent({ readOnly: true });
+		const runner = createScriptedRunner([answer("Looks fine")]);
+		registerRunner(SCRIPTED_RUNNER, runner);
+		const call = () =>
+			runForegroundExecution({ agent: agent.name, task: "Review", cache: "readwrite" }, project.dir, [agent], "user", { projectAgentsDir: null }, makeDetails);
+
+		const first = await call();
+		assert.equal(first.isError, undefined);
+		// The first call stored its result under .pi/subagent-cache/, which must not change the key
+		assert.equal(fs.readdirSync(path.join(project.dir, ".pi", "subagent-cache")).length, 1);
+
+		const second = await call();
+		assert.equal(runner.specs.length, 1);
+		assert.ok(second.details.results[0].cached);
+		assert.equal(second.content[0].text, first.content[0].text);
+	});
+
+	it("runs again once the working tree changes", async () => {
+		const agent = createAgent({ readOnly: true });
+		const runner = createScriptedRunner([answer("Looks fine"), answer("Still fine")]);
+		registerRunner(SCRIPTED_RUNNER, runner);
+		const call = () =>
+			runForegroundExecution({ agent: agent.name, task: "Review", cache: "readwrite" }, project.dir, [agent], "user", { projectAgentsDir: null }, makeDetails);
+
+		await call();
+		fs.writeFileSync(path.join(project.dir, "README.md"), "# changed\n");
+		const second = await call();
+		assert.equal(runner.specs.length, 2);
+		assert.equal(second.details.results[0].cached, undefined);
+	});
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describeCondition, evaluateCondition, getPath, resolveStepIndex, validateChain } from "../chain.js";
+
+describe("evaluateCondition", () => {
+	it("checks the output text", () => {
+		const subject = { output: "Status: APPROVED\n2 notes" };
+		assert.equal(evaluateCondition({ contains: "APPROVED" }, subject), true);
+		assert.equal(evaluateCondition({ notContains: "APPROVED" }, subject), false);
+		assert.equal(evaluateCondition({ matches: "^\\d+ notes$" }, subject), true);
+		assert.equal(evaluateCondition({ nonEmpty: false }, subject), false);
+	});
+
+	it("checks structured results, or JSON in the output", () => {
+		assert.equal(evaluateCondition({ path: "findings.length", equals: 0 }, { output: "", structured: { findings: [] } }), true);
+		assert.equal(evaluateCondition({ path: "verdict", equals: "pass" }, { output: '{"verdict": "pass"}' }), true);
+		assert.equal(evaluateCondition({ path: "findings", nonEmpty: true }, { output: "", structured: { findings: [] } }), false);
+	});
+
+	it("treats an invalid regex as not matching", () => {
+		assert.equal(evaluateCondition({ matches: "(" }, { output: "(" }), false);
+	});
+});
+
+describe("resolveStepIndex and getPath", () => {
+	const steps = [{ agent: "a", name: "scan" }, { agent: "b" }];
+	it("resolves names and 1-based indexes", () => {
+		assert.equal(resolveStepIndex(steps, "scan"), 0);
+		assert.equal(resolveStepIndex(steps, 2), 1);
+		assert.equal(resolveStepIndex(steps, "2"), 1);
+		assert.equal(resolveStepIndex(steps, 3), -1);
+	});
+	it("walks dot paths", () => {
+		assert.equal(getPath({ a: { b: [1, 2] } }, "a.b.length"), 2);
+		assert.equal(getPath({ a: null }, "a.b"), undefined);
+	});
+});
+
+describe("validateChain", () => {
+	it("accepts loops back to earlier steps", () => {
+		assert.equal(validateChain([{ agent: "a", name: "fix" }, { agent: "b", loopTo: "fix", repeatUntil: { contains: "OK" } }]), null);
+	});
+
+	it("rejects bad names, references and loop targets", () => {
+		assert.match(validateChain([{ agent: "a", name: "x" }, { agent: "b", name: "x" }])!, /Duplicate step name/);
+		assert.match(validateChain([{ agent: "a", when: { step: "nope" } }])!, /when references unknown step "nope"/);
+		assert.match(validateChain([{ agent: "a", loopTo: 2 }, { agent: "b" }])!, /itself or an earlier step/);
+		assert.match(validateChain([{ agent: "a", maxIterations: 0 }])!, /maxIterations must be between/);
+	});
+});
+
+describe("describeCondition", () => {
+	it("lists the checks", () => {
+		assert.equal(describeCondition({ step: "scan", contains: "x", nonEmpty: true }), 'step scan, contains "x", non-empty');
+		assert.equal(describeCondition({}), "(always)");
+	});
+});
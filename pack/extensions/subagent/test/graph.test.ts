@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getOutputReferences, getSinkNodes, validateGraph } from "../graph.js";
+
+const node = (id: string, dependsOn: string[] = [], task = "do it") => ({ id, agent: "worker", task, dependsOn });
+
+describe("validateGraph", () => {
+	it("accepts a DAG whose references point upstream", () => {
+		const nodes = [node("a"), node("b", ["a"]), node("c", ["b"], "use {{steps.a}} and {b.output}")];
+		assert.equal(validateGraph(nodes), null);
+	});
+
+	it("rejects cycles, unknown and duplicate nodes", () => {
+		assert.match(validateGraph([node("a", ["b"]), node("b", ["a"])])!, /cycle involving: a, b/);
+		assert.match(validateGraph([node("a", ["x"])])!, /unknown node "x"/);
+		assert.match(validateGraph([node("a"), node("a")])!, /Duplicate node id "a"/);
+		assert.match(validateGraph([node("a", ["a"])])!, /depends on itself/);
+		assert.match(validateGraph([node("1a")])!, /Invalid node id/);
+	});
+
+	it("rejects references to nodes that are not ancestors", () => {
+		const nodes = [node("a"), node("b", [], "{{steps.a}}")];
+		assert.match(validateGraph(nodes)!, /does not depend on "a"/);
+	});
+});
+
+describe("getOutputReferences", () => {
+	it("finds step outputs in both template syntaxes", () => {
+		assert.deepEqual(getOutputReferences("{{ steps.plan | trim }} {scan.json} {{previous}}"), ["plan", "scan"]);
+	});
+});
+
+describe("getSinkNodes", () => {
+	it("returns the nodes nothing depends on", () => {
+		const nodes = [node("a"), node("b", ["a"]), node("c", ["a"])];
+		assert.deepEqual(getSinkNodes(nodes).map((n) => n.id), ["b", "c"]);
+	});
+});
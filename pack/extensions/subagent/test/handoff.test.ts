@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { type ChainHandoffs, cutToTokens, estimateTokens, fitHandoffs, formatHandoffTrim, type HandoffSummary, keepSections } from "../handoff.js";
+import { renderTemplate, stepOutput } from "../template.js";
+
+const long = (label: string, tokens: number) => `${label} ${"x".repeat(tokens * 4)}`;
+const renderWith = (task: string) => (handoffs: ChainHandoffs) => renderTemplate(task, { values: { ...handoffs }, vars: {} });
+const summary = (text: string): HandoffSummary => ({
+	text,
+	model: "test/cheap",
+	usage: { input: 1, output: 1, cacheRead: 0, cacheWrite: 0, cost: 0.01, totalTokens: 2 },
+});
+
+describe("token helpers", () => {
+	it("estimates and cuts at 4 characters per token", () => {
+		assert.equal(estimateTokens("12345"), 2);
+		assert.equal(cutToTokens("short", 10), "short");
+		assert.equal(cutToTokens("abcdefghij", 2), "abcdefgh\n\n[… cut at ~2 tokens]");
+	});
+
+	it("keeps the named sections", () => {
+		const text = "## Summary\n\nok\n\n## Log\n\nnoise\n\n## Files\n\na.ts";
+		assert.equal(keepSections(text, ["Summary", "## Files", "Missing"]), "## Summary\n\nok\n\n## Files\n\na.ts");
+		assert.equal(keepSections(text, ["Missing"]), "");
+	});
+});
+
+describe("fitHandoffs", () => {
+	it("leaves a task under the limit alone", async () => {
+		const task = "Review {{previous}}";
+		const handoffs = { previous: stepOutput("small"), steps: {} };
+		const { rendered, trims } = await fitHandoffs(task, handoffs, renderWith(task), { limit: 100 });
+		assert.deepEqual(rendered, { ok: true, text: "Review small" });
+		assert.deepEqual(trims, []);
+	});
+
+	it("cuts each handoff to its share, trimming a shared output once", async () => {
+		const task = "A: {{previous}}\nB: {{steps.plan}}\nC: {{steps.other}}";
+		const plan = stepOutput(long("plan", 500));
+		const handoffs = { previous: plan, steps: { plan, other: stepOutput(long("other", 500)) } };
+		const { rendered, trims } = await fitHandoffs(task, handoffs, renderWith(task), { limit: 300 });
+		assert.deepEqual(
+			trims.map((trim) => [trim.source, trim.methods]),
+			[
+				["previous", ["cut"]],
+				["steps.other", ["cut"]],
+			],
+		);
+		assert.ok(rendered.ok && estimateTokens(rendered.text) <= 400);
+		assert.ok(rendered.ok && rendered.text.startsWith("A: plan"));
+	});
+
+	it("leaves room for the task's own text", async () => {
+		const task = `${"Instructions. ".repeat(40)}\n{{previous}}`;
+		const { rendered, trims } = await fitHandoffs(task, { previous: stepOutput(long("plan", 400)), steps: {} }, renderWith(task), { limit: 300 });
+		assert.equal(trims[0].methods[0], "cut");
+		assert.ok(rendered.ok && estimateTokens(rendered.text) <= 310, `rendered ~${rendered.ok && estimateTokens(rendered.text)} tokens`);
+	});
+
+	it("keeps sections first, then summarizes, and reports the summary", async () => {
+		const task = "Implement {{previous}}";
+		const output = `## Plan\n\n${long("steps", 200)}\n\n## Notes\n\n${long("notes", 200)}`;
+		const summaries: HandoffSummary[] = [];
+		const { rendered, trims } = await fitHandoffs(task, { previous: stepOutput(output), steps: {} }, renderWith(task), {
+			limit: 100,
+			sections: ["Plan"],
+			summarize: async () => summary("condensed plan"),
+			onSummary: (made) => summaries.push(made),
+		});
+		assert.deepEqual(rendered, { ok: true, text: "Implement condensed plan" });
+		assert.deepEqual(trims[0].methods, ["sections", "summary"]);
+		assert.equal(summaries.length, 1);
+		assert.equal(formatHandoffTrim(trims[0]), `previous trimmed from ~${estimateTokens(output)} to ~4 tokens (sections, then summary by test/cheap)`);
+	});
+
+	it("falls back to a cut when the summary fails", async () => {
+		const task = "Implement {{previous}}";
+		const error = console.error;
+		console.error = () => {};
+		try {
+			const { trims } = await fitHandoffs(task, { previous: stepOutput(long("plan", 400)), steps: {} }, renderWith(task), {
+				limit: 100,
+				summarize: async () => {
+					throw new Error("no credentials");
+				},
+			});
+			assert.deepEqual(trims[0].methods, ["cut"]);
+		} finally {
+			console.error = error;
+		}
+	});
+});
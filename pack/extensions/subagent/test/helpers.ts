@@ -0,0 +1,72 @@
+/**
+ * Test helpers: throwaway projects, agents and scripted runs
+ *
+ * Tests run through jiti, as pi loads the extension (see the README's Tests
+ * section). HOME points at a temporary directory before anything is imported,
+ * so sessions and journals never touch the real ~/.pi.
+ */
+
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { AgentConfig } from "../agents.js";
+import type { ScriptedRun } from "../runners.js";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-test-home-"));
+process.env.HOME = home;
+process.on("exit", () => fs.rmSync(home, { recursive: true, force: true }));
+
+export const SCRIPTED_RUNNER = "scripted";
+
+/** A git repository with one commit, removed by the returned cleanup */
+export function createProject(): { dir: string; cleanup: () => void } {
+	const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-test-")));
+	const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+	git("init", "-q");
+	git("config", "user.email", "test@example.com");
+	git("config", "user.name", "test");
+	fs.writeFileSync(path.join(dir, "README.md"), "# test\n");
+	git("add", "-A");
+	git("commit", "-q", "-m", "init");
+	return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+export function createAgent(overrides: Partial<AgentConfig> = {}): AgentConfig {
+	return {
+		name: "fake",
+		description: "Scripted test agent",
+		systemPrompt: "You are a test agent.",
+		source: "project",
+		filePath: "/nonexistent/fake.md",
+		runner: SCRIPTED_RUNNER,
+		...overrides,
+	};
+}
+
+interface TurnOptions {
+	toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+	stopReason?: string;
+	cost?: number;
+	tokens?: number;
+}
+
+/** Events of one assistant turn: the message, then the turn boundary */
+export function assistantTurn(text: string, options: TurnOptions = {}): any[] {
+	const toolCalls = (options.toolCalls ?? []).map((call, i) => ({ type: "toolCall", id: `call-${i + 1}`, ...call }));
+	const tokens = options.tokens ?? 100;
+	const message = {
+		role: "assistant",
+		content: [...(text ? [{ type: "text", text }] : []), ...toolCalls],
+		model: "fake-model",
+		stopReason: options.stopReason ?? (toolCalls.length > 0 ? "toolUse" : "stop"),
+		usage: { input: tokens, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: tokens, cost: { total: options.cost ?? 0 } },
+		timestamp: Date.now(),
+	};
+	return [{ type: "message_end", message }, { type: "turn_end" }];
+}
+
+/** A run that answers with `text` in a single turn */
+export function answer(text: string, effect?: ScriptedRun["effect"]): ScriptedRun {
+	return { events: assistantTurn(text), effect };
+}
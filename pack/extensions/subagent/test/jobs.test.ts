@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, it } from "node:test";
+import "./helpers.js";
+import { deleteJobRecord, getJobJournalDir, type JobRecord, jobRecordExists, readJobRecords, writeJobRecord } from "../jobs.js";
+
+function job(overrides: Partial<JobRecord> = {}): JobRecord {
+	return {
+		id: "job-1",
+		status: "running",
+		agent: "worker",
+		task: "Do the task",
+		mode: "single",
+		params: { agent: "worker", task: "Do the task" },
+		cwd: "/work/project",
+		ownerPid: process.pid,
+		startedAt: 1000,
+		...overrides,
+	};
+}
+
+/** Pid of a process that has already exited */
+function deadPid(): number {
+	return spawnSync(process.execPath, ["-e", ""]).pid;
+}
+
+beforeEach(() => fs.rmSync(getJobJournalDir(), { recursive: true, force: true }));
+
+describe("job journal", () => {
+	it("writes, reads back and deletes the jobs of a project", () => {
+		const result = { content: [{ type: "text" as const, text: "Done" }], details: { mode: "single" } };
+		writeJobRecord(job({ status: "completed", finishedAt: 2000, result }));
+		assert.equal(jobRecordExists("job-1"), true);
+		assert.deepEqual(readJobRecords("/work/project/"), [job({ status: "completed", finishedAt: 2000, result })]);
+		deleteJobRecord("job-1");
+		assert.equal(jobRecordExists("job-1"), false);
+		assert.deepEqual(readJobRecords("/work/project"), []);
+	});
+
+	it("leaves runtime state out of the record", () => {
+		writeJobRecord({ ...job(), controller: new AbortController() } as JobRecord);
+		const stored = JSON.parse(fs.readFileSync(path.join(getJobJournalDir(), "job-1.json"), "utf-8"));
+		assert.equal("controller" in stored, false);
+	});
+
+	it("returns only the jobs of the given project, oldest first", () => {
+		writeJobRecord(job({ id: "late", startedAt: 3000 }));
+		writeJobRecord(job({ id: "early", startedAt: 1000 }));
+		writeJobRecord(job({ id: "elsewhere", cwd: "/work/other" }));
+		fs.writeFileSync(path.join(getJobJournalDir(), "broken.json"), "{");
+		assert.deepEqual(readJobRecords("/work/project").map((j) => j.id), ["early", "late"]);
+	});
+
+	it("skips jobs still owned by another live process", () => {
+		writeJobRecord(job({ ownerPid: process.ppid }));
+		assert.deepEqual(readJobRecords("/work/project"), []);
+	});
+
+	it("takes over the jobs of a process that is gone, marking running ones interrupted", () => {
+		const pid = deadPid();
+		writeJobRecord(job({ id: "running", ownerPid: pid, lastUpdateAt: 1500 }));
+		writeJobRecord(job({ id: "waiting", status: "waiting_approval", ownerPid: pid, startedAt: 1100 }));
+		writeJobRecord(job({ id: "paused", status: "paused", ownerPid: pid, startedAt: 1200, sessionId: "sa-1" }));
+
+		const records = readJobRecords("/work/project");
+		assert.deepEqual(
+			records.map((j) => [j.id, j.status, j.finishedAt]),
+			[["running", "interrupted", 1500], ["waiting", "interrupted", 1100], ["paused", "paused", undefined]],
+		);
+		// The takeover is journaled, so no other process claims the jobs again
+		const stored = JSON.parse(fs.readFileSync(path.join(getJobJournalDir(), "running.json"), "utf-8"));
+		assert.equal(stored.ownerPid, process.pid);
+		assert.equal(stored.status, "interrupted");
+	});
+});
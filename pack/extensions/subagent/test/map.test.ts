@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { buildReduceTask, expandGlob, formatMapOutputs, MAX_MAP_ITEMS, renderMapTask, resolveMapItems } from "../map.js";
+
+let dir: string;
+before(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-subagent-map-"));
+	for (const file of ["packages/a/package.json", "packages/b/package.json", "packages/b/src/x.ts", "node_modules/c/package.json"]) {
+		fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+		fs.writeFileSync(path.join(dir, file), "");
+	}
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe("expandGlob", () => {
+	it("matches within and across segments, skipping node_modules", () => {
+		assert.deepEqual(expandGlob("packages/*", dir), ["packages/a", "packages/b"]);
+		assert.deepEqual(expandGlob("**/package.json", dir), ["packages/a/package.json", "packages/b/package.json"]);
+		assert.deepEqual(expandGlob("packages/{a,b}/src/*.ts", dir), ["packages/b/src/x.ts"]);
+	});
+});
+
+describe("resolveMapItems", () => {
+	it("returns literal items or glob matches", () => {
+		assert.deepEqual(resolveMapItems({ items: ["x", "y"] }, dir), ["x", "y"]);
+		assert.deepEqual(resolveMapItems({ itemsFrom: { glob: "*", cwd: "packages" } }, dir), ["a", "b"]);
+	});
+
+	it("explains what is wrong with the source", () => {
+		assert.equal(resolveMapItems({}, dir), "Provide items or itemsFrom.");
+		assert.match(resolveMapItems({ itemsFrom: { glob: "../*" } }, dir) as string, /must be relative/);
+		assert.match(resolveMapItems({ itemsFrom: { glob: "nothing/*" } }, dir) as string, /matched nothing/);
+		assert.match(resolveMapItems({ items: new Array(MAX_MAP_ITEMS + 1).fill("x") }, dir) as string, /Too many map items/);
+	});
+});
+
+describe("map tasks", () => {
+	const base = { values: {}, vars: { focus: "security" } };
+
+	it("fills in the item, its 1-based index and vars", () => {
+		assert.deepEqual(renderMapTask("Audit {{item}} (#{{index}}) for {{focus}}", "packages/a", 0, base), {
+			ok: true,
+			text: "Audit packages/a (#1) for security",
+		});
+	});
+
+	it("appends the outputs to a reduce task that does not place them", () => {
+		const outputs = [
+			{ item: "a", output: "fine", failed: false },
+			{ item: "b", output: "", failed: true },
+		];
+		const sections = "## a\n\nfine\n\n## b (failed)\n\n(no output)";
+		assert.equal(formatMapOutputs(outputs), sections);
+		assert.deepEqual(buildReduceTask("Summarize for {{focus}}", outputs, base), { ok: true, text: `Summarize for security\n\n${sections}` });
+		assert.deepEqual(buildReduceTask("Results:\n{{outputs}}\nEnd", outputs, base), { ok: true, text: `Results:\n${sections}\nEnd` });
+	});
+});
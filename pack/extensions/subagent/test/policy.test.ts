@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { checkToolCall, matchesGlob, policyPath, splitCommand, validatePolicy } from "../policy.js";
+
+const cwd = path.join(os.tmpdir(), "project");
+
+describe("matchesGlob", () => {
+	it("supports *, ?, [...], {a,b} and **", () => {
+		assert.equal(matchesGlob("src/*.ts", "src/a.ts"), true);
+		assert.equal(matchesGlob("src/*.ts", "src/lib/a.ts"), false);
+		assert.equal(matchesGlob("src/**/*.ts", "src/a.ts"), true);
+		assert.equal(matchesGlob("src/**/*.ts", "src/lib/deep/a.ts"), true);
+		assert.equal(matchesGlob("file?.[!b]", "file1.a"), true);
+		assert.equal(matchesGlob("file?.[!b]", "file1.b"), false);
+		assert.equal(matchesGlob("./{src,test}/**", "test/x/y"), true);
+	});
+});
+
+describe("policyPath", () => {
+	it("is relative inside cwd and absolute outside", () => {
+		assert.equal(policyPath("src/a.ts", cwd), "src/a.ts");
+		assert.equal(policyPath(path.join(cwd, "b"), cwd), "b");
+		assert.equal(policyPath(".", cwd), ".");
+		assert.equal(policyPath("../other", cwd), path.join(os.tmpdir(), "other").split(path.sep).join("/"));
+	});
+});
+
+describe("checkToolCall", () => {
+	it("checks every part of a chained command", () => {
+		const policy = { commands: { allow: ["^git (status|diff)", "^ls\\b"], deny: ["rm -rf"] } };
+		assert.deepEqual(splitCommand("git status && ls | wc -l; echo\nrm x"), ["git status", "ls", "wc -l", "echo", "rm x"]);
+		assert.equal(checkToolCall(policy, "bash", { command: "git status && ls -la" }, cwd), null);
+		assert.equal(checkToolCall(policy, "bash", { command: "git status; git push" }, cwd), 'command "git push" is not allowed');
+		assert.equal(checkToolCall(policy, "bash", { command: "ls && rm -rf /" }, cwd), "command matches denied /rm -rf/");
+	});
+
+	it("checks path arguments, with deny winning over allow", () => {
+		const policy = { paths: { allow: ["src/**", "."], deny: ["**/*.env"] } };
+		assert.equal(checkToolCall(policy, "read", { path: "src/a.ts" }, cwd), null);
+		assert.equal(checkToolCall(policy, "edit", { file_path: "src/.env" }, cwd), "path src/.env matches denied **/*.env");
+		assert.equal(checkToolCall(policy, "write", { path: "README.md" }, cwd), "path README.md is not allowed");
+		// ls without a path lists cwd
+		assert.equal(checkToolCall(policy, "ls", {}, cwd), null);
+		// Tools without a path argument are not checked
+		assert.equal(checkToolCall(policy, "bash", { command: "cat README.md" }, cwd), null);
+	});
+});
+
+describe("validatePolicy", () => {
+	it("reports shape problems and invalid regexes", () => {
+		assert.equal(validatePolicy({ commands: { deny: ["^rm"] }, paths: { allow: ["src/**"] } }), null);
+		assert.equal(validatePolicy([]), "expected an object with commands and/or paths");
+		assert.equal(validatePolicy({ files: {} }), 'unknown key "files" (expected commands, paths)');
+		assert.equal(validatePolicy({ paths: { only: [] } }), 'unknown key "paths.only" (expected allow, deny)');
+		assert.equal(validatePolicy({ paths: { deny: "x" } }), "paths.deny must be a list of strings");
+		assert.equal(validatePolicy({ commands: { deny: ["("] } }), "invalid regex in commands.deny: (");
+	});
+});
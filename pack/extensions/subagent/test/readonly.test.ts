@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { answer, assistantTurn, createAgent, createProject, SCRIPTED_RUNNER } from "./helpers.js";
+import { runForegroundExecution } from "../index.js";
+import { describeTreeChanges, snapshotWorkingTree, trackWritingRun, watchForWritingRuns } from "../readonly.js";
+import { createScriptedRunner, registerRunner } from "../runners.js";
+
+const makeDetails = (mode: any) => (results: any[]) => ({ mode, agentScope: "user" as const, projectAgentsDir: null, results });
+
+let project: ReturnType<typeof createProject>;
+beforeEach(() => {
+	project = createProject();
+});
+afterEach(() => project.cleanup());
+
+describe("working tree snapshots", () => {
+	it("report what changed, and nothing for the extension's own output", () => {
+		const before = snapshotWorkingTree(project.dir)!;
+		fs.mkdirSync(path.join(project.dir, ".pi", "subagent-cache"), { recursive: true });
+		fs.writeFileSync(path.join(project.dir, ".pi", "subagent-cache", "entry.json"), "{}");
+		assert.equal(describeTreeChanges(before, snapshotWorkingTree(project.dir)!), null);
+		fs.writeFileSync(path.join(project.dir, "README.md"), "# changed\n");
+		assert.match(describeTreeChanges(before, snapshotWorkingTree(project.dir)!) ?? "", /^changed: .*README\.md$/);
+	});
+});
+
+describe("writing runs", () => {
+	it("are seen by a watch that overlaps them, even when they ended before it is read", () => {
+		const overlapped = watchForWritingRuns(project.dir);
+		assert.equal(overlapped(), false);
+		const end = trackWritingRun(path.join(project.dir, "."));
+		end();
+		assert.equal(overlapped(), true);
+		assert.equal(watchForWritingRuns(project.dir)(), false);
+	});
+
+	it("leave a read-only agent running next to them unverified instead of failed", async () => {
+		const scout = createAgent({ name: "scout", readOnly: true });
+		const worker = createAgent({ name: "worker" });
+		const write = () => fs.writeFileSync(path.join(project.dir, "feature.ts"), "export {};\n");
+		// The scout is still going when the worker writes
+		const scoutTurns = [
+			...assistantTurn("", { toolCalls: [{ name: "read", arguments: { path: "README.md" } }] }),
+			...assistantTurn("", { toolCalls: [{ name: "ls", arguments: {} }] }),
+			...assistantTurn("Found it"),
+		];
+		const runner = createScriptedRunner((spec) => (spec.prompt.includes("Look") ? { events: scoutTurns } : answer("Written", write)));
+		registerRunner(SCRIPTED_RUNNER, runner);
+
+		const tasks = [
+			{ agent: "scout", task: "Look around" },
+			{ agent: "worker", task: "Write the feature" },
+		];
+		const result = await runForegroundExecution({ tasks }, project.dir, [scout, worker], "user", { projectAgentsDir: null }, makeDetails);
+
+		assert.equal(result.isError, undefined);
+		const [scoutResult] = result.details.results;
+		assert.equal(scoutResult.exitCode, 0);
+		assert.deepEqual(scoutResult.readOnly, { verified: false, unverifiedReason: "other runs wrote to the same checkout" });
+		assert.ok(fs.existsSync(path.join(project.dir, "feature.ts")));
+	});
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createProject } from "./helpers.js";
+import { type AgentChange, type AgentRegistry, createAgentRegistry, formatAgentChange } from "../registry.js";
+
+let project: ReturnType<typeof createProject>;
+let registry: AgentRegistry | undefined;
+beforeEach(() => {
+	project = createProject();
+});
+afterEach(() => {
+	registry?.dispose();
+	registry = undefined;
+	project.cleanup();
+});
+
+const agentsDir = () => path.join(project.dir, ".pi", "agents");
+
+function writeAgent(name: string, model: string): void {
+	fs.mkdirSync(agentsDir(), { recursive: true });
+	fs.writeFileSync(path.join(agentsDir(), `${name}.md`), `---\nname: ${name}\ndescription: Test agent\nmodel: ${model}\n---\n\nWork.\n`);
+}
+
+/**
+ * A registry and a promise of the next changes it reports. The watchers do not
+ * keep the process alive, so the wait holds a timer of its own.
+ */
+function watchRegistry(): { registry: AgentRegistry; next: () => Promise<AgentChange[]> } {
+	let waiting: ((changes: AgentChange[]) => void) | undefined;
+	const created = createAgentRegistry((changes) => waiting?.(changes));
+	registry = created;
+	const next = () =>
+		new Promise<AgentChange[]>((resolve, reject) => {
+			const timer = setTimeout(() => reject(new Error("no change reported")), 3000);
+			waiting = (changes) => {
+				clearTimeout(timer);
+				resolve(changes);
+			};
+		});
+	return { registry: created, next };
+}
+
+describe("agent registry", () => {
+	it("reuses the discovery for every cwd of a project", () => {
+		writeAgent("worker", "model-a");
+		const { registry } = watchRegistry();
+		fs.mkdirSync(path.join(project.dir, "src"));
+		const first = registry.discover(project.dir, "project");
+		assert.equal(registry.discover(path.join(project.dir, "src"), "project"), first);
+		assert.equal(registry.peek(project.dir, "project"), first);
+		assert.equal(registry.peek(project.dir, "user"), undefined);
+	});
+
+	it("reloads an edited agent and reports what changed", async () => {
+		writeAgent("worker", "model-a");
+		const { registry, next } = watchRegistry();
+		assert.equal(registry.discover(project.dir, "project").agents[0].model, "model-a");
+
+		const changed = next();
+		writeAgent("worker", "model-b");
+		const changes = await changed;
+		assert.deepEqual(changes, [{ name: "worker", source: "project", kind: "reloaded", fields: ["model"] }]);
+		assert.equal(formatAgentChange(changes[0]), "agent worker (project) reloaded (model changed)");
+		assert.equal(registry.discover(project.dir, "project").agents[0].model, "model-b");
+	});
+
+	it("picks up agents added and removed while it runs", async () => {
+		writeAgent("worker", "model-a");
+		const { registry, next } = watchRegistry();
+		registry.discover(project.dir, "project");
+
+		let changed = next();
+		writeAgent("scout", "model-a");
+		assert.deepEqual(await changed, [{ name: "scout", source: "project", kind: "added", fields: [] }]);
+
+		changed = next();
+		fs.rmSync(path.join(agentsDir(), "worker.md"));
+		assert.deepEqual(await changed, [{ name: "worker", source: "project", kind: "removed", fields: [] }]);
+		assert.deepEqual(registry.discover(project.dir, "project").agents.map((a) => a.name), ["scout"]);
+	});
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planAttempts, resolveRetryPolicy, sleep } from "../retry.js";
+
+describe("resolveRetryPolicy", () => {
+	it("lets step settings win field by field, including 0", () => {
+		assert.deepEqual(resolveRetryPolicy({ retries: 0 }, { retries: 3, retryDelayMs: 10, fallbackModels: ["b"] }), {
+			retries: 0,
+			retryDelayMs: 10,
+			fallbackModels: ["b"],
+		});
+	});
+});
+
+describe("planAttempts", () => {
+	it("gives each model 1 + retries attempts with exponential backoff", () => {
+		assert.deepEqual(planAttempts({ retries: 2, retryDelayMs: 100, fallbackModels: ["b"] }, "a"), [
+			{ model: "a", delayMs: 0 },
+			{ model: "a", delayMs: 100 },
+			{ model: "a", delayMs: 200 },
+			{ model: "b", delayMs: 0 },
+			{ model: "b", delayMs: 100 },
+			{ model: "b", delayMs: 200 },
+		]);
+	});
+
+	it("skips a fallback that is the primary model and caps the delay", () => {
+		assert.deepEqual(planAttempts({ fallbackModels: ["a"] }, "a"), [{ model: "a", delayMs: 0 }]);
+		assert.equal(planAttempts({ retries: 10, retryDelayMs: 30_000 }, undefined).at(-1)?.delayMs, 60_000);
+	});
+});
+
+describe("sleep", () => {
+	it("resolves early when the signal aborts", async () => {
+		const controller = new AbortController();
+		const started = Date.now();
+		setTimeout(() => controller.abort(), 10);
+		await sleep(10_000, controller.signal);
+		assert.ok(Date.now() - started < 1000);
+	});
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { answer, createAgent, createProject, SCRIPTED_RUNNER } from "./helpers.js";
+import { runForegroundExecution } from "../index.js";
+import { createScriptedRunner, registerRunner } from "../runners.js";
+
+const makeDetails = (mode: any) => (results: any[]) => ({ mode, agentScope: "user" as const, projectAgentsDir: null, results });
+
+let project: ReturnType<typeof createProject>;
+beforeEach(() => {
+	project = createProject();
+});
+afterEach(() => project.cleanup());
+
+describe("chain approval", () => {
+	it("hands the edited output to every placeholder that names it", async () => {
+		const agent = createAgent();
+		const runner = createScriptedRunner([answer("original plan"), answer("done")]);
+		registerRunner(SCRIPTED_RUNNER, runner);
+		const chain = [
+			{ name: "plan", agent: agent.name, task: "Plan" },
+			{ agent: agent.name, task: "A={{previous}} B={{previous.json}} C={{steps.plan}} D={{steps.1}}", approve: true },
+		];
+
+		const result = await runForegroundExecution({ chain }, project.dir, [agent], "user", { projectAgentsDir: null }, makeDetails,
+			undefined, undefined, undefined, undefined, async () => "edited plan");
+
+		assert.equal(result.isError, undefined);
+		assert.match(runner.specs[1].prompt, /A=edited plan B=edited plan C=edited plan D=edited plan/);
+		assert.equal(result.details.results[1].approval, "edited");
+	});
+});
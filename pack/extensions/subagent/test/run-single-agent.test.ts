@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { answer, assistantTurn, createAgent, createProject, SCRIPTED_RUNNER } from "./helpers.js";
+import type { AgentConfig } from "../agents.js";
+import { runSingleAgent } from "../index.js";
+import { createScriptedRunner, registerRunner, type RunSpec, type ScriptedRun } from "../runners.js";
+
+const makeDetails = (results: any[]) => ({ mode: "single" as const, agentScope: "user" as const, projectAgentsDir: null, results });
+
+let project: ReturnType<typeof createProject>;
+beforeEach(() => {
+	project = createProject();
+});
+afterEach(() => project.cleanup());
+
+function run(agent: AgentConfig, script: ScriptedRun[]) {
+	const runner = createScriptedRunner(script);
+	registerRunner(SCRIPTED_RUNNER, runner);
+	const result = runSingleAgent({ defaultCwd: project.dir, agents: [agent], agentName: agent.name, task: "Do the task", makeDetails, enableSession: false });
+	return { runner, result };
+}
+
+describe("runSingleAgent", () => {
+	it("returns the final answer of a clean run", async () => {
+		const { runner, result } = run(createAgent(), [answer("All done")]);
+		const r = await result;
+		assert.equal(r.exitCode, 0);
+		assert.equal(r.usage.turns, 1);
+		assert.equal(runner.specs.length, 1);
+		assert.equal(runner.specs[0].prompt, "Task: Do the task");
+	});
+
+	it("stops at the turn limit and reports budget_exceeded", async () => {
+		const agent = createAgent({ maxTurns: 1 });
+		const events = [
+			...assistantTurn("", { toolCalls: [{ name: "read", arguments: { path: "README.md" } }] }),
+			...assistantTurn("never reached"),
+		];
+		const r = await run(agent, [{ events }]).result;
+		assert.equal(r.stopReason, "budget_exceeded");
+		assert.equal(r.exitCode, 1);
+		assert.match(r.errorMessage ?? "", /1 turns \(limit 1\)/);
+		assert.equal(r.usage.turns, 1);
+	});
+
+	it("stops at the first tool call that breaks the policy", async () => {
+		const agent = createAgent({ policy: { commands: { deny: ["\\brm\\b"] } } });
+		const events = [
+			...assistantTurn("", { toolCalls: [{ name: "bash", arguments: { command: "ls && rm -rf src" } }] }),
+			...assistantTurn("never reached"),
+		];
+		const r = await run(agent, [{ events }]).result;
+		assert.equal(r.exitCode, 1);
+		assert.equal(r.policyViolation?.toolName, "bash");
+		assert.match(r.errorMessage ?? "", /^Policy violation: bash command matches denied/);
+		assert.equal(r.messages.length, 1);
+	});
+
+	it("loads a guard into the child that blocks denied calls before they run", async () => {
+		const agent = createAgent({ policy: { commands: { deny: ["\\brm\\b"] }, paths: { deny: ["**/.env"] } } });
+		// The guard lives with the run's temp files; keep a copy to load after the run
+		const copy = path.join(project.dir, "guard.ts");
+		const keepGuard = (spec: RunSpec) => fs.copyFileSync(spec.extensions.find((file) => file.endsWith("policy-guard.ts"))!, copy);
+		await run(agent, [answer("Nothing to do", keepGuard)]).result;
+
+		const handlers: Array<(event: any, ctx: any) => Promise<any>> = [];
+		const guard = (await import(copy)).default;
+		guard({ on: (event: string, handler: any) => event === "tool_call" && handlers.push(handler) });
+		assert.equal(handlers.length, 1);
+		const call = (toolName: string, input: Record<string, unknown>) => handlers[0]({ type: "tool_call", toolName, input }, { cwd: project.dir });
+		assert.deepEqual(await call("bash", { command: "git status; rm -rf src" }), {
+			block: true,
+			reason: "Blocked by the agent's policy: command matches denied /\\brm\\b/",
+		});
+		assert.equal((await call("read", { path: "config/.env" }))?.block, true);
+		assert.equal(await call("bash", { command: "git status" }), undefined);
+	});
+
+	it("fails a read-only agent that changed the working tree", async () => {
+		const agent = createAgent({ readOnly: true });
+		const write = () => fs.writeFileSync(path.join(project.dir, "notes.txt"), "changed");
+		const r = await run(agent, [answer("Looked around", write)]).result;
+		assert.equal(r.exitCode, 1);
+		assert.match(r.errorMessage ?? "", /^Read-only violation: .*notes\.txt/);
+		assert.equal(r.readOnly?.verified, true);
+	});
+
+	it("ignores the extension's own output in a read-only check", async () => {
+		const agent = createAgent({ readOnly: true });
+		// What a sibling run writes while this one runs
+		const archive = () => {
+			const dir = path.join(project.dir, ".pi", "subagent-runs");
+			fs.mkdirSync(dir, { recursive: true });
+			fs.writeFileSync(path.join(dir, "sibling.jsonl"), "{}\n");
+		};
+		const r = await run(agent, [answer("Looked around", archive)]).result;
+		assert.equal(r.exitCode, 0);
+		assert.deepEqual(r.readOnly, { verified: true, violation: undefined });
+	});
+
+	it("re-prompts once when the answer does not match the output schema", async () => {
+		const agent = createAgent({ outputSchema: { type: "object", required: ["ok"], properties: { ok: { type: "boolean" } } } });
+		const { runner, result } = run(agent, [answer("Done, no JSON"), answer('```json\n{ "ok": true }\n```')]);
+		const r = await result;
+		assert.equal(r.exitCode, 0);
+		assert.deepEqual(r.structured, { ok: true });
+		assert.equal(runner.specs.length, 2);
+		assert.equal(runner.specs[1].session?.resume, true);
+		assert.match(runner.specs[1].prompt, /did not satisfy the required output schema/);
+	});
+
+	it("fails when the re-prompted answer still does not match the schema", async () => {
+		const agent = createAgent({ outputSchema: { type: "object", required: ["ok"] } });
+		const r = await run(agent, [answer("no JSON"), answer('{ "other": 1 }')]).result;
+		assert.equal(r.exitCode, 1);
+		assert.deepEqual(r.schemaErrors, ['$: missing required property "ok"']);
+		assert.match(r.errorMessage ?? "", /^Output does not match outputSchema/);
+	});
+});
+
+describe("steering", () => {
+	const runSteered = (script: ScriptedRun[], steering: { queue: string[]; pauseRequested: boolean }) => {
+		const runner = createScriptedRunner(script);
+		registerRunner(SCRIPTED_RUNNER, runner);
+		const agent = createAgent();
+		const result = runSingleAgent({ defaultCwd: project.dir, agents: [agent], agentName: agent.name, task: "Do the task", makeDetails, enableSession: false, steering });
+		return { runner, result };
+	};
+	const readTurn = () => assistantTurn("", { toolCalls: [{ name: "read", arguments: { path: "README.md" } }] });
+
+	it("delivers a queued message at the next turn boundary, in the same session", async () => {
+		const steering = { queue: [] as string[], pauseRequested: false };
+		const send = () => steering.queue.push("Also check the tests", "And the docs");
+		const { runner, result } = runSteered([{ events: [...readTurn(), ...assistantTurn("never reached")], effect: send }, answer("Checked all of it")], steering);
+		const r = await result;
+		assert.equal(r.exitCode, 0);
+		assert.equal(runner.specs.length, 2);
+		assert.ok(runner.specs[0].session);
+		assert.deepEqual(runner.specs[1].session, { ...runner.specs[0].session, resume: true });
+		assert.equal(runner.specs[1].prompt, "Also check the tests\n\nAnd the docs");
+		assert.deepEqual(steering.queue, []);
+		assert.equal(r.messages.length, 2);
+	});
+
+	it("pauses a run that is still working, keeping its session", async () => {
+		const steering = { queue: [] as string[], pauseRequested: false };
+		const pause = () => {
+			steering.pauseRequested = true;
+		};
+		const { runner, result } = runSteered([{ events: [...readTurn(), ...assistantTurn("never reached")], effect: pause }], steering);
+		const r = await result;
+		assert.equal(r.stopReason, "paused");
+		assert.equal(r.exitCode, 0);
+		assert.equal(runner.specs.length, 1);
+		assert.equal(r.messages.length, 1);
+	});
+
+	it("does not pause a run that already gave its answer", async () => {
+		const steering = { queue: [] as string[], pauseRequested: false };
+		const pause = () => {
+			steering.pauseRequested = true;
+		};
+		const r = await runSteered([answer("All done", pause)], steering).result;
+		assert.equal(r.stopReason, "stop");
+		assert.equal(r.exitCode, 0);
+	});
+});
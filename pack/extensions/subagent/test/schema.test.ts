@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractJson, validateAgainstSchema, validateOutput } from "../schema.js";
+
+const schema = {
+	type: "object",
+	required: ["verdict", "findings"],
+	additionalProperties: false,
+	properties: {
+		verdict: { enum: ["pass", "fail"] },
+		findings: { type: "array", maxItems: 2, items: { type: "object", required: ["file"], properties: { line: { type: "integer", minimum: 1 } } } },
+	},
+};
+
+describe("validateAgainstSchema", () => {
+	it("accepts a matching value", () => {
+		assert.deepEqual(validateAgainstSchema({ verdict: "pass", findings: [{ file: "a.ts", line: 3 }] }, schema), []);
+	});
+
+	it("reports every problem with its path", () => {
+		const errors = validateAgainstSchema({ verdict: "maybe", findings: [{ line: 0 }], extra: 1 }, schema);
+		assert.deepEqual(errors, [
+			'$.verdict: must be one of "pass", "fail"',
+			'$.findings[0]: missing required property "file"',
+			"$.findings[0].line: must be >= 1",
+			'$: unexpected property "extra"',
+		]);
+	});
+
+	it("checks types first", () => {
+		assert.deepEqual(validateAgainstSchema([], schema), ["$: expected object, got array"]);
+		assert.deepEqual(validateAgainstSchema(1.5, { type: "integer" }), ["$: expected integer, got number"]);
+	});
+});
+
+describe("extractJson", () => {
+	it("prefers the last json block", () => {
+		const text = '```json\n{"a": 1}\n```\nthen\n```json\n{"a": 2}\n```';
+		assert.deepEqual(extractJson(text).value, { a: 2 });
+	});
+
+	it("falls back to the outermost braces", () => {
+		assert.deepEqual(extractJson('Result: {"ok": true} as asked').value, { ok: true });
+		assert.ok(extractJson("no json here").error);
+	});
+});
+
+describe("validateOutput", () => {
+	it("returns the value only when it matches", () => {
+		assert.deepEqual(validateOutput('{"verdict": "fail", "findings": []}', schema), { value: { verdict: "fail", findings: [] }, errors: [] });
+		assert.equal(validateOutput('{"verdict": "fail"}', schema).value, undefined);
+	});
+});
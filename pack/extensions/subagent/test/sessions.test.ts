@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, it } from "node:test";
+import "./helpers.js";
+import {
+	createSession,
+	deleteSession,
+	evictOldSessions,
+	getSession,
+	getSessionStoreDir,
+	listSessions,
+	renameSession,
+	setSessionInUse,
+	summarizeSessionFile,
+	touchSession,
+} from "../sessions.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rewrite the stored index, as another pi process (or the passing of time) would */
+function editIndex(edit: (sessions: any[]) => void): void {
+	const indexPath = path.join(getSessionStoreDir(), "index.json");
+	const index = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+	edit(index.sessions);
+	fs.writeFileSync(indexPath, JSON.stringify(index));
+}
+
+beforeEach(() => fs.rmSync(getSessionStoreDir(), { recursive: true, force: true }));
+
+describe("session store", () => {
+	it("keeps a created session, its prompt and its metadata on disk", () => {
+		const session = createSession("scout/v2", "You are a scout.", "/work", "\n  Find the parser\nand more");
+		assert.equal(session.title, "Find the parser");
+		assert.equal(path.dirname(session.sessionFilePath), getSessionStoreDir());
+		assert.match(path.basename(session.sessionFilePath), /-scout_v2\.jsonl$/);
+		assert.equal(fs.readFileSync(session.promptFilePath!, "utf-8"), "You are a scout.");
+		assert.deepEqual(getSession(session.id), session);
+		assert.equal(createSession("bare", "  ", "/work", "Task").promptFilePath, null);
+	});
+
+	it("lists the most recently used session first", () => {
+		const first = createSession("a", "", "/work", "First");
+		const second = createSession("b", "", "/work", "Second");
+		editIndex((sessions) => {
+			for (const s of sessions) s.lastUsedAt = s.id === first.id ? 1000 : 2000;
+		});
+		assert.deepEqual(listSessions().map((s) => s.id), [second.id, first.id]);
+		touchSession(first.id);
+		assert.deepEqual(listSessions().map((s) => s.id), [first.id, second.id]);
+	});
+
+	it("renames a session, and falls back to a placeholder for an empty title", () => {
+		const session = createSession("a", "", "/work", "Task");
+		assert.equal(renameSession(session.id, "  Parser work ")?.title, "Parser work");
+		assert.equal(getSession(session.id)?.title, "Parser work");
+		assert.equal(renameSession(session.id, " ")?.title, "(untitled)");
+		assert.equal(renameSession("sa-missing", "x"), undefined);
+	});
+
+	it("deletes a session with its files", () => {
+		const session = createSession("a", "Prompt", "/work", "Task");
+		fs.writeFileSync(session.sessionFilePath, "{}\n");
+		assert.equal(deleteSession(session.id), true);
+		assert.equal(getSession(session.id), undefined);
+		assert.equal(fs.existsSync(session.sessionFilePath), false);
+		assert.equal(fs.existsSync(session.promptFilePath!), false);
+		assert.equal(deleteSession(session.id), false);
+	});
+
+	it("evicts sessions unused for a week, except those in use", () => {
+		const stale = createSession("a", "Prompt", "/work", "Stale");
+		const busy = createSession("b", "", "/work", "Busy");
+		const fresh = createSession("c", "", "/work", "Fresh");
+		editIndex((sessions) => {
+			for (const s of sessions) if (s.id !== fresh.id) s.lastUsedAt = Date.now() - 8 * DAY_MS;
+		});
+		setSessionInUse(busy.id, true);
+		try {
+			evictOldSessions();
+		} finally {
+			setSessionInUse(busy.id, false);
+		}
+		assert.deepEqual(listSessions().map((s) => s.id).sort(), [busy.id, fresh.id].sort());
+		assert.equal(fs.existsSync(stale.promptFilePath!), false);
+	});
+
+	it("starts over from a corrupt index instead of failing", () => {
+		createSession("a", "", "/work", "Task");
+		fs.writeFileSync(path.join(getSessionStoreDir(), "index.json"), "{ not json");
+		assert.deepEqual(listSessions(), []);
+		const session = createSession("b", "", "/work", "Task");
+		assert.deepEqual(listSessions().map((s) => s.id), [session.id]);
+	});
+});
+
+describe("summarizeSessionFile", () => {
+	it("counts messages and turns and keeps the last assistant text", () => {
+		const session = createSession("a", "", "/work", "Task");
+		const message = (role: string, text: string) => JSON.stringify({ type: "message", message: { role, content: [{ type: "text", text }] } });
+		const lines = [
+			JSON.stringify({ type: "session", id: "x" }),
+			message("user", "Task: find it"),
+			message("assistant", "Looking"),
+			"not json",
+			message("assistant", "Found it"),
+		];
+		fs.writeFileSync(session.sessionFilePath, `${lines.join("\n")}\n`);
+		assert.deepEqual(summarizeSessionFile(session), { messageCount: 3, turns: 2, lastOutput: "Found it" });
+	});
+
+	it("returns null when the session has no file yet", () => {
+		assert.equal(summarizeSessionFile(createSession("a", "", "/work", "Task")), null);
+	});
+});
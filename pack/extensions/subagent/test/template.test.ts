@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractSection, listTemplateVariables, renderTemplate, stepOutput, validateVars } from "../template.js";
+
+const plan = "# Plan\n\nintro\n\n## Steps\n\n1. a\n2. b\n\n## Risks\n\nnone";
+const input = {
+	values: { previous: stepOutput("  last output  "), steps: { plan: stepOutput(plan), scan: stepOutput("found", { files: 2 }) } },
+	vars: { feature: "login" },
+};
+const render = (template: string) => renderTemplate(template, input);
+
+describe("renderTemplate", () => {
+	it("inserts vars and step outputs", () => {
+		assert.deepEqual(render("Build {{feature}} / {{ vars.feature }}"), { ok: true, text: "Build login / login" });
+		assert.deepEqual(render("{{steps.scan.json}}"), { ok: true, text: '{\n  "files": 2\n}' });
+	});
+
+	it("applies filters in order", () => {
+		assert.deepEqual(render("{{ steps.plan | section Steps | lines 1 }}"), { ok: true, text: "1. a" });
+		assert.deepEqual(render("[{{ previous | trim | truncate 4 }}]"), { ok: true, text: "[last…]" });
+		assert.deepEqual(render('{{ steps.plan | section "Missing" | default "n/a" }}'), { ok: true, text: "n/a" });
+	});
+
+	it("still resolves the older single-brace forms and escapes", () => {
+		assert.deepEqual(render("{scan.output} {previous.json} {unknown.output} \\{{x}}"), {
+			ok: true,
+			text: "found   last output   {unknown.output} {{x}}",
+		});
+	});
+
+	it("rejects unknown variables and filters", () => {
+		const unknown = render("{{nope}}");
+		assert.equal(unknown.ok, false);
+		assert.match(!unknown.ok ? unknown.error : "", /Unknown variable "nope" \(available: previous, steps, feature\)/);
+		const filter = render("{{feature | shout}}");
+		assert.match(!filter.ok ? filter.error : "", /Unknown filter "shout"/);
+		const count = render("{{feature | truncate many}}");
+		assert.match(!count.ok ? count.error : "", /needs a whole number/);
+	});
+});
+
+describe("extractSection", () => {
+	it("returns a section up to the next heading of the same level", () => {
+		assert.equal(extractSection(plan, "steps"), "1. a\n2. b");
+		assert.equal(extractSection(plan, "# Plan"), "intro\n\n## Steps\n\n1. a\n2. b\n\n## Risks\n\nnone");
+		assert.equal(extractSection("```\n# Steps\n```\n", "Steps"), "");
+	});
+});
+
+describe("validateVars and listTemplateVariables", () => {
+	it("rejects reserved and invalid names", () => {
+		assert.equal(validateVars({ feature: "x" }), null);
+		assert.match(validateVars({ previous: "x" })!, /reserved/);
+		assert.match(validateVars({ "1x": "x" })!, /Invalid variable name/);
+		assert.match(validateVars({ n: 1 })!, /must be a string/);
+	});
+
+	it("lists the paths a template uses", () => {
+		assert.deepEqual(listTemplateVariables("{{ steps.a | trim }} {b.output} {previous} \\{{skip}}"), ["steps.a", "steps.b.output", "previous"]);
+	});
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatUsageCsv, groupUsage, isUsageEntry, totalUsage, type UsageEntry } from "../usage.js";
+
+function entry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+	return {
+		agent: "scout",
+		model: "fast",
+		input: 100,
+		output: 10,
+		cacheRead: 0,
+		cacheWrite: 0,
+		cost: 0.01,
+		turns: 1,
+		timestamp: Date.UTC(2026, 0, 2, 3, 4, 5),
+		...overrides,
+	};
+}
+
+describe("usage ledger", () => {
+	it("recognizes only complete entries", () => {
+		assert.equal(isUsageEntry(entry()), true);
+		assert.equal(isUsageEntry({ ...entry(), cost: "0.01" }), false);
+		const { turns: _, ...withoutTurns } = entry();
+		assert.equal(isUsageEntry(withoutTurns), false);
+		assert.equal(isUsageEntry(null), false);
+	});
+
+	it("adds up every run", () => {
+		const totals = totalUsage([entry(), entry({ input: 50, cost: 0.02, turns: 3, cacheRead: 7 })]);
+		assert.equal(totals.runs, 2);
+		assert.equal(totals.input, 150);
+		assert.equal(totals.cacheRead, 7);
+		assert.equal(totals.turns, 4);
+		assert.ok(Math.abs(totals.cost - 0.03) < 1e-9);
+		assert.deepEqual(totalUsage([]), { runs: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, turns: 0 });
+	});
+
+	it("groups runs by agent or model, most expensive first", () => {
+		const entries = [entry(), entry({ agent: "worker", model: "smart", cost: 0.5 }), entry({ model: "smart" })];
+		const byAgent = groupUsage(entries, "agent");
+		assert.deepEqual(byAgent.map((g) => [g.name, g.totals.runs]), [["worker", 1], ["scout", 2]]);
+		const byModel = groupUsage(entries, "model");
+		assert.deepEqual(byModel.map((g) => [g.name, g.totals.runs]), [["smart", 2], ["fast", 1]]);
+		// Equal cost: alphabetical
+		assert.deepEqual(groupUsage([entry({ agent: "b" }), entry({ agent: "a" })], "agent").map((g) => g.name), ["a", "b"]);
+	});
+
+	it("exports one CSV row per run, quoting fields that need it", () => {
+		const csv = formatUsageCsv([entry(), entry({ agent: 'odd, "agent"' })]);
+		assert.equal(
+			csv,
+			[
+				"timestamp,agent,model,input,output,cacheRead,cacheWrite,cost,turns",
+				"2026-01-02T03:04:05.000Z,scout,fast,100,10,0,0,0.01,1",
+				'2026-01-02T03:04:05.000Z,"odd, ""agent""",fast,100,10,0,0,0.01,1',
+				"",
+			].join("\n"),
+		);
+	});
+});
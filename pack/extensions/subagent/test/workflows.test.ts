@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseWorkflow, resolveWorkflowVars, type WorkflowConfig } from "../workflows.js";
+
+function parse(frontmatter: string): WorkflowConfig | string {
+	return parseWorkflow(`---\n${frontmatter.trim()}\n---\nNotes for readers.\n`, "/workflows/test.md", "project");
+}
+
+const CHAIN = `
+chain:
+  - agent: scout
+    task: "Find {{request}}"
+  - agent: worker
+    task: "{{previous}}"
+`;
+
+describe("parseWorkflow", () => {
+	it("reads a chain workflow with its vars and run options", () => {
+		const workflow = parse(`
+name: implement
+description: Scout then work
+input: request
+vars:
+  request:
+  depth: 2
+maxCost: 1.5
+background: true
+${CHAIN}`) as WorkflowConfig;
+		assert.equal(workflow.name, "implement");
+		assert.equal(workflow.mode, "chain");
+		assert.deepEqual(workflow.vars, { request: null, depth: "2" });
+		assert.equal(workflow.input, "request");
+		assert.equal(workflow.background, true);
+		assert.deepEqual(Object.keys(workflow.params), ["chain", "maxCost"]);
+		assert.equal(workflow.params.maxCost, 1.5);
+		assert.equal(workflow.source, "project");
+	});
+
+	it("runs tasks as a parallel workflow", () => {
+		const workflow = parse(`
+name: audit
+description: Audit in parallel
+tasks:
+  - agent: scout
+    task: Look at the API
+  - agent: scout
+    task: Look at the UI
+`) as WorkflowConfig;
+		assert.equal(workflow.mode, "parallel");
+		assert.equal(workflow.input, "input");
+		assert.equal((workflow.params.tasks as unknown[]).length, 2);
+	});
+
+	it("explains what is wrong with a broken definition", () => {
+		assert.equal(parse(`description: x\n${CHAIN}`), "missing name");
+		assert.equal(parse(`name: Bad_Name\ndescription: x\n${CHAIN}`), 'invalid name "Bad_Name" (lowercase letters, digits and dashes)');
+		assert.equal(parse(`name: a\ndescription: x\nmodel: fast\n${CHAIN}`), "unknown key: model");
+		assert.equal(parse("name: a\ndescription: x"), "needs exactly one of chain, graph, tasks or map");
+		assert.equal(
+			parse(`name: a\ndescription: x\nmap:\n  agent: scout\n  taskTemplate: "{{item}}"\n${CHAIN}`),
+			"needs exactly one of chain, graph, tasks or map (found chain, map)",
+		);
+		assert.equal(parse("name: a\ndescription: x\nchain:\n  - agent: scout"), "chain entry 1 needs a task");
+		assert.equal(parse("name: a\ndescription: x\ngraph:\n  - agent: scout\n    task: t"), "graph entry 1 needs an id");
+		assert.equal(parse("name: a\ndescription: x\nmap:\n  agent: scout"), "map needs a taskTemplate");
+		assert.equal(parse(`name: a\ndescription: x\nbackground: yes please\n${CHAIN}`), "background must be true or false");
+	});
+});
+
+describe("resolveWorkflowVars", () => {
+	const workflow = parse(`
+name: implement
+description: Scout then work
+input: request
+vars:
+  request:
+  depth: 2
+${CHAIN}`) as WorkflowConfig;
+
+	it("fills the input variable from the argument text over the defaults", () => {
+		assert.deepEqual(resolveWorkflowVars(workflow, "  add a flag \n"), { vars: { depth: "2", request: "add a flag" }, missing: [] });
+	});
+
+	it("reports a declared input variable without a value as missing", () => {
+		assert.deepEqual(resolveWorkflowVars(workflow, " "), { vars: { depth: "2" }, missing: ["request"] });
+	});
+
+	it("leaves an undeclared input variable empty", () => {
+		const loose = parse(`name: loose\ndescription: x\n${CHAIN}`) as WorkflowConfig;
+		assert.deepEqual(resolveWorkflowVars(loose, ""), { vars: { input: "" }, missing: [] });
+	});
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createProject } from "./helpers.js";
+import { applyBranchDecision, createWorktree, finalizeWorktree, listSubagentBranches } from "../worktree.js";
+
+let project: ReturnType<typeof createProject>;
+beforeEach(() => {
+	project = createProject();
+});
+afterEach(() => project.cleanup());
+
+const git = (...args: string[]) => execFileSync("git", args, { cwd: project.dir, encoding: "utf-8" }).trim();
+
+/** A finished isolated run that wrote `file` */
+function finishedRun(label: string, file: string, content: string) {
+	const worktree = createWorktree(project.dir, label);
+	fs.writeFileSync(path.join(worktree.path, file), content);
+	return finalizeWorktree(worktree, `${label}: write ${file}`);
+}
+
+describe("worktrees", () => {
+	it("run in a separate checkout mapped to the requested directory", () => {
+		fs.mkdirSync(path.join(project.dir, "src"));
+		fs.writeFileSync(path.join(project.dir, "src", "index.ts"), "export {};\n");
+		git("add", "-A");
+		git("commit", "-q", "-m", "src");
+
+		const worktree = createWorktree(path.join(project.dir, "src"), "worker 1");
+		try {
+			assert.match(worktree.branch, /^pi-subagent\/worker_1-/);
+			assert.equal(worktree.baseCommit, git("rev-parse", "HEAD"));
+			assert.equal(worktree.cwd, path.join(worktree.path, "src"));
+			assert.equal(fs.existsSync(path.join(worktree.cwd, "index.ts")), true);
+		} finally {
+			finalizeWorktree(worktree, "unused");
+		}
+	});
+
+	it("commit the run's changes on the branch and leave the checkout alone", () => {
+		const result = finishedRun("worker", "feature.ts", "export const x = 1;\n");
+		assert.equal(result.error, undefined);
+		assert.equal(result.changed, true);
+		assert.match(result.diffStat, /feature\.ts/);
+		assert.match(result.diff, /\+export const x = 1;/);
+		assert.equal(git("log", "-1", "--format=%s", result.branch), "worker: write feature.ts");
+		assert.equal(fs.existsSync(path.join(project.dir, "feature.ts")), false);
+		assert.equal(git("worktree", "list").split("\n").length, 1);
+	});
+
+	it("drop the branch of a run that changed nothing", () => {
+		const worktree = createWorktree(project.dir, "scout");
+		const result = finalizeWorktree(worktree, "nothing");
+		assert.equal(result.changed, false);
+		assert.equal(fs.existsSync(worktree.path), false);
+		assert.equal(git("branch", "--list", worktree.branch), "");
+	});
+
+	it("require a git repository with a commit", () => {
+		const plain = fs.mkdtempSync(path.join(path.dirname(project.dir), "pi-subagent-plain-"));
+		try {
+			assert.throws(() => createWorktree(plain, "worker"), /requires a git repository/);
+		} finally {
+			fs.rmSync(plain, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("branch decisions", () => {
+	it("merge a branch into the checkout and delete it", () => {
+		const result = finishedRun("worker", "feature.ts", "merged\n");
+		assert.deepEqual(applyBranchDecision(project.dir, result.branch, "merge"), { ok: true });
+		assert.equal(fs.readFileSync(path.join(project.dir, "feature.ts"), "utf-8"), "merged\n");
+		assert.equal(git("branch", "--list", result.branch), "");
+	});
+
+	it("cherry-pick a branch's commits without a merge commit", () => {
+		const result = finishedRun("worker", "feature.ts", "picked\n");
+		assert.deepEqual(applyBranchDecision(project.dir, result.branch, "cherry-pick"), { ok: true });
+		assert.equal(git("log", "-1", "--format=%s"), "worker: write feature.ts");
+		assert.equal(git("rev-list", "--merges", "--count", "HEAD"), "0");
+		assert.equal(git("branch", "--list", result.branch), "");
+	});
+
+	it("discard a branch without touching the checkout", () => {
+		const result = finishedRun("worker", "feature.ts", "discarded\n");
+		assert.deepEqual(applyBranchDecision(project.dir, result.branch, "discard"), { ok: true });
+		assert.equal(fs.existsSync(path.join(project.dir, "feature.ts")), false);
+		assert.equal(git("branch", "--list", result.branch), "");
+	});
+
+	it("keep the branch and a clean checkout when a merge conflicts", () => {
+		const result = finishedRun("worker", "README.md", "# from the worker\n");
+		fs.writeFileSync(path.join(project.dir, "README.md"), "# from the user\n");
+		git("commit", "-q", "-am", "user edit");
+
+		const outcome = applyBranchDecision(project.dir, result.branch, "merge");
+		assert.equal(outcome.ok, false);
+		assert.ok(outcome.error);
+		assert.equal(git("status", "--porcelain"), "");
+		assert.equal(fs.readFileSync(path.join(project.dir, "README.md"), "utf-8"), "# from the user\n");
+		assert.equal(git("branch", "--list", result.branch, "--format=%(refname:short)"), result.branch);
+	});
+
+	it("are offered for every branch still waiting", () => {
+		const first = finishedRun("first", "a.ts", "a\n");
+		const second = finishedRun("second", "b.ts", "b\n");
+		const listed = listSubagentBranches(project.dir)!;
+		assert.equal(listed.repoRoot, project.dir);
+		assert.deepEqual(listed.branches.map((b) => b.branch).sort(), [first.branch, second.branch].sort());
+		const entry = listed.branches.find((b) => b.branch === first.branch)!;
+		assert.equal(entry.subject, "first: write a.ts");
+		assert.match(entry.diffStat, /1 file changed/);
+	});
+});
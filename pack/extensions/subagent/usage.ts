@@ -0,0 +1,100 @@
+/**
+ * Subagent usage ledger
+ *
+ * One entry per finished subagent run (every attempt, including aborted ones),
+ * stored in the parent session as a "subagent-usage" custom entry so the totals
+ * survive resume. Pure helpers: totals by agent or model, and CSV/JSON export.
+ */
+
+export const USAGE_ENTRY_TYPE = "subagent-usage";
+
+export interface UsageEntry {
+	agent: string;
+	/** Model the run reported, or "(default)" when it reported none */
+	model: string;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: number;
+	turns: number;
+	timestamp: number;
+}
+
+export interface UsageTotals {
+	runs: number;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: number;
+	turns: number;
+}
+
+export interface UsageGroup {
+	name: string;
+	totals: UsageTotals;
+}
+
+const NUMERIC_FIELDS = ["input", "output", "cacheRead", "cacheWrite", "cost", "turns"] as const;
+
+export function isUsageEntry(data: unknown): data is UsageEntry {
+	if (!data || typeof data !== "object") return false;
+	const entry = data as Record<string, unknown>;
+	return (
+		typeof entry.agent === "string" &&
+		typeof entry.model === "string" &&
+		typeof entry.timestamp === "number" &&
+		NUMERIC_FIELDS.every((field) => typeof entry[field] === "number")
+	);
+}
+
+export function totalUsage(entries: UsageEntry[]): UsageTotals {
+	const totals: UsageTotals = { runs: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, turns: 0 };
+	for (const entry of entries) {
+		totals.runs++;
+		for (const field of NUMERIC_FIELDS) totals[field] += entry[field];
+	}
+	return totals;
+}
+
+/** Totals per agent or per model, most expensive first */
+export function groupUsage(entries: UsageEntry[], key: "agent" | "model"): UsageGroup[] {
+	const groups = new Map<string, UsageEntry[]>();
+	for (const entry of entries) {
+		const list = groups.get(entry[key]);
+		if (list) list.push(entry);
+		else groups.set(entry[key], [entry]);
+	}
+	return Array.from(groups, ([name, list]) => ({ name, totals: totalUsage(list) })).sort(
+		(a, b) => b.totals.cost - a.totals.cost || a.name.localeCompare(b.name),
+	);
+}
+
+function csvField(value: string | number): string {
+	const text = String(value);
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per run */
+export function formatUsageCsv(entries: UsageEntry[]): string {
+	const header = ["timestamp", "agent", "model", ...NUMERIC_FIELDS];
+	const rows = entries.map((entry) =>
+		[new Date(entry.timestamp).toISOString(), entry.agent, entry.model, ...NUMERIC_FIELDS.map((field) => entry[field])]
+			.map(csvField)
+			.join(","),
+	);
+	return `${[header.join(","), ...rows].join("\n")}\n`;
+}
+
+/** Totals, per-agent and per-model groups, and every run */
+export function formatUsageJson(entries: UsageEntry[]): string {
+	const report = {
+		generatedAt: new Date().toISOString(),
+		totals: totalUsage(entries),
+		byAgent: groupUsage(entries, "agent"),
+		byModel: groupUsage(entries, "model"),
+		runs: entries.map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })),
+	};
+	return `${JSON.stringify(report, null, 2)}\n`;
+}
@@ -0,0 +1,212 @@
+/**
+ * Workflow definitions: fixed subagent runs exposed as slash commands
+ *
+ * A workflow is a markdown file in ~/.pi/agent/workflows (installed from
+ * pack/workflows) or in the nearest .pi/workflows; project workflows override
+ * user workflows of the same name. The frontmatter describes the run:
+ *   - `name` (the command, /<name>) and `description`
+ *   - exactly one of `chain`, `graph`, `tasks` (parallel) or `map`, written
+ *     like the subagent tool's parameters
+ *   - `vars`: template variables for the tasks; a value is the default, an
+ *     empty one has to be given when the command runs
+ *   - `input`: the variable that receives the command's argument text
+ *     (default "input"); declare it in `vars` without a value to require it
+ *   - `agentScope`, `cache`, `maxCost`, `maxTurns`, `maxTokens`, `timeoutMs`:
+ *     as in the subagent tool; `background: true` starts a background job
+ * The body is free-form notes for readers of the file.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { parseFrontmatter } from "@mariozechner/pi-coding-agent";
+
+/** Frontmatter key of each mode and the subagent mode it runs as */
+const MODE_KEYS = { chain: "chain", graph: "graph", tasks: "parallel", map: "map" } as const;
+type WorkflowMode = (typeof MODE_KEYS)[keyof typeof MODE_KEYS];
+
+/** Passed to the subagent run as they are */
+const RUN_KEYS = ["agentScope", "cache", "maxCost", "maxTurns", "maxTokens", "timeoutMs"];
+const KNOWN_KEYS = new Set(["name", "description", "vars", "input", "background", ...Object.keys(MODE_KEYS), ...RUN_KEYS]);
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const VAR_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+export const DEFAULT_INPUT_VAR = "input";
+
+export interface WorkflowConfig {
+	name: string;
+	description: string;
+	mode: WorkflowMode;
+	/** Subagent tool parameters: the mode key and run options (without vars) */
+	params: Record<string, unknown>;
+	/** Defaults; null marks a variable that has to be given */
+	vars: Record<string, string | null>;
+	/** Variable that receives the command's argument text */
+	input: string;
+	background: boolean;
+	source: "user" | "project";
+	filePath: string;
+}
+
+export interface WorkflowLoadError {
+	filePath: string;
+	message: string;
+}
+
+export interface WorkflowDiscoveryResult {
+	workflows: WorkflowConfig[];
+	projectWorkflowsDir: string | null;
+	errors: WorkflowLoadError[];
+}
+
+function parseVars(value: unknown): Record<string, string | null> | string {
+	if (value === undefined || value === null) return {};
+	if (!isObject(value)) return "vars must be a map of names to default values";
+	const vars: Record<string, string | null> = {};
+	for (const [name, defaultValue] of Object.entries(value)) {
+		if (!VAR_NAME_PATTERN.test(name)) return `invalid variable name "${name}"`;
+		if (defaultValue === null || defaultValue === "") vars[name] = null;
+		else if (typeof defaultValue === "string" || typeof defaultValue === "number" || typeof defaultValue === "boolean") {
+			vars[name] = String(defaultValue);
+		} else return `default of variable "${name}" must be text`;
+	}
+	return vars;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Shape problems of the mode's steps, or null; the run checks the rest as for tool calls */
+function validateSteps(modeKey: keyof typeof MODE_KEYS, value: unknown): string | null {
+	if (modeKey === "map") {
+		if (!isObject(value)) return "map must be an object";
+		if (typeof value.agent !== "string") return "map needs an agent";
+		if (typeof value.taskTemplate !== "string") return "map needs a taskTemplate";
+		if (value.reduce !== undefined && (!isObject(value.reduce) || typeof value.reduce.agent !== "string")) return "map.reduce needs an agent";
+		return null;
+	}
+	if (!Array.isArray(value) || value.length === 0) return `${modeKey} must be a non-empty list`;
+	for (const [index, step] of value.entries()) {
+		const label = `${modeKey} entry ${index + 1}`;
+		if (!isObject(step)) return `${label} must be an object`;
+		if (typeof step.agent !== "string") return `${label} needs an agent`;
+		if (typeof step.task !== "string") return `${label} needs a task`;
+		if (modeKey === "graph" && typeof step.id !== "string") return `${label} needs an id`;
+	}
+	return null;
+}
+
+/** The workflow in a file's content, or why it cannot be used */
+export function parseWorkflow(content: string, filePath: string, source: "user" | "project"): WorkflowConfig | string {
+	let frontmatter: Record<string, any>;
+	try {
+		({ frontmatter } = parseFrontmatter<Record<string, any>>(content));
+	} catch (err: any) {
+		return `invalid frontmatter: ${err?.message ?? err}`;
+	}
+	const name = typeof frontmatter.name === "string" ? frontmatter.name.trim() : "";
+	if (!name) return "missing name";
+	if (!NAME_PATTERN.test(name)) return `invalid name "${name}" (lowercase letters, digits and dashes)`;
+	if (typeof frontmatter.description !== "string" || !frontmatter.description.trim()) return "missing description";
+	const unknown = Object.keys(frontmatter).filter((key) => !KNOWN_KEYS.has(key));
+	if (unknown.length > 0) return `unknown key${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`;
+
+	const modeKeys = Object.keys(MODE_KEYS).filter((key) => frontmatter[key] !== undefined) as Array<keyof typeof MODE_KEYS>;
+	if (modeKeys.length !== 1) return `needs exactly one of chain, graph, tasks or map${modeKeys.length > 1 ? ` (found ${modeKeys.join(", ")})` : ""}`;
+	const modeKey = modeKeys[0];
+	const stepsError = validateSteps(modeKey, frontmatter[modeKey]);
+	if (stepsError) return stepsError;
+
+	const vars = parseVars(frontmatter.vars);
+	if (typeof vars === "string") return vars;
+	const input = frontmatter.input === undefined ? DEFAULT_INPUT_VAR : String(frontmatter.input).trim();
+	if (!VAR_NAME_PATTERN.test(input)) return `invalid input variable "${input}"`;
+	if (frontmatter.background !== undefined && typeof frontmatter.background !== "boolean") return "background must be true or false";
+
+	const params: Record<string, unknown> = { [modeKey]: frontmatter[modeKey] };
+	for (const key of RUN_KEYS) if (frontmatter[key] !== undefined) params[key] = frontmatter[key];
+	return {
+		name,
+		description: frontmatter.description.trim(),
+		mode: MODE_KEYS[modeKey],
+		params,
+		vars,
+		input,
+		background: frontmatter.background === true,
+		source,
+		filePath,
+	};
+}
+
+export function loadWorkflowFile(filePath: string, source: "user" | "project"): WorkflowConfig | string {
+	let content: string;
+	try {
+		content = fs.readFileSync(filePath, "utf-8");
+	} catch (err: any) {
+		return `cannot read file: ${err?.message ?? err}`;
+	}
+	return parseWorkflow(content, filePath, source);
+}
+
+function loadWorkflowsFromDir(dir: string, source: "user" | "project", errors: WorkflowLoadError[]): WorkflowConfig[] {
+	let entries: fs.Dirent[];
+	try {
+		entries = fs.readdirSync(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+	const workflows: WorkflowConfig[] = [];
+	for (const entry of entries) {
+		if (!entry.name.endsWith(".md") || entry.name.startsWith(".")) continue;
+		if (!entry.isFile() && !entry.isSymbolicLink()) continue;
+		const filePath = path.join(dir, entry.name);
+		const result = loadWorkflowFile(filePath, source);
+		if (typeof result === "string") errors.push({ filePath, message: result });
+		else workflows.push(result);
+	}
+	return workflows.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getUserWorkflowsDir(): string {
+	return path.join(os.homedir(), ".pi", "agent", "workflows");
+}
+
+export function findNearestProjectWorkflowsDir(cwd: string): string | null {
+	let currentDir = cwd;
+	while (true) {
+		const candidate = path.join(currentDir, ".pi", "workflows");
+		try {
+			if (fs.statSync(candidate).isDirectory()) return candidate;
+		} catch {}
+
+		const parentDir = path.dirname(currentDir);
+		if (parentDir === currentDir) return null;
+		currentDir = parentDir;
+	}
+}
+
+export function discoverWorkflows(cwd: string): WorkflowDiscoveryResult {
+	const errors: WorkflowLoadError[] = [];
+	const projectWorkflowsDir = findNearestProjectWorkflowsDir(cwd);
+	const userWorkflows = loadWorkflowsFromDir(getUserWorkflowsDir(), "user", errors);
+	const projectWorkflows = projectWorkflowsDir ? loadWorkflowsFromDir(projectWorkflowsDir, "project", errors) : [];
+
+	// Later wins: project workflows override user workflows with the same name
+	const byName = new Map<string, WorkflowConfig>();
+	for (const workflow of [...userWorkflows, ...projectWorkflows]) byName.set(workflow.name, workflow);
+	return { workflows: Array.from(byName.values()), projectWorkflowsDir, errors };
+}
+
+/**
+ * Variables for a run: defaults, then the argument text as the input variable
+ * (empty when no argument is given, unless `vars` declares it without a default).
+ * `missing` lists the declared variables that are still without a value.
+ */
+export function resolveWorkflowVars(workflow: WorkflowConfig, args: string): { vars: Record<string, string>; missing: string[] } {
+	const vars: Record<string, string> = {};
+	for (const [name, value] of Object.entries(workflow.vars)) if (value !== null) vars[name] = value;
+	if (args.trim()) vars[workflow.input] = args.trim();
+	else if (!(workflow.input in workflow.vars)) vars[workflow.input] = "";
+	const missing = Object.keys(workflow.vars).filter((name) => vars[name] === undefined);
+	return { vars, missing };
+}
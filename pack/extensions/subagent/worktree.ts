@@ -0,0 +1,201 @@
+/**
+ * Git worktree isolation for subagent runs
+ *
+ * An isolated run gets a fresh `git worktree` on a temp branch (pi-subagent/...),
+ * so parallel workers never edit the same checkout. When the run finishes its
+ * changes are committed on that branch and the worktree is removed; the branch
+ * stays around until it is merged, cherry-picked or discarded.
+ */
+
+import { execFileSync } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+export const WORKTREE_BRANCH_PREFIX = "pi-subagent/";
+const DIFF_MAX_LENGTH = 20000;
+
+export type Isolation = "none" | "worktree";
+export type BranchDecision = "merge" | "cherry-pick" | "discard";
+
+export interface Worktree {
+	repoRoot: string;
+	path: string;
+	branch: string;
+	baseCommit: string;
+	/** Directory to run the agent in (the requested cwd mapped into the worktree) */
+	cwd: string;
+}
+
+export interface WorktreeResult {
+	repoRoot: string;
+	branch: string;
+	changed: boolean;
+	diffStat: string;
+	/** Full diff, truncated to DIFF_MAX_LENGTH */
+	diff: string;
+	/** What happened to the branch after the run; undefined while undecided */
+	outcome?: "merged" | "cherry-picked" | "discarded" | "kept";
+	error?: string;
+}
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): string {
+	return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], env }).trim();
+}
+
+function gitErrorMessage(err: any): string {
+	return (err?.stderr?.toString().trim() || err?.message || String(err)).split("\n")[0];
+}
+
+/** Create a worktree on a new temp branch at HEAD of the repository containing `cwd` */
+export function createWorktree(cwd: string, label: string): Worktree {
+	let repoRoot: string;
+	try {
+		repoRoot = git(cwd, ["rev-parse", "--show-toplevel"]);
+	} catch {
+		throw new Error(`Worktree isolation requires a git repository, but ${cwd} is not inside one.`);
+	}
+	let baseCommit: string;
+	try {
+		baseCommit = git(repoRoot, ["rev-parse", "HEAD"]);
+	} catch {
+		throw new Error("Worktree isolation requires at least one commit in the repository.");
+	}
+
+	const safeLabel = label.replace(/[^\w.-]+/g, "_");
+	const suffix = `${Date.now().toString(36)}-${crypto.randomBytes(2).toString("hex")}`;
+	const branch = `${WORKTREE_BRANCH_PREFIX}${safeLabel}-${suffix}`;
+	const worktreePath = path.join(os.tmpdir(), `pi-subagent-wt-${safeLabel}-${suffix}`);
+	try {
+		git(repoRoot, ["worktree", "add", "-q", "-b", branch, worktreePath, baseCommit]);
+	} catch (err) {
+		throw new Error(`git worktree add failed: ${gitErrorMessage(err)}`);
+	}
+
+	const relative = path.relative(fs.realpathSync(repoRoot), fs.realpathSync(cwd));
+	return { repoRoot, path: worktreePath, branch, baseCommit, cwd: path.join(worktreePath, relative) };
+}
+
+function hasGitIdentity(cwd: string): boolean {
+	try {
+		return Boolean(git(cwd, ["config", "user.email"]));
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Commit everything the agent left in the worktree, collect the diff against the
+ * base commit and remove the worktree. Branches without changes are deleted.
+ */
+export function finalizeWorktree(worktree: Worktree, message: string): WorktreeResult {
+	const result: WorktreeResult = { repoRoot: worktree.repoRoot, branch: worktree.branch, changed: false, diffStat: "", diff: "" };
+	try {
+		git(worktree.path, ["add", "-A"]);
+		if (git(worktree.path, ["status", "--porcelain"])) {
+			const env = hasGitIdentity(worktree.path)
+				? undefined
+				: { ...process.env, GIT_AUTHOR_NAME: "pi subagent", GIT_AUTHOR_EMAIL: "subagent@pi.local", GIT_COMMITTER_NAME: "pi subagent", GIT_COMMITTER_EMAIL: "subagent@pi.local" };
+			git(worktree.path, ["commit", "-q", "--no-verify", "-m", message], env);
+		}
+		const range = `${worktree.baseCommit}..${worktree.branch}`;
+		result.diffStat = git(worktree.repoRoot, ["diff", "--stat", range]);
+		result.changed = result.diffStat.length > 0;
+		if (result.changed) {
+			const diff = git(worktree.repoRoot, ["diff", range]);
+			result.diff = diff.length > DIFF_MAX_LENGTH ? `${diff.slice(0, DIFF_MAX_LENGTH)}\n... (diff truncated)` : diff;
+		}
+	} catch (err) {
+		result.error = `Failed to collect worktree changes: ${gitErrorMessage(err)}`;
+		// Keep the branch so nothing is lost
+		result.changed = true;
+	}
+	removeWorktree(worktree, !result.changed);
+	return result;
+}
+
+export function removeWorktree(worktree: Worktree, deleteBranch: boolean): void {
+	try {
+		git(worktree.repoRoot, ["worktree", "remove", "--force", worktree.path]);
+	} catch {
+		try {
+			fs.rmSync(worktree.path, { recursive: true, force: true });
+			git(worktree.repoRoot, ["worktree", "prune"]);
+		} catch {
+			/* ignore */
+		}
+	}
+	if (deleteBranch) {
+		try {
+			git(worktree.repoRoot, ["branch", "-D", worktree.branch]);
+		} catch {
+			/* ignore */
+		}
+	}
+}
+
+/**
+ * Apply a decision to a subagent branch in the repository's current checkout.
+ * Conflicts are aborted and reported; the branch is kept in that case.
+ */
+export function applyBranchDecision(repoRoot: string, branch: string, decision: BranchDecision): { ok: boolean; error?: string } {
+	try {
+		if (decision === "merge") {
+			try {
+				git(repoRoot, ["merge", "--no-ff", "--no-edit", branch]);
+			} catch (err) {
+				try {
+					git(repoRoot, ["merge", "--abort"]);
+				} catch { /* nothing to abort */ }
+				throw err;
+			}
+		} else if (decision === "cherry-pick") {
+			const base = git(repoRoot, ["merge-base", "HEAD", branch]);
+			try {
+				git(repoRoot, ["cherry-pick", `${base}..${branch}`]);
+			} catch (err) {
+				try {
+					git(repoRoot, ["cherry-pick", "--abort"]);
+				} catch { /* nothing to abort */ }
+				throw err;
+			}
+		}
+		git(repoRoot, ["branch", "-D", branch]);
+		return { ok: true };
+	} catch (err) {
+		return { ok: false, error: gitErrorMessage(err) };
+	}
+}
+
+export interface SubagentBranch {
+	branch: string;
+	subject: string;
+	diffStat: string;
+}
+
+/** Subagent branches still waiting for a decision in the repository containing `cwd` */
+export function listSubagentBranches(cwd: string): { repoRoot: string; branches: SubagentBranch[] } | null {
+	let repoRoot: string;
+	try {
+		repoRoot = git(cwd, ["rev-parse", "--show-toplevel"]);
+	} catch {
+		return null;
+	}
+	const names = git(repoRoot, ["branch", "--list", `${WORKTREE_BRANCH_PREFIX}*`, "--format=%(refname:short)"])
+		.split("\n")
+		.filter(Boolean);
+	const branches = names.map((branch) => {
+		let subject = "";
+		let diffStat = "";
+		try {
+			subject = git(repoRoot, ["log", "-1", "--format=%s", branch]);
+			const base = git(repoRoot, ["merge-base", "HEAD", branch]);
+			diffStat = git(repoRoot, ["diff", "--shortstat", `${base}..${branch}`]);
+		} catch {
+			/* unrelated history — show what we have */
+		}
+		return { branch, subject, diffStat };
+	});
+	return { repoRoot, branches };
+}